@@ -0,0 +1,73 @@
+const ATTEMPT_FAILURE_THRESHOLD = Number(process.env.FIND_ANSWER_FAILURE_THRESHOLD || 5);
+const IP_FAILURE_THRESHOLD = Number(process.env.FIND_ANSWER_IP_FAILURE_THRESHOLD || 30);
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_TRACKED_KEYS = 20000;
+
+type FailureState = {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+};
+
+const failures = new Map<string, FailureState>();
+
+const lockoutDuration = (count: number, threshold: number) => {
+  if (count < threshold) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (count - threshold), MAX_LOCKOUT_MS);
+};
+
+const pruneFailures = (now: number) => {
+  for (const [key, state] of failures) {
+    if (now - state.lastFailureAt > FAILURE_WINDOW_MS && state.lockedUntil <= now) {
+      failures.delete(key);
+    }
+  }
+};
+
+const getState = (key: string, now: number) => {
+  const state = failures.get(key);
+  if (!state) return null;
+  if (now - state.lastFailureAt > FAILURE_WINDOW_MS && state.lockedUntil <= now) {
+    failures.delete(key);
+    return null;
+  }
+  return state;
+};
+
+const registerFailure = (key: string, threshold: number, now: number) => {
+  const state = getState(key, now) ?? { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+  state.failures += 1;
+  state.lastFailureAt = now;
+  const lockout = lockoutDuration(state.failures, threshold);
+  if (lockout > 0) state.lockedUntil = now + lockout;
+  failures.set(key, state);
+};
+
+export type AnswerThrottleResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+export const checkAnswerAllowed = (ip: string, playerId: string, cacheId: string): AnswerThrottleResult => {
+  const now = Date.now();
+  const lockedUntil = Math.max(
+    getState(`ip:${ip}`, now)?.lockedUntil ?? 0,
+    getState(`ip-cache:${ip}:${cacheId}`, now)?.lockedUntil ?? 0,
+    getState(`cache:${playerId}:${cacheId}`, now)?.lockedUntil ?? 0
+  );
+  if (lockedUntil > now) {
+    return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((lockedUntil - now) / 1000)) };
+  }
+  return { allowed: true };
+};
+
+export const recordAnswerFailure = (ip: string, playerId: string, cacheId: string) => {
+  const now = Date.now();
+  if (failures.size >= MAX_TRACKED_KEYS) pruneFailures(now);
+  registerFailure(`ip:${ip}`, IP_FAILURE_THRESHOLD, now);
+  registerFailure(`ip-cache:${ip}:${cacheId}`, ATTEMPT_FAILURE_THRESHOLD, now);
+  registerFailure(`cache:${playerId}:${cacheId}`, ATTEMPT_FAILURE_THRESHOLD, now);
+};
+
+export const recordAnswerSuccess = (playerId: string, cacheId: string) => {
+  failures.delete(`cache:${playerId}:${cacheId}`);
+};
@@ -0,0 +1,60 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from './db.js';
+
+export type AuditEntityType =
+  | 'event'
+  | 'cache'
+  | 'invitation'
+  | 'setting'
+  | 'admin'
+  | 'session'
+  | 'team';
+
+type AuditEntry = {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  eventId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  adminId?: string | null;
+};
+
+const REDACTED_KEYS = new Set([
+  'passwordHash',
+  'smtpPassword',
+  'token',
+  'tokenHash',
+  'previousTokenHash',
+  'totpSecret',
+  'totpPendingSecret'
+]);
+
+const toSnapshot = (value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull => {
+  if (value === undefined || value === null) return Prisma.JsonNull;
+  return JSON.parse(
+    JSON.stringify(value, (key, entry) =>
+      REDACTED_KEYS.has(key) && entry ? '[redacted]' : entry
+    )
+  ) as Prisma.InputJsonValue;
+};
+
+export const recordAudit = async (req: Request | null, entry: AuditEntry) => {
+  try {
+    await prisma.adminAuditLog.create({
+      data: {
+        adminId: entry.adminId ?? (req ? ((req as any).adminId as string | undefined) : null) ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        eventId: entry.eventId ?? null,
+        before: toSnapshot(entry.before),
+        after: toSnapshot(entry.after),
+        ipAddress: req?.ip ?? null
+      }
+    });
+  } catch (error) {
+    console.error('Audit-Log konnte nicht geschrieben werden', error);
+  }
+};
@@ -0,0 +1,175 @@
+import { EmailStatus, EmailSuppressionReason } from '@prisma/client';
+
+import { suppressEmail } from './suppressions.js';
+import { prisma } from './db.js';
+
+export type BounceKind = 'hard' | 'soft' | 'complaint';
+
+export type BounceNotification = {
+  recipient: string;
+  kind: BounceKind;
+  messageId: string | null;
+  reason: string | null;
+};
+
+export type BounceResult = BounceNotification & {
+  emailLogId: string | null;
+  invitationId: string | null;
+  suppressed: boolean;
+};
+
+type BounceWebhookEntry = {
+  type?: string;
+  bounceType?: string;
+  recipient?: string;
+  email?: string;
+  messageId?: string;
+  reason?: string;
+};
+
+const SOFT_BOUNCE_TYPES = ['soft', 'transient', 'temporary'];
+
+export const normalizeMessageId = (value: string | null | undefined) => {
+  const trimmed = value?.trim().replace(/^<|>$/g, '');
+  return trimmed ? `<${trimmed}>` : null;
+};
+
+const unfoldHeaders = (raw: string) => raw.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ');
+
+const parseFieldBlocks = (text: string) =>
+  text.split(/\n\s*\n/).map((block) =>
+    block.split('\n').reduce<Record<string, string>>((fields, line) => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        fields[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+      return fields;
+    }, {})
+  );
+
+const addressOf = (value: string | undefined) => {
+  const address = value?.includes(';') ? value.split(';').slice(1).join(';') : value;
+  const cleaned = address?.trim().replace(/^<|>$/g, '').toLowerCase();
+  return cleaned && cleaned.includes('@') ? cleaned : null;
+};
+
+const diagnosticOf = (value: string | undefined) => value?.replace(/^[a-z-]+;\s*/i, '') || null;
+
+export const parseDeliveryStatusReport = (raw: string): BounceNotification[] => {
+  const text = unfoldHeaders(raw);
+  const messageIds = [...text.matchAll(/^Message-ID:\s*(<[^>\s]+>)/gim)].map((match) => match[1]);
+  const messageId = messageIds.length ? messageIds[messageIds.length - 1] : null;
+  const blocks = parseFieldBlocks(text);
+
+  const feedback = blocks.find((fields) => fields['feedback-type']);
+  if (feedback) {
+    const recipient = addressOf(feedback['original-rcpt-to']);
+    return recipient
+      ? [{ recipient, kind: 'complaint', messageId, reason: `Beschwerde (${feedback['feedback-type']})` }]
+      : [];
+  }
+
+  return blocks.flatMap((fields): BounceNotification[] => {
+    const recipient = addressOf(fields['final-recipient'] ?? fields['original-recipient']);
+    const action = fields.action?.toLowerCase();
+    if (!recipient || (action !== 'failed' && action !== 'delayed')) return [];
+    const status = fields.status ?? '';
+    return [
+      {
+        recipient,
+        kind: action === 'failed' && status.startsWith('5') ? 'hard' : 'soft',
+        messageId,
+        reason: diagnosticOf(fields['diagnostic-code']) ?? (status ? `Status ${status}` : null)
+      }
+    ];
+  });
+};
+
+export const parseBounceWebhook = (payload: unknown): BounceNotification[] => {
+  const container = payload as { events?: unknown } | null;
+  const entries = Array.isArray(payload)
+    ? payload
+    : Array.isArray(container?.events)
+      ? container!.events
+      : [payload];
+  return (entries as BounceWebhookEntry[]).flatMap((entry): BounceNotification[] => {
+    const recipient = addressOf(entry?.recipient ?? entry?.email);
+    if (!recipient) return [];
+    const type = String(entry.type ?? 'bounce').toLowerCase();
+    if (type !== 'bounce' && type !== 'complaint') return [];
+    const soft = SOFT_BOUNCE_TYPES.includes(String(entry.bounceType ?? '').toLowerCase());
+    return [
+      {
+        recipient,
+        kind: type === 'complaint' ? 'complaint' : soft ? 'soft' : 'hard',
+        messageId: normalizeMessageId(entry.messageId),
+        reason: typeof entry.reason === 'string' ? entry.reason.slice(0, 500) : null
+      }
+    ];
+  });
+};
+
+const findEmailLog = async (notification: BounceNotification) => {
+  const byMessageId = notification.messageId
+    ? await prisma.emailLog.findUnique({ where: { messageId: notification.messageId } })
+    : null;
+  if (byMessageId) return byMessageId;
+  return prisma.emailLog.findFirst({
+    where: {
+      recipient: { equals: notification.recipient, mode: 'insensitive' },
+      status: { in: [EmailStatus.SENT, EmailStatus.BOUNCED] }
+    },
+    orderBy: { sentAt: 'desc' }
+  });
+};
+
+export const applyBounceNotification = async (notification: BounceNotification): Promise<BounceResult> => {
+  const log = await findEmailLog(notification);
+  const now = new Date();
+  const result: BounceResult = {
+    ...notification,
+    emailLogId: log?.id ?? null,
+    invitationId: log?.invitationId ?? null,
+    suppressed: notification.kind !== 'soft'
+  };
+
+  if (notification.kind === 'soft') {
+    if (log) {
+      await prisma.emailLog.update({
+        where: { id: log.id },
+        data: { errorMessage: `Zustellung verzögert: ${notification.reason ?? 'unbekannter Grund'}` }
+      });
+    }
+    return result;
+  }
+
+  if (notification.kind === 'hard') {
+    await suppressEmail(notification.recipient, EmailSuppressionReason.HARD_BOUNCE, notification.reason);
+    if (log) {
+      await prisma.emailLog.update({
+        where: { id: log.id },
+        data: {
+          status: EmailStatus.BOUNCED,
+          bouncedAt: now,
+          errorMessage: notification.reason ?? 'Empfänger unzustellbar'
+        }
+      });
+    }
+    if (log?.invitationId) {
+      await prisma.invitation.update({
+        where: { id: log.invitationId },
+        data: { bouncedAt: now, bounceReason: notification.reason ?? 'Empfänger unzustellbar' }
+      });
+    }
+    return result;
+  }
+
+  await suppressEmail(notification.recipient, EmailSuppressionReason.COMPLAINT, notification.reason);
+  if (log?.invitationId) {
+    await prisma.invitation.updateMany({
+      where: { id: log.invitationId, unsubscribedAt: null },
+      data: { unsubscribedAt: now }
+    });
+  }
+  return result;
+};
@@ -0,0 +1,118 @@
+import { Cache, CacheUnlockMode } from '@prisma/client';
+import { prisma } from './db.js';
+
+export const MAX_STAGE = 1000;
+export const MAX_PREREQUISITES = 50;
+
+export type CacheChainPayload = {
+  stage?: number | null;
+  isFinal?: boolean;
+  unlockMode?: CacheUnlockMode;
+  prerequisiteIds?: string[];
+};
+
+export type ChainCache = Pick<Cache, 'id' | 'stage' | 'unlockMode'> & {
+  prerequisites: Array<{ id: string }>;
+};
+
+export const chainCacheSelect = {
+  id: true,
+  stage: true,
+  unlockMode: true,
+  prerequisites: { select: { id: true } }
+} as const;
+
+export const validateCacheChain = (payload: CacheChainPayload) => {
+  if (
+    payload.stage !== undefined &&
+    payload.stage !== null &&
+    (!Number.isInteger(payload.stage) || payload.stage < 1 || payload.stage > MAX_STAGE)
+  ) {
+    throw new Error(`Stufe muss eine ganze Zahl zwischen 1 und ${MAX_STAGE} sein`);
+  }
+  if (payload.isFinal !== undefined && typeof payload.isFinal !== 'boolean') {
+    throw new Error('isFinal muss true oder false sein');
+  }
+  if (
+    payload.unlockMode !== undefined &&
+    !(Object.values(CacheUnlockMode) as string[]).includes(payload.unlockMode)
+  ) {
+    throw new Error('Ungültige Freischaltbedingung');
+  }
+  if (payload.prerequisiteIds !== undefined) {
+    if (
+      !Array.isArray(payload.prerequisiteIds) ||
+      payload.prerequisiteIds.some((id) => typeof id !== 'string' || !id)
+    ) {
+      throw new Error('prerequisiteIds muss eine Liste von Cache-IDs sein');
+    }
+    if (new Set(payload.prerequisiteIds).size > MAX_PREREQUISITES) {
+      throw new Error(`Maximal ${MAX_PREREQUISITES} Voraussetzungen pro Cache erlaubt`);
+    }
+  }
+};
+
+const dependenciesOf = (cache: ChainCache, caches: ChainCache[]) => [
+  ...cache.prerequisites.map((prerequisite) => prerequisite.id),
+  ...(cache.stage === null
+    ? []
+    : caches.filter((other) => other.stage !== null && other.stage < cache.stage!).map((other) => other.id))
+];
+
+export const validatePrerequisiteGraph = (caches: ChainCache[], candidate: ChainCache) => {
+  const eventCacheIds = new Set(caches.map((cache) => cache.id));
+  for (const prerequisite of candidate.prerequisites) {
+    if (prerequisite.id === candidate.id) {
+      throw new Error('Ein Cache kann nicht Voraussetzung für sich selbst sein');
+    }
+    if (!eventCacheIds.has(prerequisite.id)) {
+      throw new Error('Voraussetzungen müssen Caches desselben Events sein');
+    }
+  }
+
+  const graph = [...caches.filter((cache) => cache.id !== candidate.id), candidate];
+  const byId = new Map(graph.map((cache) => [cache.id, cache]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const hasCycle = (cache: ChainCache): boolean => {
+    if (state.get(cache.id) === 'done') return false;
+    if (state.get(cache.id) === 'visiting') return true;
+    state.set(cache.id, 'visiting');
+    const cyclic = dependenciesOf(cache, graph).some((id) => {
+      const dependency = byId.get(id);
+      return dependency ? hasCycle(dependency) : false;
+    });
+    state.set(cache.id, 'done');
+    return cyclic;
+  };
+  if (graph.some(hasCycle)) {
+    throw new Error('Stufen und Voraussetzungen bilden einen Kreis, der Cache wäre nie freischaltbar');
+  }
+};
+
+export const isCacheUnlocked = (cache: ChainCache, caches: ChainCache[], solvedIds: Set<string>) => {
+  const stageCleared =
+    cache.stage === null ||
+    caches.every((other) => other.stage === null || other.stage >= cache.stage! || solvedIds.has(other.id));
+  if (!stageCleared) return false;
+  if (cache.prerequisites.length === 0) return true;
+  return cache.unlockMode === CacheUnlockMode.ANY
+    ? cache.prerequisites.some((prerequisite) => solvedIds.has(prerequisite.id))
+    : cache.prerequisites.every((prerequisite) => solvedIds.has(prerequisite.id));
+};
+
+export const listSolvedCacheIds = async (eventId: string, playerId: string, teamId: string | null) => {
+  const finds = await prisma.cacheFind.findMany({
+    where: { cache: { eventId }, OR: [{ playerId }, ...(teamId ? [{ player: { teamId } }] : [])] },
+    select: { cacheId: true },
+    distinct: ['cacheId']
+  });
+  return new Set(finds.map((find) => find.cacheId));
+};
+
+export const mapCacheChain = <T extends { prerequisites?: Array<{ id: string }> }>({
+  prerequisites,
+  ...cache
+}: T) => ({
+  ...cache,
+  prerequisiteIds: (prerequisites ?? []).map((prerequisite) => prerequisite.id)
+});
@@ -1,10 +1,8 @@
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from './db.js';
 
 dotenv.config();
 
-const prisma = new PrismaClient();
-
 const run = async () => {
   const retention = Number(process.env.DATA_RETENTION_DAYS || 30);
   const cutoff = new Date();
@@ -18,6 +16,21 @@ const run = async () => {
     await prisma.event.delete({ where: { id: evt.id } });
   }
   console.log(`Cleaned ${expiredEvents.length} expired events`);
+
+  const { count: expiredSessions } = await prisma.adminSession.deleteMany({
+    where: { OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }] }
+  });
+  console.log(`Removed ${expiredSessions} expired admin sessions`);
+
+  const { count: expiredChallenges } = await prisma.adminLoginChallenge.deleteMany({
+    where: { OR: [{ expiresAt: { lt: new Date() } }, { consumedAt: { not: null } }] }
+  });
+  console.log(`Removed ${expiredChallenges} expired login challenges`);
+
+  const { count: expiredTransferCodes } = await prisma.playerTransferCode.deleteMany({
+    where: { OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }] }
+  });
+  console.log(`Removed ${expiredTransferCodes} expired player transfer codes`);
 };
 
 void run().finally(async () => prisma.$disconnect());
@@ -1,19 +1,26 @@
-import nodemailer from 'nodemailer';
-
 import {
   EmailStatus as PrismaEmailStatus,
   Event,
-  PrismaClient,
   SystemSetting
 } from '@prisma/client';
 
-const prisma = new PrismaClient();
+import {
+  EmailJobTemplateKind,
+  EmailTemplate,
+  RenderedEmail,
+  renderEmailTemplate,
+  selectJobTemplate,
+  selectTemplate,
+  TemplateContext
+} from './emailTemplates.js';
+import { isEmailSuppressed } from './suppressions.js';
+import { prisma } from './db.js';
 
 export type EmailStatus =
   | { status: 'disabled' }
-  | { status: 'sent' }
-  | { status: 'error'; message: string }
-  | { status: 'rate_limited'; message: string };
+  | { status: 'queued'; emailId: string }
+  | { status: 'rate_limited'; message: string }
+  | { status: 'suppressed'; message: string };
 
 export const isEmailSendingEnabled = (settings: SystemSetting | null) => {
   if (!settings) return false;
@@ -26,31 +33,6 @@ export const isEmailSendingEnabled = (settings: SystemSetting | null) => {
   );
 };
 
-const DEFAULT_SUBJECT = 'Einladung: {{eventName}}';
-const DEFAULT_BODY =
-  'Du wurdest zu {{eventName}} eingeladen.\n\nEventstart: {{eventStart}}\nEventende: {{eventEnd}}\n\nEinladungslink: {{inviteLink}}';
-
-type TemplateContext = {
-  eventName?: string;
-  eventDescription?: string | null;
-  eventStart?: string;
-  eventEnd?: string;
-  inviteLink?: string;
-};
-
-const renderTemplate = (template: string, context: TemplateContext) => {
-  return template.replace(/{{(.*?)}}/g, (_match, key) => {
-    const trimmed = String(key).trim();
-    const value = (context as Record<string, string | null | undefined>)[trimmed];
-    return value ?? '';
-  });
-};
-
-const ensureInviteLinkPlaceholder = (body: string) => {
-  if (body.includes('{{inviteLink}}')) return body;
-  return `${body}\n\nEinladungslink: {{inviteLink}}`;
-};
-
 const getEmailConfig = async () => {
   const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
   return settings;
@@ -61,7 +43,7 @@ type RateLimitConfig = {
   perDay: number;
 };
 
-const getRateLimitConfig = (settings: SystemSetting | null): RateLimitConfig => ({
+export const getRateLimitConfig = (settings: SystemSetting | null): RateLimitConfig => ({
   perHour:
     settings?.maxEmailsPerHourPerAdmin ??
     Number(process.env.MAX_EMAILS_PER_HOUR_PER_ADMIN || 50),
@@ -75,7 +57,7 @@ const countEmails = async (adminId: string, since: Date) =>
     where: {
       adminId,
       createdAt: { gte: since },
-      NOT: { status: PrismaEmailStatus.RATE_LIMITED }
+      status: { notIn: [PrismaEmailStatus.RATE_LIMITED, PrismaEmailStatus.SUPPRESSED] }
     }
   });
 
@@ -103,6 +85,20 @@ const checkRateLimit = async (
   return { allowed: true };
 };
 
+export const getRemainingEmailQuota = async (adminId: string) => {
+  const settings = await getEmailConfig();
+  const limits = getRateLimitConfig(settings);
+  const now = Date.now();
+  const remaining: number[] = [];
+  if (limits.perHour > 0) {
+    remaining.push(limits.perHour - (await countEmails(adminId, new Date(now - 60 * 60 * 1000))));
+  }
+  if (limits.perDay > 0) {
+    remaining.push(limits.perDay - (await countEmails(adminId, new Date(now - 24 * 60 * 60 * 1000))));
+  }
+  return remaining.length ? Math.max(0, Math.min(...remaining)) : Infinity;
+};
+
 type LogParams = {
   recipient: string;
   subject: string;
@@ -110,6 +106,7 @@ type LogParams = {
   errorMessage?: string | null;
   eventId?: string;
   invitationId?: string;
+  jobId?: string;
   adminId?: string;
 };
 
@@ -123,6 +120,7 @@ const logEmail = async (params: LogParams) => {
         errorMessage: params.errorMessage ?? null,
         eventId: params.eventId ?? null,
         invitationId: params.invitationId ?? null,
+        jobId: params.jobId ?? null,
         adminId: params.adminId ?? null
       }
     });
@@ -131,47 +129,168 @@ const logEmail = async (params: LogParams) => {
   }
 };
 
+export type EmailContent = {
+  from: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+  listUnsubscribeUrl?: string | null;
+};
+
+type QueueOptions = EmailContent & {
+  to: string;
+  log: Pick<LogParams, 'eventId' | 'invitationId' | 'jobId' | 'adminId'>;
+};
+
+const enqueueMail = async (options: QueueOptions): Promise<EmailStatus> => {
+  const email = await prisma.emailLog.create({
+    data: {
+      recipient: options.to,
+      subject: options.subject,
+      fromAddress: options.from,
+      body: options.text,
+      htmlBody: options.html ?? null,
+      listUnsubscribeUrl: options.listUnsubscribeUrl ?? null,
+      status: PrismaEmailStatus.QUEUED,
+      nextAttemptAt: new Date(),
+      eventId: options.log.eventId ?? null,
+      invitationId: options.log.invitationId ?? null,
+      jobId: options.log.jobId ?? null,
+      adminId: options.log.adminId ?? null
+    }
+  });
+  return { status: 'queued', emailId: email.id };
+};
+
+export const requeueEmail = async (emailId: string, content: EmailContent) => {
+  const requeued = await prisma.emailLog.updateMany({
+    where: {
+      id: emailId,
+      status: { in: [PrismaEmailStatus.FAILED, PrismaEmailStatus.DEAD, PrismaEmailStatus.DISABLED] }
+    },
+    data: {
+      subject: content.subject,
+      fromAddress: content.from,
+      body: content.text,
+      htmlBody: content.html ?? null,
+      listUnsubscribeUrl: content.listUnsubscribeUrl ?? null,
+      status: PrismaEmailStatus.QUEUED,
+      errorMessage: null,
+      attemptCount: 0,
+      nextAttemptAt: new Date(),
+      lockedAt: null
+    }
+  });
+  return requeued.count > 0;
+};
+
 type InvitationEmailOptions = {
   to: string;
   link: string;
   event: Event;
+  recipientName?: string | null;
+  locale?: string | null;
+  unsubscribeLink?: string | null;
+  listUnsubscribeUrl?: string | null;
   invitationId?: string;
   adminId?: string;
   skipRateCheck?: boolean;
 };
 
-export const sendInvitationEmail = async (
-  options: InvitationEmailOptions
-): Promise<EmailStatus> => {
+type InvitationContentOptions = Pick<
+  InvitationEmailOptions,
+  'link' | 'event' | 'recipientName' | 'locale' | 'unsubscribeLink'
+> & {
+  template?: Partial<EmailTemplate>;
+};
+
+const formatFrom = (event: Event, settings: SystemSetting | null) => {
+  const fromAddress = event.senderEmail || settings?.smtpFromAddress;
+  const fromName = event.senderName || settings?.smtpFromName || undefined;
+  return fromAddress ? (fromName ? `${fromName} <${fromAddress}>` : fromAddress) : null;
+};
+
+const buildTemplateContext = (
+  settings: SystemSetting | null,
+  options: InvitationContentOptions
+): TemplateContext => ({
+  eventName: options.event.name,
+  eventDescription: options.event.description,
+  eventStart: options.event.startsAt?.toISOString?.() ?? String(options.event.startsAt),
+  eventEnd: options.event.endsAt?.toISOString?.() ?? String(options.event.endsAt),
+  inviteLink: options.link,
+  recipientName: options.recipientName,
+  supportEmail: settings?.supportEmail,
+  impressumUrl: settings?.impressumUrl,
+  privacyUrl: settings?.privacyUrl,
+  unsubscribeLink: options.unsubscribeLink
+});
+
+const composeInvitationEmail = async (
+  settings: SystemSetting | null,
+  options: InvitationContentOptions
+): Promise<RenderedEmail & { from: string | null }> => {
+  const variants = await prisma.eventEmailTemplate.findMany({ where: { eventId: options.event.id } });
+  const eventTemplate: EmailTemplate = {
+    locale: options.event.emailLocale,
+    subject: options.event.invitationEmailSubject,
+    htmlBody: options.event.invitationEmailHtml,
+    textBody: options.event.invitationEmailBody
+  };
+  const selected = selectTemplate(options.locale, variants, eventTemplate);
+  const template = options.template ? { ...selected, ...options.template } : selected;
+
+  return {
+    from: formatFrom(options.event, settings),
+    ...renderEmailTemplate(template, buildTemplateContext(settings, options))
+  };
+};
+
+export const previewInvitationEmail = async (options: InvitationContentOptions) => {
   const settings = await getEmailConfig();
-  const fromAddress = options.event.senderEmail || settings?.smtpFromAddress;
-  const fromName = options.event.senderName || settings?.smtpFromName || undefined;
+  return composeInvitationEmail(settings, options);
+};
 
-  const subjectTemplate = options.event.invitationEmailSubject || DEFAULT_SUBJECT;
-  const bodyTemplate = ensureInviteLinkPlaceholder(
-    options.event.invitationEmailBody || DEFAULT_BODY
-  );
+export const renderInvitationEmail = async (
+  options: InvitationContentOptions & Pick<InvitationEmailOptions, 'listUnsubscribeUrl'>
+): Promise<EmailContent | null> => {
+  const settings = await getEmailConfig();
+  const { from, subject, text, html } = await composeInvitationEmail(settings, options);
+  if (!isEmailSendingEnabled(settings) || !from) return null;
+  return { from, subject, text, html, listUnsubscribeUrl: options.listUnsubscribeUrl };
+};
 
-  const context: TemplateContext = {
-    eventName: options.event.name,
-    eventDescription: options.event.description,
-    eventStart: options.event.startsAt?.toISOString?.() ?? String(options.event.startsAt),
-    eventEnd: options.event.endsAt?.toISOString?.() ?? String(options.event.endsAt),
-    inviteLink: options.link
+const deliverEventEmail = async (
+  settings: SystemSetting | null,
+  { from, subject, text, html }: RenderedEmail & { from: string | null },
+  options: InvitationEmailOptions & { jobId?: string }
+): Promise<EmailStatus> => {
+  const log = {
+    eventId: options.event.id,
+    invitationId: options.invitationId,
+    jobId: options.jobId,
+    adminId: options.adminId
   };
 
-  const subject = renderTemplate(subjectTemplate, context);
-  const body = renderTemplate(bodyTemplate, context);
+  if (await isEmailSuppressed(options.to)) {
+    const message = 'Empfänger hat sich abgemeldet oder ist unzustellbar';
+    await logEmail({
+      recipient: options.to,
+      subject,
+      status: PrismaEmailStatus.SUPPRESSED,
+      errorMessage: message,
+      ...log
+    });
+    return { status: 'suppressed', message };
+  }
 
-  if (!isEmailSendingEnabled(settings) || !fromAddress) {
+  if (!isEmailSendingEnabled(settings) || !from) {
     await logEmail({
       recipient: options.to,
       subject,
       status: PrismaEmailStatus.DISABLED,
-      eventId: options.event.id,
-      invitationId: options.invitationId,
-      adminId: options.adminId,
-      errorMessage: 'SMTP nicht konfiguriert'
+      errorMessage: 'SMTP nicht konfiguriert',
+      ...log
     });
     return { status: 'disabled' };
   }
@@ -184,56 +303,48 @@ export const sendInvitationEmail = async (
         subject,
         status: PrismaEmailStatus.RATE_LIMITED,
         errorMessage: rate.message,
-        eventId: options.event.id,
-        invitationId: options.invitationId,
-        adminId: options.adminId
+        ...log
       });
       return { status: 'rate_limited', message: rate.message ?? 'Rate-Limit erreicht' };
     }
   }
 
-  try {
-    const transporter = nodemailer.createTransport({
-      host: settings!.smtpHost!,
-      port: settings!.smtpPort!,
-      secure: settings!.smtpUseTls ?? false,
-      auth: {
-        user: settings!.smtpUser!,
-        pass: settings!.smtpPassword!
-      }
-    });
+  return enqueueMail({
+    from,
+    to: options.to,
+    subject,
+    text,
+    html,
+    listUnsubscribeUrl: options.listUnsubscribeUrl,
+    log
+  });
+};
 
-    await transporter.sendMail({
-      from: fromName ? `${fromName} <${fromAddress}>` : fromAddress,
-      to: options.to,
-      subject,
-      text: body
-    });
+export const sendInvitationEmail = async (
+  options: InvitationEmailOptions
+): Promise<EmailStatus> => {
+  const settings = await getEmailConfig();
+  return deliverEventEmail(settings, await composeInvitationEmail(settings, options), options);
+};
 
-    await logEmail({
-      recipient: options.to,
-      subject,
-      status: PrismaEmailStatus.SENT,
-      eventId: options.event.id,
-      invitationId: options.invitationId,
-      adminId: options.adminId
-    });
-    return { status: 'sent' };
-  } catch (error) {
-    const message =
-      error instanceof Error ? error.message : 'E-Mail-Versand nicht möglich';
-    await logEmail({
-      recipient: options.to,
-      subject,
-      status: PrismaEmailStatus.FAILED,
-      errorMessage: message,
-      eventId: options.event.id,
-      invitationId: options.invitationId,
-      adminId: options.adminId
-    });
-    console.error('E-Mail-Versand fehlgeschlagen', error);
-    return { status: 'error', message };
-  }
+type EventJobEmailOptions = InvitationEmailOptions & {
+  jobId: string;
+  kind: EmailJobTemplateKind;
+  template: Omit<EmailTemplate, 'locale'>;
+  foundCount?: number;
+  cacheCount?: number;
+};
+
+export const sendEventJobEmail = async (options: EventJobEmailOptions): Promise<EmailStatus> => {
+  const settings = await getEmailConfig();
+  const template = selectJobTemplate(options.kind, options.locale || options.event.emailLocale, options.template);
+  const context: TemplateContext = {
+    ...buildTemplateContext(settings, options),
+    foundCount: String(options.foundCount ?? 0),
+    cacheCount: String(options.cacheCount ?? 0)
+  };
+  const rendered = renderEmailTemplate(template, context, { requireInviteLink: options.kind !== 'RESULTS' });
+  return deliverEventEmail(settings, { from: formatFrom(options.event, settings), ...rendered }, options);
 };
 
 export const ensureInviteLink = (body: string, link: string) => {
@@ -248,3 +359,82 @@ export const precheckRateLimit = async (
   const settings = await getEmailConfig();
   return checkRateLimit(adminId, settings);
 };
+
+const ADMIN_ROLE_LABELS: Record<string, string> = {
+  OWNER: 'Owner',
+  ORGANIZER: 'Organisator',
+  VIEWER: 'Betrachter'
+};
+
+type AdminInviteEmailOptions = {
+  to: string;
+  link: string;
+  role: string;
+  expiresAt: Date;
+  adminId?: string;
+};
+
+type SystemEmailOptions = {
+  to: string;
+  subject: string;
+  body: string;
+  adminId?: string;
+};
+
+const sendSystemEmail = async (options: SystemEmailOptions): Promise<EmailStatus> => {
+  const settings = await getEmailConfig();
+
+  if (!isEmailSendingEnabled(settings)) {
+    await logEmail({
+      recipient: options.to,
+      subject: options.subject,
+      status: PrismaEmailStatus.DISABLED,
+      adminId: options.adminId,
+      errorMessage: 'SMTP nicht konfiguriert'
+    });
+    return { status: 'disabled' };
+  }
+
+  const rate = await checkRateLimit(options.adminId, settings);
+  if (!rate.allowed) {
+    await logEmail({
+      recipient: options.to,
+      subject: options.subject,
+      status: PrismaEmailStatus.RATE_LIMITED,
+      errorMessage: rate.message,
+      adminId: options.adminId
+    });
+    return { status: 'rate_limited', message: rate.message ?? 'Rate-Limit erreicht' };
+  }
+
+  return enqueueMail({
+    from: settings!.smtpFromName
+      ? `${settings!.smtpFromName} <${settings!.smtpFromAddress}>`
+      : settings!.smtpFromAddress!,
+    to: options.to,
+    subject: options.subject,
+    text: options.body,
+    log: { adminId: options.adminId }
+  });
+};
+
+export const sendAdminInviteEmail = async (options: AdminInviteEmailOptions) =>
+  sendSystemEmail({
+    to: options.to,
+    subject: 'Einladung zur GeoCachingEngine-Administration',
+    body: `Du wurdest als ${ADMIN_ROLE_LABELS[options.role] ?? options.role} zur Administration eingeladen.\n\nKonto einrichten: ${options.link}\n\nDer Link ist gültig bis ${options.expiresAt.toISOString()}.`,
+    adminId: options.adminId
+  });
+
+type PasswordResetEmailOptions = {
+  to: string;
+  link: string;
+  expiresAt: Date;
+};
+
+export const sendPasswordResetEmail = async (options: PasswordResetEmailOptions) =>
+  sendSystemEmail({
+    to: options.to,
+    subject: 'Passwort zurücksetzen',
+    body: `Für dein Admin-Konto wurde das Zurücksetzen des Passworts angefordert.\n\nNeues Passwort festlegen: ${options.link}\n\nDer Link ist einmalig gültig bis ${options.expiresAt.toISOString()}. Falls du das nicht angefordert hast, kannst du diese E-Mail ignorieren.`
+  });
@@ -0,0 +1,185 @@
+import { EmailJobKind, EmailJobStatus, Event, EventEmailJob, Prisma } from '@prisma/client';
+
+import { getRemainingEmailQuota, isEmailSendingEnabled, sendEventJobEmail } from './email.js';
+import { buildUnsubscribeLinks, ensureUnsubscribeToken } from './suppressions.js';
+import { prisma } from './db.js';
+
+const WORKER_INTERVAL_MS = Number(process.env.EMAIL_JOB_INTERVAL_MS || 60000);
+const BATCH_SIZE = 50;
+const MINUTE_MS = 60 * 1000;
+
+export const computeJobSchedule = (
+  kind: EmailJobKind,
+  offsetMinutes: number,
+  event: Pick<Event, 'startsAt' | 'endsAt'>
+) =>
+  kind === EmailJobKind.RESULTS
+    ? new Date(event.endsAt.getTime() + offsetMinutes * MINUTE_MS)
+    : new Date(event.startsAt.getTime() - offsetMinutes * MINUTE_MS);
+
+export const rescheduleEventJobs = async (event: Pick<Event, 'id' | 'startsAt' | 'endsAt'>) => {
+  const jobs = await prisma.eventEmailJob.findMany({
+    where: { eventId: event.id, status: EmailJobStatus.SCHEDULED }
+  });
+  for (const job of jobs) {
+    await prisma.eventEmailJob.update({
+      where: { id: job.id },
+      data: { scheduledAt: computeJobSchedule(job.kind, job.offsetMinutes, event) }
+    });
+  }
+};
+
+export const getJobRecipientFilter = (job: Pick<EventEmailJob, 'id' | 'eventId' | 'kind'>) => {
+  const where: Prisma.InvitationWhereInput = {
+    eventId: job.eventId,
+    isActive: true,
+    email: { not: null },
+    unsubscribedAt: null,
+    bouncedAt: null,
+    emailLogs: { none: { jobId: job.id } }
+  };
+  if (job.kind === EmailJobKind.REMINDER) where.usedAt = null;
+  if (job.kind === EmailJobKind.RESULTS) where.usedAt = { not: null };
+  return where;
+};
+
+const finishJob = (jobId: string, status: EmailJobStatus, errorMessage: string | null = null) =>
+  prisma.eventEmailJob.update({
+    where: { id: jobId },
+    data: { status, errorMessage, completedAt: new Date() }
+  });
+
+const processJob = async (job: EventEmailJob & { event: Event }, now: Date) => {
+  const { event } = job;
+  if (event.archived) {
+    await finishJob(job.id, EmailJobStatus.CANCELLED, 'Event wurde archiviert');
+    return;
+  }
+  if (job.kind !== EmailJobKind.RESULTS) {
+    if (event.endsAt <= now || (job.status === EmailJobStatus.SCHEDULED && event.startsAt <= now)) {
+      await finishJob(job.id, EmailJobStatus.CANCELLED, 'Event hat bereits begonnen');
+      return;
+    }
+  }
+
+  const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+  if (!isEmailSendingEnabled(settings)) {
+    await prisma.eventEmailJob.update({
+      where: { id: job.id },
+      data: { errorMessage: 'SMTP nicht konfiguriert, Versand wartet' }
+    });
+    return;
+  }
+
+  const where = getJobRecipientFilter(job);
+  if (job.status === EmailJobStatus.SCHEDULED) {
+    await prisma.eventEmailJob.update({
+      where: { id: job.id },
+      data: {
+        status: EmailJobStatus.RUNNING,
+        startedAt: now,
+        recipientCount: await prisma.invitation.count({ where })
+      }
+    });
+  }
+
+  const quota = job.createdByAdminId ? await getRemainingEmailQuota(job.createdByAdminId) : Infinity;
+  if (quota <= 0) {
+    await prisma.eventEmailJob.update({
+      where: { id: job.id },
+      data: { errorMessage: 'Rate-Limit erreicht, Versand wird später fortgesetzt' }
+    });
+    return;
+  }
+
+  const invitations = await prisma.invitation.findMany({
+    where,
+    orderBy: { createdAt: 'asc' },
+    take: Math.min(quota, BATCH_SIZE),
+    include: { player: { select: { finds: { select: { cacheId: true }, distinct: ['cacheId'] } } } }
+  });
+  const cacheCount = job.kind === EmailJobKind.RESULTS ? await prisma.cache.count({ where: { eventId: event.id } }) : 0;
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+  let sent = 0;
+  let skipped = 0;
+  for (const invitation of invitations) {
+    const unsubscribeToken = await ensureUnsubscribeToken(invitation);
+    const result = await sendEventJobEmail({
+      to: invitation.email!,
+      link: `${baseUrl}/join/${invitation.token}`,
+      event,
+      recipientName: invitation.name,
+      locale: invitation.locale,
+      ...buildUnsubscribeLinks(baseUrl, unsubscribeToken),
+      invitationId: invitation.id,
+      adminId: job.createdByAdminId ?? undefined,
+      skipRateCheck: true,
+      jobId: job.id,
+      kind: job.kind,
+      template: { subject: job.subject, htmlBody: job.htmlBody, textBody: job.textBody },
+      foundCount: invitation.player?.finds.length ?? 0,
+      cacheCount
+    });
+    if (result.status === 'queued') sent += 1;
+    else skipped += 1;
+  }
+
+  const remaining = await prisma.invitation.count({ where });
+  await prisma.eventEmailJob.update({
+    where: { id: job.id },
+    data: {
+      sentCount: { increment: sent },
+      skippedCount: { increment: skipped },
+      errorMessage:
+        remaining > 0 && invitations.length < BATCH_SIZE
+          ? 'Rate-Limit erreicht, Versand wird später fortgesetzt'
+          : null
+    }
+  });
+  if (remaining === 0) {
+    await prisma.eventEmailJob.updateMany({
+      where: { id: job.id, status: EmailJobStatus.RUNNING },
+      data: { status: EmailJobStatus.COMPLETED, completedAt: new Date() }
+    });
+  }
+};
+
+export const processEmailJobs = async () => {
+  const now = new Date();
+  const jobs = await prisma.eventEmailJob.findMany({
+    where: {
+      status: { in: [EmailJobStatus.SCHEDULED, EmailJobStatus.RUNNING] },
+      scheduledAt: { lte: now }
+    },
+    orderBy: { scheduledAt: 'asc' },
+    include: { event: true }
+  });
+  for (const job of jobs) {
+    try {
+      await processJob(job, now);
+    } catch (error) {
+      console.error(`E-Mail-Job ${job.id} fehlgeschlagen`, error);
+    }
+  }
+};
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerRunning = false;
+
+const runWorker = async () => {
+  if (workerRunning) return;
+  workerRunning = true;
+  try {
+    await processEmailJobs();
+  } catch (error) {
+    console.error('Geplante E-Mails konnten nicht verarbeitet werden', error);
+  } finally {
+    workerRunning = false;
+  }
+};
+
+export const startEmailJobWorker = () => {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => void runWorker(), WORKER_INTERVAL_MS);
+  void runWorker();
+};
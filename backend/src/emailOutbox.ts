@@ -0,0 +1,252 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+import { EmailLog, EmailStatus, SystemSetting } from '@prisma/client';
+
+import { getRateLimitConfig, isEmailSendingEnabled } from './email.js';
+import { decryptSecret } from './secrets.js';
+import { isEmailSuppressed } from './suppressions.js';
+import { prisma } from './db.js';
+
+const WORKER_INTERVAL_MS = Number(process.env.EMAIL_WORKER_INTERVAL_MS || 5000);
+const MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS || 6);
+const RETRY_BASE_DELAY_MS = Number(process.env.EMAIL_RETRY_BASE_DELAY_SECONDS || 60) * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 20;
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const PENDING_STATUSES = [EmailStatus.QUEUED, EmailStatus.FAILED];
+
+let pooledTransport: { key: string; transport: Transporter } | null = null;
+
+const getTransport = (settings: SystemSetting) => {
+  const key = JSON.stringify([
+    settings.smtpHost,
+    settings.smtpPort,
+    settings.smtpUseTls,
+    settings.smtpUser,
+    settings.smtpPassword
+  ]);
+  if (pooledTransport?.key === key) return pooledTransport.transport;
+  pooledTransport?.transport.close();
+  const transport = nodemailer.createTransport({
+    pool: true,
+    maxConnections: Number(process.env.EMAIL_POOL_SIZE || 3),
+    host: settings.smtpHost!,
+    port: settings.smtpPort!,
+    secure: settings.smtpUseTls ?? false,
+    auth: {
+      user: settings.smtpUser!,
+      pass: decryptSecret(settings.smtpPassword)!
+    }
+  });
+  pooledTransport = { key, transport };
+  return transport;
+};
+
+const getRetryDelayMs = (attemptCount: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attemptCount - 1, 0), RETRY_MAX_DELAY_MS);
+
+const buildMessageId = (email: EmailLog) => {
+  const domain = email.fromAddress?.match(/@([^>\s]+)/)?.[1] ?? 'localhost';
+  return `<${email.id}@${domain}>`;
+};
+
+const isPermanentFailure = (error: unknown) => {
+  const responseCode = (error as { responseCode?: number } | null)?.responseCode;
+  return typeof responseCode === 'number' && responseCode >= 500 && responseCode < 600;
+};
+
+const getRateLimitedUntil = async (
+  adminId: string,
+  settings: SystemSetting,
+  now: Date
+): Promise<{ until: Date; message: string } | null> => {
+  const limits = getRateLimitConfig(settings);
+  const windows = [
+    { limit: limits.perHour, span: HOUR_MS, label: 'pro Stunde' },
+    { limit: limits.perDay, span: DAY_MS, label: 'pro Tag' }
+  ];
+  for (const window of windows) {
+    if (window.limit <= 0) continue;
+    const since = new Date(now.getTime() - window.span);
+    const where = { adminId, status: EmailStatus.SENT, sentAt: { gte: since } };
+    const sent = await prisma.emailLog.count({ where });
+    if (sent < window.limit) continue;
+    const [oldest] = await prisma.emailLog.findMany({
+      where,
+      orderBy: { sentAt: 'asc' },
+      skip: sent - window.limit,
+      take: 1,
+      select: { sentAt: true }
+    });
+    return {
+      until: new Date((oldest?.sentAt ?? now).getTime() + window.span),
+      message: `Limit erreicht (${window.limit} ${window.label}), Versand verschoben.`
+    };
+  }
+  return null;
+};
+
+const recordAttempt = async (
+  email: EmailLog,
+  outcome: { succeeded: boolean; errorMessage?: string; durationMs: number; permanent?: boolean }
+) => {
+  const now = new Date();
+  const exhausted = outcome.permanent || email.attemptCount >= MAX_ATTEMPTS;
+  const status = outcome.succeeded ? EmailStatus.SENT : exhausted ? EmailStatus.DEAD : EmailStatus.FAILED;
+  await prisma.$transaction([
+    prisma.emailAttempt.create({
+      data: {
+        emailLogId: email.id,
+        succeeded: outcome.succeeded,
+        errorMessage: outcome.errorMessage ?? null,
+        durationMs: outcome.durationMs
+      }
+    }),
+    prisma.emailLog.update({
+      where: { id: email.id },
+      data: {
+        status,
+        errorMessage: outcome.errorMessage ?? null,
+        lockedAt: null,
+        sentAt: outcome.succeeded ? now : null,
+        nextAttemptAt:
+          status === EmailStatus.FAILED ? new Date(now.getTime() + getRetryDelayMs(email.attemptCount)) : null,
+        body: status === EmailStatus.FAILED ? undefined : null,
+        htmlBody: status === EmailStatus.FAILED ? undefined : null
+      }
+    })
+  ]);
+};
+
+const dispatchEmail = async (email: EmailLog, settings: SystemSetting) => {
+  const now = new Date();
+  if (email.invitationId && (await isEmailSuppressed(email.recipient))) {
+    await prisma.emailLog.updateMany({
+      where: { id: email.id, status: { in: PENDING_STATUSES } },
+      data: {
+        status: EmailStatus.SUPPRESSED,
+        errorMessage: 'Empfänger hat sich abgemeldet oder ist unzustellbar',
+        nextAttemptAt: null,
+        body: null,
+        htmlBody: null
+      }
+    });
+    return;
+  }
+  if (email.adminId) {
+    const limited = await getRateLimitedUntil(email.adminId, settings, now);
+    if (limited) {
+      await prisma.emailLog.updateMany({
+        where: { id: email.id, status: { in: PENDING_STATUSES } },
+        data: { nextAttemptAt: limited.until, errorMessage: limited.message }
+      });
+      return;
+    }
+  }
+
+  const claimed = await prisma.emailLog.updateMany({
+    where: { id: email.id, status: email.status, attemptCount: email.attemptCount },
+    data: {
+      status: EmailStatus.SENDING,
+      lockedAt: now,
+      attemptCount: { increment: 1 },
+      messageId: buildMessageId(email)
+    }
+  });
+  if (claimed.count === 0) return;
+  const attempt = { ...email, attemptCount: email.attemptCount + 1 };
+
+  const startedAt = Date.now();
+  try {
+    await getTransport(settings).sendMail({
+      from: email.fromAddress!,
+      to: email.recipient,
+      subject: email.subject,
+      text: email.body ?? '',
+      html: email.htmlBody ?? undefined,
+      messageId: buildMessageId(email),
+      list: email.listUnsubscribeUrl ? { unsubscribe: email.listUnsubscribeUrl } : undefined,
+      headers: email.listUnsubscribeUrl ? { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' } : undefined
+    });
+    await recordAttempt(attempt, { succeeded: true, durationMs: Date.now() - startedAt });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'E-Mail-Versand nicht möglich';
+    console.error('E-Mail-Versand fehlgeschlagen', error);
+    await recordAttempt(attempt, {
+      succeeded: false,
+      errorMessage: message,
+      durationMs: Date.now() - startedAt,
+      permanent: isPermanentFailure(error)
+    });
+  }
+};
+
+const releaseStaleLocks = async (now: Date) => {
+  await prisma.emailLog.updateMany({
+    where: { status: EmailStatus.SENDING, lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    data: {
+      status: EmailStatus.FAILED,
+      lockedAt: null,
+      nextAttemptAt: now,
+      errorMessage: 'Versand abgebrochen, wird erneut versucht'
+    }
+  });
+};
+
+export const processEmailOutbox = async () => {
+  const now = new Date();
+  await releaseStaleLocks(now);
+  const pending = await prisma.emailLog.findMany({
+    where: { status: { in: PENDING_STATUSES }, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE
+  });
+  if (pending.length === 0) return 0;
+
+  const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+  if (!settings || !isEmailSendingEnabled(settings)) {
+    await prisma.emailLog.updateMany({
+      where: { id: { in: pending.map((email) => email.id) }, status: { in: PENDING_STATUSES } },
+      data: {
+        status: EmailStatus.DISABLED,
+        errorMessage: 'SMTP nicht konfiguriert',
+        nextAttemptAt: null,
+        body: null,
+        htmlBody: null
+      }
+    });
+    return 0;
+  }
+
+  for (const email of pending) {
+    await dispatchEmail(email, settings);
+  }
+  return pending.length;
+};
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerRunning = false;
+
+const runWorker = async () => {
+  if (workerRunning) return;
+  workerRunning = true;
+  try {
+    let processed: number;
+    do {
+      processed = await processEmailOutbox();
+    } while (processed === BATCH_SIZE);
+  } catch (error) {
+    console.error('E-Mail-Outbox konnte nicht verarbeitet werden', error);
+  } finally {
+    workerRunning = false;
+  }
+};
+
+export const startEmailWorker = () => {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => void runWorker(), WORKER_INTERVAL_MS);
+  void runWorker();
+};
@@ -0,0 +1,236 @@
+export const DEFAULT_EMAIL_LOCALE = 'de';
+
+export type TemplateContext = {
+  eventName?: string;
+  eventDescription?: string | null;
+  eventStart?: string;
+  eventEnd?: string;
+  inviteLink?: string;
+  recipientName?: string | null;
+  supportEmail?: string | null;
+  impressumUrl?: string | null;
+  privacyUrl?: string | null;
+  unsubscribeLink?: string | null;
+  foundCount?: string;
+  cacheCount?: string;
+};
+
+export type EmailJobTemplateKind = 'REMINDER' | 'STARTS_SOON' | 'RESULTS';
+
+export type EmailTemplate = {
+  locale: string;
+  subject: string | null;
+  htmlBody: string | null;
+  textBody: string | null;
+};
+
+export type RenderedEmail = {
+  locale: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const BUILT_IN_TEMPLATES: Record<string, EmailTemplate> = {
+  de: {
+    locale: 'de',
+    subject: 'Einladung: {{eventName}}',
+    htmlBody:
+      '<p>Hallo,</p>\n<p>du wurdest zu <strong>{{eventName}}</strong> eingeladen.</p>\n<p>Eventstart: {{eventStart}}<br>Eventende: {{eventEnd}}</p>\n<p><a href="{{inviteLink}}">Jetzt teilnehmen</a></p>\n<p>Fragen? {{supportEmail}}</p>',
+    textBody: null
+  },
+  en: {
+    locale: 'en',
+    subject: 'Invitation: {{eventName}}',
+    htmlBody:
+      '<p>Hello,</p>\n<p>you have been invited to <strong>{{eventName}}</strong>.</p>\n<p>Starts: {{eventStart}}<br>Ends: {{eventEnd}}</p>\n<p><a href="{{inviteLink}}">Join now</a></p>\n<p>Questions? {{supportEmail}}</p>',
+    textBody: null
+  }
+};
+
+const BUILT_IN_JOB_TEMPLATES: Record<EmailJobTemplateKind, Record<string, EmailTemplate>> = {
+  REMINDER: {
+    de: {
+      locale: 'de',
+      subject: 'Erinnerung: {{eventName}} beginnt bald',
+      htmlBody:
+        '<p>Hallo,</p>\n<p>du bist zu <strong>{{eventName}}</strong> eingeladen, bist aber noch nicht beigetreten.</p>\n<p>Eventstart: {{eventStart}}</p>\n<p><a href="{{inviteLink}}">Jetzt teilnehmen</a></p>',
+      textBody: null
+    },
+    en: {
+      locale: 'en',
+      subject: 'Reminder: {{eventName}} starts soon',
+      htmlBody:
+        '<p>Hello,</p>\n<p>you have been invited to <strong>{{eventName}}</strong> but have not joined yet.</p>\n<p>Starts: {{eventStart}}</p>\n<p><a href="{{inviteLink}}">Join now</a></p>',
+      textBody: null
+    }
+  },
+  STARTS_SOON: {
+    de: {
+      locale: 'de',
+      subject: 'Gleich geht es los: {{eventName}}',
+      htmlBody:
+        '<p>Hallo,</p>\n<p><strong>{{eventName}}</strong> startet um {{eventStart}}.</p>\n<p><a href="{{inviteLink}}">Zum Event</a></p>',
+      textBody: null
+    },
+    en: {
+      locale: 'en',
+      subject: 'Starting soon: {{eventName}}',
+      htmlBody:
+        '<p>Hello,</p>\n<p><strong>{{eventName}}</strong> starts at {{eventStart}}.</p>\n<p><a href="{{inviteLink}}">Open event</a></p>',
+      textBody: null
+    }
+  },
+  RESULTS: {
+    de: {
+      locale: 'de',
+      subject: 'Ergebnisse: {{eventName}}',
+      htmlBody:
+        '<p>Hallo,</p>\n<p>danke für deine Teilnahme an <strong>{{eventName}}</strong>!</p>\n<p>Du hast {{foundCount}} von {{cacheCount}} Caches gefunden.</p>\n<p>Fragen? {{supportEmail}}</p>',
+      textBody: null
+    },
+    en: {
+      locale: 'en',
+      subject: 'Results: {{eventName}}',
+      htmlBody:
+        '<p>Hello,</p>\n<p>thank you for taking part in <strong>{{eventName}}</strong>!</p>\n<p>You found {{foundCount}} of {{cacheCount}} caches.</p>\n<p>Questions? {{supportEmail}}</p>',
+      textBody: null
+    }
+  }
+};
+
+const UNSUBSCRIBE_FOOTERS: Record<string, { html: string; text: string }> = {
+  de: {
+    html: '<p style="font-size:12px;color:#666">Keine Einladungen mehr erhalten? <a href="{{unsubscribeLink}}">Abmelden</a></p>',
+    text: 'Keine Einladungen mehr erhalten? Abmelden: {{unsubscribeLink}}'
+  },
+  en: {
+    html: '<p style="font-size:12px;color:#666">Don\'t want to receive invitations? <a href="{{unsubscribeLink}}">Unsubscribe</a></p>',
+    text: "Don't want to receive invitations? Unsubscribe: {{unsubscribeLink}}"
+  }
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+export const renderTemplate = (template: string, context: TemplateContext, options: { html?: boolean } = {}) =>
+  template.replace(/{{(.*?)}}/g, (_match, key) => {
+    const value = (context as Record<string, string | null | undefined>)[String(key).trim()] ?? '';
+    return options.html ? escapeHtml(value) : value;
+  });
+
+const ensureInviteLinkPlaceholder = (body: string, html: boolean) => {
+  if (body.includes('{{inviteLink}}')) return body;
+  return html
+    ? `${body}\n<p><a href="{{inviteLink}}">{{inviteLink}}</a></p>`
+    : `${body}\n\nEinladungslink: {{inviteLink}}`;
+};
+
+const ensureUnsubscribePlaceholder = (body: string, html: boolean, locale: string) => {
+  if (body.includes('{{unsubscribeLink}}')) return body;
+  const footer = UNSUBSCRIBE_FOOTERS[languageOf(locale)] ?? UNSUBSCRIBE_FOOTERS[DEFAULT_EMAIL_LOCALE];
+  return html ? `${body}\n${footer.html}` : `${body}\n\n${footer.text}`;
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+        const text = label.replace(/<[^>]+>/g, '').trim();
+        return text && text !== href ? `${text} (${href})` : href;
+      })
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<\/(p|div|h[1-6]|li|ul|ol|tr|table)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const textToHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map((paragraph) => {
+      const linked = escapeHtml(paragraph).replace(/https?:\/\/[^\s<]+/g, (url) => `<a href="${url}">${url}</a>`);
+      return `<p>${linked.replace(/\n/g, '<br>')}</p>`;
+    })
+    .join('\n');
+
+const wrapHtmlDocument = (body: string, locale: string) =>
+  /<html[\s>]/i.test(body)
+    ? body
+    : `<!DOCTYPE html>\n<html lang="${escapeHtml(locale)}">\n<head><meta charset="utf-8"></head>\n<body>\n${body}\n</body>\n</html>`;
+
+const languageOf = (locale: string) => locale.split('-')[0];
+
+export const selectTemplate = (
+  locale: string | null | undefined,
+  variants: EmailTemplate[],
+  eventTemplate: EmailTemplate
+): EmailTemplate => {
+  const requested = (locale || eventTemplate.locale).toLowerCase();
+  const variant =
+    variants.find((candidate) => candidate.locale === requested) ??
+    variants.find((candidate) => candidate.locale === languageOf(requested));
+  if (variant) return variant;
+  if (eventTemplate.htmlBody || eventTemplate.textBody) return eventTemplate;
+  return (
+    BUILT_IN_TEMPLATES[languageOf(requested)] ??
+    BUILT_IN_TEMPLATES[languageOf(eventTemplate.locale)] ??
+    BUILT_IN_TEMPLATES[DEFAULT_EMAIL_LOCALE]
+  );
+};
+
+export const selectJobTemplate = (
+  kind: EmailJobTemplateKind,
+  locale: string,
+  custom: Omit<EmailTemplate, 'locale'>
+): EmailTemplate => {
+  const builtIns = BUILT_IN_JOB_TEMPLATES[kind];
+  const builtIn = builtIns[languageOf(locale)] ?? builtIns[DEFAULT_EMAIL_LOCALE];
+  if (custom.htmlBody || custom.textBody) {
+    return { ...custom, locale, subject: custom.subject || builtIn.subject };
+  }
+  return { ...builtIn, subject: custom.subject || builtIn.subject };
+};
+
+export const renderEmailTemplate = (
+  template: EmailTemplate,
+  context: TemplateContext,
+  options: { requireInviteLink?: boolean } = {}
+): RenderedEmail => {
+  const builtIn = BUILT_IN_TEMPLATES[languageOf(template.locale)] ?? BUILT_IN_TEMPLATES[DEFAULT_EMAIL_LOCALE];
+  const subject = renderTemplate(template.subject || builtIn.subject!, context).replace(/[\r\n]+/g, ' ');
+  const prepare = (body: string, html: boolean) => {
+    const withLink = options.requireInviteLink === false ? body : ensureInviteLinkPlaceholder(body, html);
+    return context.unsubscribeLink ? ensureUnsubscribePlaceholder(withLink, html, template.locale) : withLink;
+  };
+  const text = template.textBody ? renderTemplate(prepare(template.textBody, false), context) : null;
+  const htmlBody = template.htmlBody
+    ? renderTemplate(prepare(template.htmlBody, true), context, { html: true })
+    : textToHtml(text ?? '');
+  return {
+    locale: template.locale,
+    subject,
+    html: wrapHtmlDocument(htmlBody, template.locale),
+    text: text ?? htmlToText(htmlBody)
+  };
+};
@@ -0,0 +1,84 @@
+export type ReportedPosition = {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: Date;
+};
+
+type PositionInput = {
+  latitude?: unknown;
+  longitude?: unknown;
+  accuracy?: unknown;
+  timestamp?: unknown;
+};
+
+const MAX_POSITION_AGE_MS = Number(process.env.FIND_MAX_POSITION_AGE_SECONDS || 120) * 1000;
+const MAX_POSITION_ACCURACY_METERS = Number(process.env.FIND_MAX_ACCURACY_METERS || 100);
+const MAX_CLOCK_SKEW_MS = 30 * 1000;
+
+export const haversineDistanceMeters = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+) => {
+  const toRad = (value: number) => (value * Math.PI) / 180;
+  const R = 6371000;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) *
+      Math.cos(toRad(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+export const initialBearingDegrees = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+) => {
+  const toRad = (value: number) => (value * Math.PI) / 180;
+  const dLon = toRad(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(toRad(lat2));
+  const x =
+    Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const parseReportedPosition = (input: PositionInput | undefined, now = new Date()) => {
+  if (!input) {
+    throw new Error('Position fehlt');
+  }
+  const { latitude, longitude, accuracy, timestamp } = input;
+  if (!isFiniteNumber(latitude) || latitude < -90 || latitude > 90) {
+    throw new Error('Ungültige Breite');
+  }
+  if (!isFiniteNumber(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error('Ungültige Länge');
+  }
+  if (!isFiniteNumber(accuracy) || accuracy < 0) {
+    throw new Error('Genauigkeit fehlt');
+  }
+  if (accuracy > MAX_POSITION_ACCURACY_METERS) {
+    throw new Error('Position zu ungenau');
+  }
+  const recordedAt =
+    typeof timestamp === 'number' || typeof timestamp === 'string' ? new Date(timestamp) : null;
+  if (!recordedAt || Number.isNaN(recordedAt.getTime())) {
+    throw new Error('Zeitstempel der Position fehlt');
+  }
+  const age = now.getTime() - recordedAt.getTime();
+  if (age > MAX_POSITION_AGE_MS || age < -MAX_CLOCK_SKEW_MS) {
+    throw new Error('Position ist veraltet');
+  }
+  return { latitude, longitude, accuracy, timestamp: recordedAt } as ReportedPosition;
+};
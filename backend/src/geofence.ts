@@ -0,0 +1,176 @@
+import { Event, Prisma } from '@prisma/client';
+import { prisma } from './db.js';
+
+export const MAX_POINT_LABEL_LENGTH = 200;
+export const MIN_PLAY_AREA_VERTICES = 3;
+export const MAX_PLAY_AREA_VERTICES = 200;
+
+export type Coordinate = { latitude: number; longitude: number };
+
+export type EventPointPayload = {
+  latitude?: number;
+  longitude?: number;
+  label?: string | null;
+};
+
+export type EventGeofencePayload = {
+  startPoint?: EventPointPayload | null;
+  endPoint?: EventPointPayload | null;
+  playArea?: Coordinate[] | null;
+};
+
+type GeofenceEvent = Pick<
+  Event,
+  'startLatitude' | 'startLongitude' | 'startLabel' | 'endLatitude' | 'endLongitude' | 'endLabel' | 'playArea'
+>;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCoordinate = (value: unknown): value is Coordinate => {
+  if (!value || typeof value !== 'object') return false;
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(latitude) && isFiniteNumber(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+  );
+};
+
+const validateEventPoint = (point: EventPointPayload | null | undefined, name: string) => {
+  if (point === undefined || point === null) return;
+  if (
+    point.label !== undefined &&
+    point.label !== null &&
+    (typeof point.label !== 'string' || point.label.length > MAX_POINT_LABEL_LENGTH)
+  ) {
+    throw new Error(`Bezeichnung für ${name} darf höchstens ${MAX_POINT_LABEL_LENGTH} Zeichen lang sein`);
+  }
+  const hasCoordinates =
+    (point.latitude !== undefined && point.latitude !== null) ||
+    (point.longitude !== undefined && point.longitude !== null);
+  if (!hasCoordinates && !point.label?.trim()) {
+    throw new Error(`${name} braucht Koordinaten oder eine Bezeichnung`);
+  }
+  if (hasCoordinates && !isCoordinate(point)) {
+    throw new Error(`${name} braucht gültige Koordinaten (Breite -90 bis 90, Länge -180 bis 180)`);
+  }
+};
+
+const polygonArea = (polygon: Coordinate[]) =>
+  polygon.reduce((sum, point, index) => {
+    const next = polygon[(index + 1) % polygon.length];
+    return sum + point.longitude * next.latitude - next.longitude * point.latitude;
+  }, 0) / 2;
+
+export const validateEventGeofence = (payload: EventGeofencePayload) => {
+  validateEventPoint(payload.startPoint, 'Startpunkt');
+  validateEventPoint(payload.endPoint, 'Zielpunkt');
+  if (payload.playArea === undefined || payload.playArea === null) return;
+  if (
+    !Array.isArray(payload.playArea) ||
+    payload.playArea.length < MIN_PLAY_AREA_VERTICES ||
+    payload.playArea.length > MAX_PLAY_AREA_VERTICES
+  ) {
+    throw new Error(
+      `Spielfeld muss zwischen ${MIN_PLAY_AREA_VERTICES} und ${MAX_PLAY_AREA_VERTICES} Eckpunkte haben`
+    );
+  }
+  if (!payload.playArea.every(isCoordinate)) {
+    throw new Error('Spielfeld enthält ungültige Koordinaten');
+  }
+  if (polygonArea(payload.playArea) === 0) {
+    throw new Error('Spielfeld hat keine Fläche');
+  }
+};
+
+const pickEventPoint = (point: EventPointPayload | null | undefined) =>
+  point
+    ? { latitude: point.latitude ?? null, longitude: point.longitude ?? null, label: point.label?.trim() || null }
+    : { latitude: null, longitude: null, label: null };
+
+export const pickEventGeofence = (payload: EventGeofencePayload) => {
+  const start = pickEventPoint(payload.startPoint);
+  const end = pickEventPoint(payload.endPoint);
+  return {
+    startLatitude: start.latitude,
+    startLongitude: start.longitude,
+    startLabel: start.label,
+    endLatitude: end.latitude,
+    endLongitude: end.longitude,
+    endLabel: end.label,
+    playArea: payload.playArea
+      ? (payload.playArea.map(({ latitude, longitude }) => ({ latitude, longitude })) as Prisma.InputJsonValue)
+      : Prisma.DbNull
+  };
+};
+
+export const readPlayArea = (event: Pick<Event, 'playArea'>) =>
+  Array.isArray(event.playArea) && event.playArea.every(isCoordinate) ? (event.playArea as Coordinate[]) : null;
+
+export const eventGeofence = (event: GeofenceEvent) => ({
+  startPoint:
+    (event.startLatitude !== null && event.startLongitude !== null) || event.startLabel
+      ? { latitude: event.startLatitude, longitude: event.startLongitude, label: event.startLabel }
+      : null,
+  endPoint:
+    (event.endLatitude !== null && event.endLongitude !== null) || event.endLabel
+      ? { latitude: event.endLatitude, longitude: event.endLongitude, label: event.endLabel }
+      : null,
+  playArea: readPlayArea(event)
+});
+
+export const mapEventGeofence = <T extends GeofenceEvent>({
+  startLatitude,
+  startLongitude,
+  startLabel,
+  endLatitude,
+  endLongitude,
+  endLabel,
+  playArea,
+  ...event
+}: T) => ({
+  ...event,
+  ...eventGeofence({ startLatitude, startLongitude, startLabel, endLatitude, endLongitude, endLabel, playArea })
+});
+
+export const loadPlayArea = async (eventId: string) => {
+  const event = await prisma.event.findUnique({ where: { id: eventId }, select: { playArea: true } });
+  return event ? readPlayArea(event) : null;
+};
+
+const crossesAntimeridian = (polygon: Coordinate[]) => {
+  const longitudes = polygon.map((vertex) => vertex.longitude);
+  return Math.max(...longitudes) - Math.min(...longitudes) > 180;
+};
+
+const unwrapLongitude = ({ latitude, longitude }: Coordinate) => ({
+  latitude,
+  longitude: longitude < 0 ? longitude + 360 : longitude
+});
+
+export const isInsidePolygon = (polygon: Coordinate[], point: Coordinate) => {
+  const unwrap = crossesAntimeridian(polygon);
+  const vertices = unwrap ? polygon.map(unwrapLongitude) : polygon;
+  const target = unwrap ? unwrapLongitude(point) : point;
+  let inside = false;
+  for (let index = 0, previous = vertices.length - 1; index < vertices.length; previous = index, index += 1) {
+    const a = vertices[index];
+    const b = vertices[previous];
+    if (
+      a.latitude > target.latitude !== b.latitude > target.latitude &&
+      target.longitude <
+        ((b.longitude - a.longitude) * (target.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInsidePlayArea = (playArea: Coordinate[] | null, point: Coordinate) =>
+  !playArea || isInsidePolygon(playArea, point);
+
+export const assertCachesInPlayArea = (playArea: Coordinate[] | null, caches: Coordinate[]) => {
+  const outside = caches.find((cache) => !isInsidePlayArea(playArea, cache));
+  if (outside) {
+    throw new Error(`Cache bei ${outside.latitude}, ${outside.longitude} liegt außerhalb des Spielfelds`);
+  }
+};
@@ -4,15 +4,163 @@ import dotenv from 'dotenv';
 import express, { NextFunction, Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
+import QRCode from 'qrcode';
 import {
+  AdminRole,
+  AdminSession,
+  CacheUnlockMode,
+  CacheVerificationMode,
+  EmailJobKind,
+  EmailJobStatus,
   EmailStatus as PrismaEmailStatus,
-  PrismaClient
+  EventAccessMode,
+  Prisma
 } from '@prisma/client';
-import { isEmailSendingEnabled, precheckRateLimit, sendInvitationEmail } from './email.js';
+import {
+  getRemainingEmailQuota,
+  isEmailSendingEnabled,
+  precheckRateLimit,
+  previewInvitationEmail,
+  renderInvitationEmail,
+  requeueEmail,
+  sendAdminInviteEmail,
+  sendInvitationEmail,
+  sendPasswordResetEmail
+} from './email.js';
+import {
+  CacheChainPayload,
+  chainCacheSelect,
+  isCacheUnlocked,
+  listSolvedCacheIds,
+  mapCacheChain,
+  validateCacheChain,
+  validatePrerequisiteGraph
+} from './chains.js';
+import { startEmailWorker } from './emailOutbox.js';
+import {
+  computeJobSchedule,
+  getJobRecipientFilter,
+  rescheduleEventJobs,
+  startEmailJobWorker
+} from './emailJobs.js';
+import { haversineDistanceMeters, initialBearingDegrees, parseReportedPosition, ReportedPosition } from './geo.js';
+import {
+  assertCachesInPlayArea,
+  Coordinate,
+  EventGeofencePayload,
+  eventGeofence,
+  isInsidePlayArea,
+  loadPlayArea,
+  mapEventGeofence,
+  pickEventGeofence,
+  readPlayArea,
+  validateEventGeofence
+} from './geofence.js';
+import { buildLeaderboard, buildTeamStandings } from './leaderboard.js';
+import {
+  generateTeamCode,
+  hasPlayerFinds,
+  hasTeamFoundCache,
+  isTeamNameTaken,
+  listTeamFoundCacheIds,
+  mapTeamMember,
+  MAX_TEAMS_PER_EVENT,
+  normalizeTeamCode,
+  validateTeamName
+} from './teams.js';
+import {
+  computeDashboardStats,
+  getActivePlayerWindowMs,
+  openLiveStream,
+  publishDashboardStats,
+  publishLiveEvent,
+  startLiveStatsTicker
+} from './liveEvents.js';
+import {
+  createSession,
+  getSessionExpiry,
+  listActiveSessions,
+  resolveSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession
+} from './sessions.js';
+import {
+  accessibleEventsFilter,
+  AuthenticatedAdmin,
+  requireEventAccess,
+  requireRole
+} from './permissions.js';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from './loginThrottle.js';
+import { isPasswordResetCoolingDown, registerPasswordResetRequest } from './passwordResetThrottle.js';
+import { recordAudit } from './audit.js';
+import { decryptSecret, encryptSecret, migrateStoredSecrets } from './secrets.js';
+import { applyBounceNotification, parseBounceWebhook, parseDeliveryStatusReport } from './bounces.js';
+import {
+  buildUnsubscribeLinks,
+  ensureUnsubscribeToken,
+  generateUnsubscribeToken,
+  isEmailSuppressed,
+  normalizeEmailAddress,
+  unsubscribeInvitation
+} from './suppressions.js';
+import { runSmtpDiagnostics, SmtpDiagnostics } from './smtpDiagnostics.js';
+import { buildCacheTagsPdf, buildInvitationHandoutPdf } from './printSheets.js';
+import { cacheVerificationLink, invitationLink, isQrFormat, publicEventLink, renderQrCode } from './qrCodes.js';
+import {
+  CacheScoringPayload,
+  pickScoringRules,
+  ScoringRulesPayload,
+  scoreFinds,
+  sumPoints,
+  validateCacheScoring,
+  validateScoringRules
+} from './scoring.js';
+import {
+  isValidLocale,
+  MAX_BULK_RECIPIENTS,
+  normalizeLocale,
+  normalizeRecipients,
+  parseRecipientCsv
+} from './recipients.js';
+import {
+  authenticatePlayer,
+  createTransferCode,
+  generatePlayerId,
+  isInviteOnly,
+  issuePlayerCredential,
+  readPlayerToken,
+  redeemTransferCode,
+  signPlayerToken,
+  validatePlayerTokenSecret
+} from './players.js';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp.js';
+import {
+  consumeLoginChallenge,
+  countRemainingRecoveryCodes,
+  createLoginChallenge,
+  disableTotp,
+  isSecondFactorInput,
+  isTotpEnabled,
+  recordChallengeFailure,
+  replaceRecoveryCodes,
+  resolveLoginChallenge,
+  SecondFactorInput,
+  verifySecondFactor
+} from './twoFactor.js';
+import { checkAnswerAllowed, recordAnswerFailure, recordAnswerSuccess } from './answerThrottle.js';
+import {
+  CacheVerificationPayload,
+  generateQrToken,
+  isAnswerAccepted,
+  isQrTokenValid,
+  pickCacheVerification,
+  validateCacheVerification
+} from './verification.js';
+import { prisma } from './db.js';
 
 dotenv.config();
 
-const prisma = new PrismaClient();
 const app = express();
 const PORT = process.env.PORT || 4000;
 
@@ -28,11 +176,10 @@ const projectVersion = (() => {
   }
 })();
 
+app.set('trust proxy', process.env.TRUST_PROXY || 'loopback');
 app.use(cors());
 app.use(express.json());
 
-const adminTokens = new Map<string, string>();
-
 app.get('/healthz', (_req, res) => {
   res.json({ status: 'ok' });
 });
@@ -50,24 +197,72 @@ const verifyPassword = (password: string, stored: string) => {
 };
 
 const asyncHandler = (
-  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
 ) =>
   (req: Request, res: Response, next: NextFunction) => {
     void fn(req, res, next).catch(next);
   };
 
+const PASSWORD_CHANGE_EXEMPT_PATHS = [
+  '/api/admin/me',
+  '/api/admin/password',
+  '/api/admin/logout',
+  '/api/admin/session/refresh'
+];
+
+const TOTP_ENROLLMENT_EXEMPT_PATHS = [...PASSWORD_CHANGE_EXEMPT_PATHS, '/api/admin/totp'];
+
+const isTotpEnrollmentExempt = (requestPath: string) =>
+  TOTP_ENROLLMENT_EXEMPT_PATHS.includes(requestPath) || requestPath.startsWith('/api/admin/totp/');
+
 const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   if (!authHeader) {
     return res.status(401).json({ message: 'Unauthorized' });
   }
   const token = authHeader.replace('Bearer ', '');
-  const adminId = adminTokens.get(token);
-  if (!adminId) {
-    return res.status(401).json({ message: 'Invalid token' });
+  try {
+    const session = await resolveSession(token);
+    if (!session) {
+      return res.status(401).json({ message: 'Invalid token' });
+    }
+    const admin = await prisma.adminUser.findUnique({
+      where: { id: session.adminId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        mustChangePassword: true,
+        totpEnabledAt: true
+      }
+    });
+    if (!admin) {
+      return res.status(401).json({ message: 'Invalid token' });
+    }
+    if (admin.mustChangePassword && !PASSWORD_CHANGE_EXEMPT_PATHS.includes(req.path)) {
+      return res
+        .status(403)
+        .json({ message: 'Password change required', code: 'PASSWORD_CHANGE_REQUIRED' });
+    }
+    if (!admin.totpEnabledAt && !isTotpEnrollmentExempt(req.path)) {
+      const settings = await prisma.systemSetting.findUnique({
+        where: { id: 1 },
+        select: { requireAdminTotp: true }
+      });
+      if (settings?.requireAdminTotp) {
+        return res
+          .status(403)
+          .json({ message: 'Two-factor enrollment required', code: 'TOTP_ENROLLMENT_REQUIRED' });
+      }
+    }
+    (req as any).adminId = admin.id;
+    (req as any).admin = admin;
+    (req as any).adminSession = session;
+    return next();
+  } catch (error) {
+    return next(error);
   }
-  (req as any).adminId = adminId;
-  return next();
 };
 
 type SystemSettingsInput = {
@@ -86,9 +281,13 @@ type SystemSettingsInput = {
   smtpUseTls?: boolean;
   smtpFromAddress?: string | null;
   smtpFromName?: string | null;
+  requireAdminTotp?: boolean;
 };
 
-type CachePayload = {
+type CachePayload = CacheScoringPayload &
+  CacheChainPayload &
+  CacheVerificationPayload & {
+    regenerateQrToken?: boolean;
   id?: string;
   latitude?: number;
   longitude?: number;
@@ -96,26 +295,107 @@ type CachePayload = {
   solution?: string;
 };
 
-type EventPayload = {
+type EventPayload = ScoringRulesPayload &
+  EventGeofencePayload & {
   name?: string;
   description?: string;
   startsAt?: string;
   endsAt?: string;
   visibleRadiusMeters?: number;
   foundRadiusMeters?: number;
-  startPoint?: string;
-  endPoint?: string;
   archived?: boolean;
+  accessMode?: EventAccessMode;
+  leaderboardEnabled?: boolean;
+  teamsEnabled?: boolean;
+  oneFindPerTeam?: boolean;
   invitationEmailSubject?: string;
   invitationEmailBody?: string;
+  invitationEmailHtml?: string;
+  emailLocale?: string;
+  emailTemplates?: EmailTemplatePayload[];
   senderEmail?: string;
   senderName?: string;
   caches?: CachePayload[];
 };
 
+type EmailTemplatePayload = {
+  locale?: string;
+  subject?: string;
+  htmlBody?: string | null;
+  textBody?: string | null;
+};
+
+type EmailPreviewPayload = {
+  invitationId?: string;
+  locale?: string;
+  recipientName?: string;
+  template?: EmailTemplatePayload;
+};
+
+const MAX_EMAIL_TEMPLATE_VARIANTS = 20;
+
+type TeamPayload = {
+  name?: string;
+  regenerateCode?: boolean;
+};
+
+type LeaderboardSettingsPayload = {
+  enabled?: boolean;
+  frozen?: boolean;
+};
+
+type EmailJobPayload = {
+  kind?: EmailJobKind;
+  offsetMinutes?: number;
+  subject?: string | null;
+  htmlBody?: string | null;
+  textBody?: string | null;
+};
+
+const MAX_EMAIL_JOBS_PER_EVENT = 20;
+const MAX_EMAIL_JOB_OFFSET_MINUTES = 60 * 24 * 60;
+
+type AdminInvitePayload = {
+  email?: string;
+  role?: AdminRole;
+};
+
+type AdminUpdatePayload = {
+  name?: string | null;
+  role?: AdminRole;
+};
+
 type InvitationPayload = {
   deliveryMethod: 'LINK' | 'EMAIL';
   email?: string;
+  name?: string;
+  locale?: string;
+};
+
+type BulkInvitationPayload = {
+  deliveryMethod?: 'LINK' | 'EMAIL';
+  recipients?: unknown[];
+  csv?: string;
+};
+
+type BulkInvitationResult = {
+  row: number;
+  email: string;
+  name: string | null;
+  locale: string | null;
+  status: 'created' | 'duplicate' | 'invalid';
+  message?: string;
+  invitationId?: string;
+  link?: string;
+  emailStatus?: string;
+};
+
+const hasValidWebhookSecret = (req: Request) => {
+  const expected = process.env.EMAIL_WEBHOOK_SECRET;
+  const provided = req.get('X-Webhook-Secret');
+  if (!expected || !provided) return false;
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(expected), digest(provided));
 };
 
 const getDefaultSystemSettings = () => ({
@@ -130,7 +410,7 @@ const getDefaultSystemSettings = () => ({
   smtpHost: process.env.SMTP_HOST || null,
   smtpPort: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : null,
   smtpUser: process.env.SMTP_USER || null,
-  smtpPassword: process.env.SMTP_PASSWORD || null,
+  smtpPassword: encryptSecret(process.env.SMTP_PASSWORD || null),
   smtpUseTls: process.env.SMTP_USE_TLS === 'true',
   smtpFromAddress: process.env.SMTP_FROM_ADDRESS || null,
   smtpFromName: process.env.SMTP_FROM_NAME || null
@@ -144,20 +424,117 @@ const ensureSystemSettings = async () => {
   }
 };
 
+const findAdminByEmail = (email: string) =>
+  prisma.adminUser.findFirst({ where: { email: { equals: normalizeEmailAddress(email), mode: 'insensitive' } } });
+
 const ensureDefaultAdmin = async () => {
-  const email = process.env.ADMIN_EMAIL || 'admin@example.com';
+  const email = normalizeEmailAddress(process.env.ADMIN_EMAIL || 'admin@example.com');
   const password = process.env.ADMIN_PASSWORD || 'change-me-now';
   const minLengthOk = password.length >= 12;
   if (!minLengthOk) {
     console.warn('ADMIN_PASSWORD should be at least 12 characters');
   }
-  const existing = await prisma.adminUser.findUnique({ where: { email } });
+  const existing = await findAdminByEmail(email);
   if (!existing) {
     const { salt, hash } = pbkdf2Hash(password);
-    await prisma.adminUser.create({ data: { email, passwordHash: `${salt}:${hash}` } });
+    await prisma.adminUser.create({
+      data: {
+        email,
+        passwordHash: `${salt}:${hash}`,
+        role: AdminRole.OWNER,
+        mustChangePassword: true
+      }
+    });
+    return;
+  }
+  const ownerCount = await prisma.adminUser.count({ where: { role: AdminRole.OWNER } });
+  if (ownerCount === 0) {
+    await prisma.adminUser.update({ where: { id: existing.id }, data: { role: AdminRole.OWNER } });
+  }
+};
+
+const MIN_PASSWORD_LENGTH = 12;
+const ADMIN_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const TOTP_ISSUER = process.env.INSTANCE_NAME || 'GeoCachingEngine';
+
+const hashOpaqueToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const validateNewPassword = (password: string | undefined) => {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`);
   }
 };
 
+const setAdminPassword = async (adminId: string, password: string) => {
+  const { salt, hash } = pbkdf2Hash(password);
+  await prisma.adminUser.update({
+    where: { id: adminId },
+    data: {
+      passwordHash: `${salt}:${hash}`,
+      mustChangePassword: false,
+      passwordChangedAt: new Date(),
+      failedLoginAttempts: 0,
+      lockedUntil: null
+    }
+  });
+  await revokeAllSessions(adminId);
+};
+
+const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === 'string' && (Object.values(AdminRole) as string[]).includes(value);
+
+const mapAdminResponse = (admin: {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  mustChangePassword?: boolean;
+  totpEnabledAt?: Date | null;
+  createdAt?: Date;
+}) => ({
+  id: admin.id,
+  email: admin.email,
+  name: admin.name,
+  role: admin.role,
+  mustChangePassword: admin.mustChangePassword ?? false,
+  totpEnabled: Boolean(admin.totpEnabledAt),
+  createdAt: admin.createdAt?.toISOString()
+});
+
+const mapSettingsResponse = (settings: any) => {
+  if (!settings) return settings;
+  const { smtpPassword, ...rest } = settings;
+  return { ...rest, smtpPasswordSet: Boolean(smtpPassword) };
+};
+
+const redactSettingsForRole = (settings: any, role: AdminRole) => {
+  if (!settings || role === AdminRole.OWNER) return mapSettingsResponse(settings);
+  const {
+    smtpHost: _smtpHost,
+    smtpPort: _smtpPort,
+    smtpUser: _smtpUser,
+    smtpPassword: _smtpPassword,
+    smtpLastTestResult: _smtpLastTestResult,
+    ...rest
+  } = settings;
+  return rest;
+};
+
+const SMTP_SETTING_KEYS = ['smtpHost', 'smtpPort', 'smtpUser', 'smtpPassword', 'smtpUseTls'] as const;
+
+const summarizeSmtpTest = (settings: any) => {
+  if (!settings?.smtpLastTestAt) return null;
+  const diagnostics = settings.smtpLastTestResult as SmtpDiagnostics | null;
+  return {
+    testedAt: settings.smtpLastTestAt.toISOString(),
+    ok: Boolean(settings.smtpLastTestOk),
+    failedStage: diagnostics?.error?.stage ?? null,
+    errorCode: diagnostics?.error?.code ?? null,
+    responseCode: diagnostics?.error?.responseCode ?? null
+  };
+};
+
 const migrationsUpToDate = async () => {
   try {
     const migrationsDir = path.resolve(process.cwd(), 'prisma', 'migrations');
@@ -187,7 +564,7 @@ const checkDatabase = async () => {
   }
 };
 
-const validateEventPayload = async (payload: EventPayload) => {
+const validateEventPayload = async (payload: EventPayload, existingCaches: Coordinate[] = []) => {
   if (!payload.name || payload.name.trim().length < 3) {
     throw new Error('Event name must be at least 3 characters');
   }
@@ -208,17 +585,102 @@ const validateEventPayload = async (payload: EventPayload) => {
   if (!payload.foundRadiusMeters || payload.foundRadiusMeters <= 0) {
     throw new Error('Found radius must be greater than 0');
   }
+  if (
+    payload.accessMode !== undefined &&
+    !(Object.values(EventAccessMode) as string[]).includes(payload.accessMode)
+  ) {
+    throw new Error('Invalid access mode');
+  }
+  validateScoringRules(payload);
+  (payload.caches || []).forEach(validateCacheScoring);
+  (payload.caches || []).forEach(validateCacheChain);
+  (payload.caches || []).forEach((cache) => validateCacheVerification(cache));
+  validateEventGeofence(payload);
+  assertCachesInPlayArea(payload.playArea ?? null, [
+    ...existingCaches,
+    ...(payload.caches || []).map((cache) => ({ latitude: cache.latitude ?? 0, longitude: cache.longitude ?? 0 }))
+  ]);
+  if (payload.emailLocale !== undefined && !isValidLocale(normalizeLocale(payload.emailLocale))) {
+    throw new Error('Ungültige Sprache für die Einladungsvorlage');
+  }
+  if (payload.emailTemplates !== undefined) {
+    if (!Array.isArray(payload.emailTemplates)) {
+      throw new Error('emailTemplates muss eine Liste sein');
+    }
+    if (payload.emailTemplates.length > MAX_EMAIL_TEMPLATE_VARIANTS) {
+      throw new Error(`Maximal ${MAX_EMAIL_TEMPLATE_VARIANTS} Sprachvarianten erlaubt`);
+    }
+    const locales = new Set<string>();
+    for (const template of payload.emailTemplates) {
+      const locale = typeof template.locale === 'string' ? normalizeLocale(template.locale) : '';
+      if (!isValidLocale(locale)) {
+        throw new Error(`Ungültige Sprache in Sprachvariante: ${template.locale ?? ''}`);
+      }
+      if (locales.has(locale)) {
+        throw new Error(`Sprachvariante ${locale} ist doppelt vorhanden`);
+      }
+      locales.add(locale);
+      if (!template.subject?.trim()) {
+        throw new Error(`Betreff fehlt in Sprachvariante ${locale}`);
+      }
+      if (!template.htmlBody?.trim() && !template.textBody?.trim()) {
+        throw new Error(`HTML oder Text fehlt in Sprachvariante ${locale}`);
+      }
+    }
+  }
+};
+
+const validateEmailJobPayload = (payload: EmailJobPayload) => {
+  if (!payload.kind || !(Object.values(EmailJobKind) as string[]).includes(payload.kind)) {
+    throw new Error('Ungültige Art der geplanten E-Mail');
+  }
+  if (
+    !Number.isInteger(payload.offsetMinutes) ||
+    payload.offsetMinutes! < 0 ||
+    payload.offsetMinutes! > MAX_EMAIL_JOB_OFFSET_MINUTES
+  ) {
+    throw new Error(`Der Versatz muss zwischen 0 und ${MAX_EMAIL_JOB_OFFSET_MINUTES} Minuten liegen`);
+  }
+  if ((payload.htmlBody?.trim() || payload.textBody?.trim()) && !payload.subject?.trim()) {
+    throw new Error('Betreff fehlt für die eigene Vorlage');
+  }
 };
 
+const mapEmailJobPayload = (payload: EmailJobPayload) => ({
+  kind: payload.kind!,
+  offsetMinutes: payload.offsetMinutes!,
+  subject: payload.subject?.trim() || null,
+  htmlBody: payload.htmlBody?.trim() || null,
+  textBody: payload.textBody?.trim() || null
+});
+
+const mapEmailJobResponse = (job: any, pendingCount: number | null) => ({
+  ...job,
+  pendingCount,
+  scheduledAt: job.scheduledAt.toISOString(),
+  startedAt: job.startedAt?.toISOString() ?? null,
+  completedAt: job.completedAt?.toISOString() ?? null,
+  createdAt: job.createdAt.toISOString(),
+  updatedAt: job.updatedAt.toISOString()
+});
+
+const mapEmailTemplatePayload = (template: EmailTemplatePayload) => ({
+  locale: normalizeLocale(template.locale!),
+  subject: template.subject!.trim(),
+  htmlBody: template.htmlBody?.trim() || null,
+  textBody: template.textBody?.trim() || null
+});
+
 const mapEventResponse = (event: any) => ({
-  ...event,
+  ...mapEventGeofence(event),
   startsAt: event.startsAt?.toISOString?.() ?? event.startsAt,
   endsAt: event.endsAt?.toISOString?.() ?? event.endsAt,
   createdAt: event.createdAt?.toISOString?.() ?? event.createdAt,
   updatedAt: event.updatedAt?.toISOString?.() ?? event.updatedAt,
   archivedAt: event.archivedAt?.toISOString?.() ?? event.archivedAt,
+  leaderboardFrozenAt: event.leaderboardFrozenAt?.toISOString?.() ?? event.leaderboardFrozenAt,
   caches: (event.caches || []).map((cache: any) => ({
-    ...cache,
+    ...mapCacheChain(cache),
     createdAt: cache.createdAt?.toISOString?.() ?? cache.createdAt,
     foundAt: cache.foundAt?.toISOString?.() ?? cache.foundAt,
     finds: (cache.finds || []).map((find: any) => ({
@@ -234,156 +696,977 @@ const mapEventResponse = (event: any) => ({
   }))
 });
 
+const eventAuditSnapshot = (event: any) => ({
+  ...event,
+  caches: undefined,
+  invitations: undefined,
+  emailTemplates: event.emailTemplates?.map((template: any) => template.locale)
+});
+
+const mapPublicEventSummary = (event: any) => ({
+  id: event.id,
+  name: event.name,
+  description: event.description,
+  startsAt: event.startsAt?.toISOString?.() ?? event.startsAt,
+  endsAt: event.endsAt?.toISOString?.() ?? event.endsAt,
+  visibleRadiusMeters: event.visibleRadiusMeters,
+  foundRadiusMeters: event.foundRadiusMeters,
+  ...eventGeofence(event),
+  accessMode: event.accessMode,
+  leaderboardEnabled: event.leaderboardEnabled,
+  teamsEnabled: event.teamsEnabled,
+  oneFindPerTeam: event.oneFindPerTeam
+});
+
+const parseQueryCoordinate = (value: unknown, limit: number) => {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) return null;
+  return parsed;
+};
+
+const RECENT_FINDS_LIMIT = 20;
+
+const mapLiveFind = (
+  find: {
+    id: string;
+    cacheId: string;
+    playerId: string;
+    nickname: string | null;
+    foundAt: Date;
+    verificationMethod: CacheVerificationMode;
+  },
+  clue: string
+) => ({
+  id: find.id,
+  cacheId: find.cacheId,
+  clue,
+  playerId: find.playerId,
+  nickname: find.nickname,
+  foundAt: find.foundAt.toISOString(),
+  verificationMethod: find.verificationMethod
+});
+
+const announcePlayerJoined = (
+  player: { id: string; eventId: string; nickname: string | null; createdAt: Date },
+  viaInvitation: boolean
+) => {
+  publishLiveEvent(player.eventId, 'player_joined', {
+    playerId: player.id,
+    nickname: player.nickname,
+    joinedAt: player.createdAt.toISOString(),
+    viaInvitation
+  });
+  void publishDashboardStats(player.eventId);
+};
+
+const mapPublicCache = (
+  cache: any,
+  options: { distance: number | null; foundByPlayer: boolean; foundByTeam: boolean; locked: boolean }
+) => ({
+  id: cache.id,
+  clue: options.locked ? null : cache.clue,
+  latitude: options.locked ? null : cache.latitude,
+  longitude: options.locked ? null : cache.longitude,
+  distanceMeters: options.distance === null || options.locked ? null : Math.round(options.distance),
+  stage: cache.stage,
+  isFinal: cache.isFinal,
+  locked: options.locked,
+  verificationMode: options.locked ? null : cache.verificationMode,
+  answerOptions:
+    !options.locked && cache.verificationMode === CacheVerificationMode.ANSWER ? cache.answerOptions : [],
+  foundByAny: cache.foundByAny,
+  foundAt: cache.foundAt?.toISOString?.() ?? cache.foundAt,
+  foundByPlayer: options.foundByPlayer,
+  foundByTeam: options.foundByTeam,
+  solution: options.foundByPlayer || options.foundByTeam ? cache.solution : null
+});
+
 app.post(
   '/api/admin/login',
   asyncHandler(async (req, res) => {
     const { email, password } = req.body as { email?: string; password?: string };
-    if (!email || !password) {
+    if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
       return res.status(400).json({ message: 'Missing credentials' });
     }
-    const user = await prisma.adminUser.findUnique({ where: { email } });
+    const ip = req.ip ?? 'unknown';
+    const user = await findAdminByEmail(email);
+    const throttle = checkLoginAllowed(ip, user);
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(429).json({
+        message: 'Zu viele fehlgeschlagene Anmeldeversuche. Bitte später erneut versuchen.',
+        retryAfterSeconds: throttle.retryAfterSeconds
+      });
+    }
     if (!user || !verifyPassword(password, user.passwordHash)) {
+      const { accountLocked } = await recordLoginFailure(ip, user?.id ?? null);
+      await recordAudit(req, {
+        action: accountLocked ? 'login.locked' : 'login.failed',
+        entityType: 'admin',
+        entityId: user?.id ?? null,
+        after: { email: normalizeEmailAddress(email) }
+      });
       return res.status(401).json({ message: 'Invalid credentials' });
     }
-    const token = crypto.randomUUID();
-    adminTokens.set(token, user.id);
-    return res.json({ token });
+    if (isTotpEnabled(user)) {
+      const challenge = await createLoginChallenge(user.id);
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: challenge.token,
+        challengeExpiresAt: challenge.expiresAt.toISOString()
+      });
+    }
+    await recordLoginSuccess(ip, user.id);
+    const { token, session } = await createSession(user.id, {
+      userAgent: req.get('user-agent') ?? null,
+      ipAddress: req.ip ?? null
+    });
+    await recordAudit(req, {
+      action: 'login.succeeded',
+      entityType: 'session',
+      entityId: session.id,
+      adminId: user.id
+    });
+    return res.json({ token, ...getSessionExpiry(session) });
   })
 );
 
-app.get(
-  '/api/admin/settings',
+app.post(
+  '/api/admin/login/totp',
+  asyncHandler(async (req, res) => {
+    const { challengeToken, code, recoveryCode } = req.body as SecondFactorInput & {
+      challengeToken?: string;
+    };
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Missing credentials' });
+    }
+    if (typeof challengeToken !== 'string' || !isSecondFactorInput({ code, recoveryCode })) {
+      return res.status(400).json({ message: 'Ungültiger Code' });
+    }
+    const ip = req.ip ?? 'unknown';
+    const challenge = await resolveLoginChallenge(challengeToken);
+    if (!challenge) {
+      return res.status(401).json({ message: 'Anmeldung abgelaufen. Bitte erneut einloggen.' });
+    }
+    const throttle = checkLoginAllowed(ip, challenge.admin);
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(429).json({
+        message: 'Zu viele fehlgeschlagene Anmeldeversuche. Bitte später erneut versuchen.',
+        retryAfterSeconds: throttle.retryAfterSeconds
+      });
+    }
+    const method = await verifySecondFactor(challenge.admin, { code, recoveryCode });
+    if (!method) {
+      await recordChallengeFailure(challenge.id);
+      const { accountLocked } = await recordLoginFailure(ip, challenge.adminId);
+      await recordAudit(req, {
+        action: accountLocked ? 'login.locked' : 'login.totp_failed',
+        entityType: 'admin',
+        entityId: challenge.adminId
+      });
+      return res.status(401).json({ message: 'Ungültiger Code' });
+    }
+    await consumeLoginChallenge(challenge.id);
+    await recordLoginSuccess(ip, challenge.adminId);
+    const { token, session } = await createSession(challenge.adminId, {
+      userAgent: req.get('user-agent') ?? null,
+      ipAddress: req.ip ?? null
+    });
+    await recordAudit(req, {
+      action: method === 'recovery' ? 'login.recovery_code_used' : 'login.succeeded',
+      entityType: 'session',
+      entityId: session.id,
+      adminId: challenge.adminId
+    });
+    return res.json({ token, ...getSessionExpiry(session) });
+  })
+);
+
+app.post(
+  '/api/admin/logout',
   authMiddleware,
-  asyncHandler(async (_req, res) => {
-    await ensureSystemSettings();
-    const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
-    return res.json({ settings, emailSendingEnabled: isEmailSendingEnabled(settings) });
+  asyncHandler(async (req, res) => {
+    const session = (req as any).adminSession as AdminSession;
+    await revokeSession(session.id);
+    return res.status(204).send();
   })
 );
 
-app.get(
-  '/api/admin/system-status',
+app.post(
+  '/api/admin/session/refresh',
   authMiddleware,
-  asyncHandler(async (_req, res) => {
-    const [dbHealthy, migrationsOk, settings] = await Promise.all([
-      checkDatabase(),
-      migrationsUpToDate(),
-      prisma.systemSetting.findUnique({ where: { id: 1 } })
-    ]);
+  asyncHandler(async (req, res) => {
+    const { token, session } = await rotateSession((req as any).adminSession as AdminSession);
+    return res.json({ token, ...getSessionExpiry(session) });
+  })
+);
 
+app.get(
+  '/api/admin/sessions',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const current = (req as any).adminSession as AdminSession;
+    const sessions = await listActiveSessions(current.adminId);
     return res.json({
-      database: dbHealthy ? 'ok' : 'error',
-      migrationsUpToDate: migrationsOk,
-      emailSendingEnabled: isEmailSendingEnabled(settings),
-      version: projectVersion
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt.toISOString(),
+        ...getSessionExpiry(session),
+        current: session.id === current.id
+      }))
     });
   })
 );
 
-app.put(
-  '/api/admin/settings',
+app.delete(
+  '/api/admin/sessions/:sessionId',
   authMiddleware,
   asyncHandler(async (req, res) => {
-    const payload = req.body as { settings?: SystemSettingsInput };
-    if (!payload.settings) {
-      return res.status(400).json({ message: 'Missing settings payload' });
+    const { sessionId } = req.params;
+    const revoked = await revokeSession(sessionId, (req as any).adminId);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Session not found' });
     }
-    await ensureSystemSettings();
-    const {
-      impressumUrl,
-      privacyUrl,
-      supportEmail,
-      cacheVisibilityRadiusDefault,
-      cacheFoundRadiusDefault,
-      dataRetentionDays,
-      maxEmailsPerHourPerAdmin,
-      maxEmailsPerDayPerAdmin,
-      smtpHost,
-      smtpPort,
-      smtpUser,
-      smtpPassword,
-      smtpUseTls,
-      smtpFromAddress,
-      smtpFromName
-    } = payload.settings;
+    await recordAudit(req, { action: 'session.revoked', entityType: 'session', entityId: sessionId });
+    return res.status(204).send();
+  })
+);
 
-    const data: SystemSettingsInput = {};
-    if (typeof impressumUrl === 'string') data.impressumUrl = impressumUrl;
-    if (typeof privacyUrl === 'string') data.privacyUrl = privacyUrl;
-    if (typeof supportEmail === 'string') data.supportEmail = supportEmail;
-    if (typeof cacheVisibilityRadiusDefault === 'number' && cacheVisibilityRadiusDefault > 0) {
-      data.cacheVisibilityRadiusDefault = cacheVisibilityRadiusDefault;
-    }
-    if (typeof cacheFoundRadiusDefault === 'number' && cacheFoundRadiusDefault > 0) {
-      data.cacheFoundRadiusDefault = cacheFoundRadiusDefault;
-    }
-    if (typeof dataRetentionDays === 'number' && dataRetentionDays > 0) {
-      data.dataRetentionDays = dataRetentionDays;
+app.post(
+  '/api/admin/password',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const { currentPassword, newPassword } = req.body as {
+      currentPassword?: string;
+      newPassword?: string;
+    };
+    const adminId = (req as any).adminId as string;
+    if (!currentPassword) {
+      return res.status(400).json({ message: 'Aktuelles Passwort fehlt.' });
     }
-    if (typeof maxEmailsPerHourPerAdmin === 'number' && maxEmailsPerHourPerAdmin > 0) {
-      data.maxEmailsPerHourPerAdmin = maxEmailsPerHourPerAdmin;
+    try {
+      validateNewPassword(newPassword);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
     }
-    if (typeof maxEmailsPerDayPerAdmin === 'number' && maxEmailsPerDayPerAdmin > 0) {
-      data.maxEmailsPerDayPerAdmin = maxEmailsPerDayPerAdmin;
+    const admin = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!admin || !verifyPassword(currentPassword, admin.passwordHash)) {
+      return res.status(401).json({ message: 'Aktuelles Passwort ist falsch.' });
     }
-    if (smtpHost !== undefined) data.smtpHost = smtpHost || null;
-    if (smtpPort !== undefined) data.smtpPort = typeof smtpPort === 'number' ? smtpPort : null;
-    if (smtpUser !== undefined) data.smtpUser = smtpUser || null;
-    if (smtpPassword !== undefined) data.smtpPassword = smtpPassword || null;
-    if (smtpUseTls !== undefined) data.smtpUseTls = Boolean(smtpUseTls);
-    if (smtpFromAddress !== undefined) data.smtpFromAddress = smtpFromAddress || null;
-    if (smtpFromName !== undefined) data.smtpFromName = smtpFromName || null;
-
-    const smtpProvided =
-      data.smtpHost || data.smtpPort || data.smtpUser || data.smtpPassword || data.smtpFromAddress;
-    if (smtpProvided) {
-      if (!data.smtpHost) return res.status(400).json({ message: 'SMTP-Host erforderlich' });
-      if (!data.smtpPort) return res.status(400).json({ message: 'SMTP-Port erforderlich' });
-      if (!data.smtpFromAddress)
-        return res.status(400).json({ message: 'SMTP Absenderadresse erforderlich' });
-      if (!data.smtpUser) return res.status(400).json({ message: 'SMTP-Benutzer erforderlich' });
-      if (!data.smtpPassword)
-        return res.status(400).json({ message: 'SMTP-Passwort erforderlich' });
+    if (verifyPassword(newPassword!, admin.passwordHash)) {
+      return res.status(400).json({ message: 'Das neue Passwort muss sich vom alten unterscheiden.' });
     }
-
-    const updated = await prisma.systemSetting.update({
-      where: { id: 1 },
-      data
+    await setAdminPassword(admin.id, newPassword!);
+    await recordAudit(req, { action: 'password.changed', entityType: 'admin', entityId: admin.id });
+    const { token, session } = await createSession(admin.id, {
+      userAgent: req.get('user-agent') ?? null,
+      ipAddress: req.ip ?? null
     });
-
-    return res.json({ settings: updated, emailSendingEnabled: isEmailSendingEnabled(updated) });
+    return res.json({ token, ...getSessionExpiry(session) });
   })
 );
 
-app.get(
-  '/api/admin/events',
-  authMiddleware,
-  asyncHandler(async (_req, res) => {
-    const events = await prisma.event.findMany({
-      include: { caches: { include: { finds: true } }, invitations: true },
-      orderBy: { startsAt: 'asc' }
+app.post(
+  '/api/admin/password-reset/request',
+  asyncHandler(async (req, res) => {
+    const { email } = req.body as { email?: string };
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ message: 'Missing email' });
+    }
+    const throttle = registerPasswordResetRequest(req.ip ?? 'unknown');
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(429).json({
+        message: 'Zu viele Anfragen. Bitte später erneut versuchen.',
+        retryAfterSeconds: throttle.retryAfterSeconds
+      });
+    }
+    const admin = await findAdminByEmail(email);
+    if (admin && !(await isPasswordResetCoolingDown(admin.id))) {
+      const token = crypto.randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+      await prisma.$transaction([
+        prisma.adminPasswordReset.updateMany({
+          where: { adminId: admin.id, usedAt: null },
+          data: { usedAt: new Date() }
+        }),
+        prisma.adminPasswordReset.create({
+          data: { adminId: admin.id, tokenHash: hashOpaqueToken(token), expiresAt }
+        })
+      ]);
+      const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+      await sendPasswordResetEmail({
+        to: admin.email,
+        link: `${baseUrl}/admin/reset/${token}`,
+        expiresAt
+      });
+    }
+    return res.status(202).json({
+      message: 'Falls ein Konto existiert, wurde eine E-Mail zum Zurücksetzen versendet.'
     });
-    return res.json({ events: events.map(mapEventResponse) });
   })
 );
 
-app.get(
-  '/api/admin/events/:id/dashboard',
-  authMiddleware,
+app.post(
+  '/api/admin/password-reset/confirm',
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const event = await prisma.event.findUnique({
-      where: { id },
-      include: { caches: { include: { finds: true } }, players: true }
-    });
-    if (!event) {
-      return res.status(404).json({ message: 'Event not found' });
+    const { token, newPassword } = req.body as { token?: string; newPassword?: string };
+    if (!token) {
+      return res.status(400).json({ message: 'Missing token' });
     }
-    const totalCaches = event.caches.length;
-    const foundCount = event.caches.filter((cache) => cache.foundByAny).length;
-    const completionPercent = totalCaches === 0 ? 0 : Math.round((foundCount / totalCaches) * 10000) / 100;
-    const activeWindow = new Date(Date.now() - 30 * 60 * 1000);
-    const activePlayerCount = event.players.filter((player) => player.lastActiveAt >= activeWindow).length;
+    try {
+      validateNewPassword(newPassword);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+    const reset = await prisma.adminPasswordReset.findUnique({
+      where: { tokenHash: hashOpaqueToken(token) }
+    });
+    if (!reset || reset.usedAt || reset.expiresAt < new Date()) {
+      return res.status(400).json({ message: 'Link ungültig oder abgelaufen.' });
+    }
+    const claimed = await prisma.adminPasswordReset.updateMany({
+      where: { id: reset.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+    if (claimed.count === 0) {
+      return res.status(400).json({ message: 'Link ungültig oder abgelaufen.' });
+    }
+    await setAdminPassword(reset.adminId, newPassword!);
+    await recordAudit(req, {
+      action: 'password.reset',
+      entityType: 'admin',
+      entityId: reset.adminId,
+      adminId: reset.adminId
+    });
+    return res.status(204).send();
+  })
+);
+
+app.get(
+  '/api/admin/totp',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const admin = (req as any).admin as AuthenticatedAdmin;
+    const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+    return res.json({
+      enabled: Boolean(admin.totpEnabledAt),
+      enabledAt: admin.totpEnabledAt?.toISOString() ?? null,
+      required: settings?.requireAdminTotp ?? false,
+      recoveryCodesRemaining: await countRemainingRecoveryCodes(admin.id)
+    });
+  })
+);
+
+app.post(
+  '/api/admin/totp/setup',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const admin = (req as any).admin as AuthenticatedAdmin;
+    if (admin.totpEnabledAt) {
+      return res.status(409).json({ message: 'Zwei-Faktor-Anmeldung ist bereits aktiv.' });
+    }
+    const secret = generateTotpSecret();
+    await prisma.adminUser.update({ where: { id: admin.id }, data: { totpPendingSecret: encryptSecret(secret) } });
+    const otpauthUri = buildOtpauthUri(secret, admin.email, TOTP_ISSUER);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+    return res.json({ secret, otpauthUri, qrCodeDataUrl });
+  })
+);
+
+app.post(
+  '/api/admin/totp/enable',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const { code } = req.body as { code?: string };
+    const adminId = (req as any).adminId as string;
+    const admin = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!admin?.totpPendingSecret) {
+      return res.status(400).json({ message: 'Bitte zuerst die Einrichtung starten.' });
+    }
+    const step = typeof code === 'string' ? verifyTotp(decryptSecret(admin.totpPendingSecret)!, code) : null;
+    if (step === null) {
+      return res.status(400).json({ message: 'Ungültiger Code' });
+    }
+    await prisma.adminUser.update({
+      where: { id: adminId },
+      data: {
+        totpSecret: admin.totpPendingSecret,
+        totpPendingSecret: null,
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step
+      }
+    });
+    const recoveryCodes = await replaceRecoveryCodes(adminId);
+    await recordAudit(req, { action: 'totp.enabled', entityType: 'admin', entityId: adminId });
+    return res.json({ recoveryCodes });
+  })
+);
+
+app.post(
+  '/api/admin/totp/recovery-codes',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const adminId = (req as any).adminId as string;
+    const admin = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!admin || !isTotpEnabled(admin)) {
+      return res.status(400).json({ message: 'Zwei-Faktor-Anmeldung ist nicht aktiv.' });
+    }
+    const { code } = req.body as { code?: string };
+    if (!isSecondFactorInput({ code }) || !(await verifySecondFactor(admin, { code }))) {
+      return res.status(400).json({ message: 'Ungültiger Code' });
+    }
+    const recoveryCodes = await replaceRecoveryCodes(adminId);
+    await recordAudit(req, {
+      action: 'totp.recovery_codes_regenerated',
+      entityType: 'admin',
+      entityId: adminId
+    });
+    return res.json({ recoveryCodes });
+  })
+);
+
+app.post(
+  '/api/admin/totp/disable',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const adminId = (req as any).adminId as string;
+    const { password, code, recoveryCode } = req.body as SecondFactorInput & { password?: string };
+    const admin = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!admin || !isTotpEnabled(admin)) {
+      return res.status(400).json({ message: 'Zwei-Faktor-Anmeldung ist nicht aktiv.' });
+    }
+    if (!password || !verifyPassword(password, admin.passwordHash)) {
+      return res.status(400).json({ message: 'Aktuelles Passwort ist falsch.' });
+    }
+    if (
+      !isSecondFactorInput({ code, recoveryCode }) ||
+      !(await verifySecondFactor(admin, { code, recoveryCode }))
+    ) {
+      return res.status(400).json({ message: 'Ungültiger Code' });
+    }
+    await disableTotp(adminId);
+    await recordAudit(req, { action: 'totp.disabled', entityType: 'admin', entityId: adminId });
+    return res.status(204).send();
+  })
+);
+
+app.get(
+  '/api/admin/me',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const admin = (req as any).admin as AuthenticatedAdmin;
+    const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+    return res.json({
+      admin: {
+        ...mapAdminResponse(admin),
+        totpEnrollmentRequired: Boolean(settings?.requireAdminTotp && !admin.totpEnabledAt)
+      }
+    });
+  })
+);
+
+app.get(
+  '/api/admin/admins',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (_req, res) => {
+    const [admins, invites] = await Promise.all([
+      prisma.adminUser.findMany({ orderBy: { createdAt: 'asc' } }),
+      prisma.adminInvite.findMany({
+        where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+    return res.json({
+      admins: admins.map(mapAdminResponse),
+      invites: invites.map((invite) => ({
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        createdAt: invite.createdAt.toISOString(),
+        expiresAt: invite.expiresAt.toISOString()
+      }))
+    });
+  })
+);
+
+app.post(
+  '/api/admin/admins/invites',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { email, role } = req.body as AdminInvitePayload;
+    const adminId = (req as any).adminId as string;
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({ message: 'Valid email is required' });
+    }
+    if (!isAdminRole(role)) {
+      return res.status(400).json({ message: 'Invalid role' });
+    }
+    const normalizedEmail = normalizeEmailAddress(email);
+    const existing = await findAdminByEmail(normalizedEmail);
+    if (existing) {
+      return res.status(409).json({ message: 'Admin already exists' });
+    }
+
+    const token = crypto.randomBytes(24).toString('hex');
+    const invite = await prisma.adminInvite.create({
+      data: {
+        email: normalizedEmail,
+        role,
+        tokenHash: hashOpaqueToken(token),
+        invitedById: adminId,
+        expiresAt: new Date(Date.now() + ADMIN_INVITE_TTL_MS)
+      }
+    });
+
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+    const link = `${baseUrl}/admin/invite/${token}`;
+    const result = await sendAdminInviteEmail({
+      to: normalizedEmail,
+      link,
+      role,
+      expiresAt: invite.expiresAt,
+      adminId
+    });
+    if (result.status === 'rate_limited') {
+      await prisma.adminInvite.delete({ where: { id: invite.id } });
+      return res.status(429).json({ message: result.message });
+    }
+    await recordAudit(req, {
+      action: 'admin.invited',
+      entityType: 'admin',
+      entityId: invite.id,
+      after: { email: invite.email, role: invite.role, expiresAt: invite.expiresAt }
+    });
+    return res.status(201).json({
+      invite: {
+        id: invite.id,
+        email: invite.email,
+        role: invite.role,
+        createdAt: invite.createdAt.toISOString(),
+        expiresAt: invite.expiresAt.toISOString()
+      },
+      link,
+      emailStatus: result.status
+    });
+  })
+);
+
+app.delete(
+  '/api/admin/admins/invites/:inviteId',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { inviteId } = req.params;
+    const result = await prisma.adminInvite.deleteMany({ where: { id: inviteId, acceptedAt: null } });
+    if (result.count > 0) {
+      await recordAudit(req, { action: 'admin.invite_revoked', entityType: 'admin', entityId: inviteId });
+    }
+    return res.status(204).send();
+  })
+);
+
+app.put(
+  '/api/admin/admins/:adminId',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { adminId } = req.params;
+    const { name, role } = req.body as AdminUpdatePayload;
+    const target = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!target) {
+      return res.status(404).json({ message: 'Admin not found' });
+    }
+    if (role !== undefined && !isAdminRole(role)) {
+      return res.status(400).json({ message: 'Invalid role' });
+    }
+    if (target.role === AdminRole.OWNER && role && role !== AdminRole.OWNER) {
+      const ownerCount = await prisma.adminUser.count({ where: { role: AdminRole.OWNER } });
+      if (ownerCount <= 1) {
+        return res.status(400).json({ message: 'At least one owner is required' });
+      }
+    }
+    const updated = await prisma.adminUser.update({
+      where: { id: adminId },
+      data: {
+        name: name === undefined ? undefined : name?.trim() || null,
+        role: role ?? undefined
+      }
+    });
+    await recordAudit(req, {
+      action: 'admin.updated',
+      entityType: 'admin',
+      entityId: adminId,
+      before: mapAdminResponse(target),
+      after: mapAdminResponse(updated)
+    });
+    return res.json({ admin: mapAdminResponse(updated) });
+  })
+);
+
+app.delete(
+  '/api/admin/admins/:adminId',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { adminId } = req.params;
+    if (adminId === (req as any).adminId) {
+      return res.status(400).json({ message: 'You cannot delete your own account' });
+    }
+    const target = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!target) {
+      return res.status(404).json({ message: 'Admin not found' });
+    }
+    await prisma.adminUser.delete({ where: { id: adminId } });
+    await recordAudit(req, {
+      action: 'admin.deleted',
+      entityType: 'admin',
+      entityId: adminId,
+      before: mapAdminResponse(target)
+    });
+    return res.status(204).send();
+  })
+);
+
+app.delete(
+  '/api/admin/admins/:adminId/totp',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { adminId } = req.params;
+    const target = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!target) {
+      return res.status(404).json({ message: 'Admin not found' });
+    }
+    await disableTotp(adminId);
+    await revokeAllSessions(adminId);
+    await recordAudit(req, { action: 'totp.reset', entityType: 'admin', entityId: adminId });
+    return res.status(204).send();
+  })
+);
+
+app.get(
+  '/api/admin/admin-invites/:token',
+  asyncHandler(async (req, res) => {
+    const invite = await prisma.adminInvite.findUnique({
+      where: { tokenHash: hashOpaqueToken(req.params.token) }
+    });
+    if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+      return res.status(404).json({ message: 'Einladung ungültig oder abgelaufen.' });
+    }
+    return res.json({ invite: { email: invite.email, role: invite.role } });
+  })
+);
+
+app.post(
+  '/api/admin/admin-invites/:token/accept',
+  asyncHandler(async (req, res) => {
+    const { password, name } = req.body as { password?: string; name?: string };
+    const invite = await prisma.adminInvite.findUnique({
+      where: { tokenHash: hashOpaqueToken(req.params.token) }
+    });
+    if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+      return res.status(404).json({ message: 'Einladung ungültig oder abgelaufen.' });
+    }
+    try {
+      validateNewPassword(password);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+    const existing = await findAdminByEmail(invite.email);
+    if (existing) {
+      return res.status(409).json({ message: 'Admin already exists' });
+    }
+    const { salt, hash } = pbkdf2Hash(password!);
+    const [admin] = await prisma.$transaction([
+      prisma.adminUser.create({
+        data: {
+          email: normalizeEmailAddress(invite.email),
+          name: name?.trim() || null,
+          role: invite.role,
+          passwordHash: `${salt}:${hash}`
+        }
+      }),
+      prisma.adminInvite.update({ where: { id: invite.id }, data: { acceptedAt: new Date() } })
+    ]);
+    await recordAudit(req, {
+      action: 'admin.invite_accepted',
+      entityType: 'admin',
+      entityId: admin.id,
+      adminId: admin.id,
+      after: mapAdminResponse(admin)
+    });
+    const { token, session } = await createSession(admin.id, {
+      userAgent: req.get('user-agent') ?? null,
+      ipAddress: req.ip ?? null
+    });
+    return res.status(201).json({ token, ...getSessionExpiry(session) });
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/access',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const grants = await prisma.eventAdminAccess.findMany({
+      where: { eventId: req.params.id },
+      include: { admin: true }
+    });
+    return res.json({ admins: grants.map((grant) => mapAdminResponse(grant.admin)) });
+  })
+);
+
+app.put(
+  '/api/admin/events/:id/access',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { adminIds } = req.body as { adminIds?: string[] };
+    if (!Array.isArray(adminIds)) {
+      return res.status(400).json({ message: 'adminIds must be an array' });
+    }
+    const organizers = await prisma.adminUser.findMany({
+      where: { id: { in: adminIds }, role: AdminRole.ORGANIZER }
+    });
+    const previous = await prisma.eventAdminAccess.findMany({ where: { eventId: id } });
+    await prisma.$transaction([
+      prisma.eventAdminAccess.deleteMany({ where: { eventId: id } }),
+      prisma.eventAdminAccess.createMany({
+        data: organizers.map((admin) => ({ eventId: id, adminId: admin.id }))
+      })
+    ]);
+    await recordAudit(req, {
+      action: 'event.access_updated',
+      entityType: 'event',
+      entityId: id,
+      eventId: id,
+      before: { adminIds: previous.map((grant) => grant.adminId) },
+      after: { adminIds: organizers.map((admin) => admin.id) }
+    });
+    return res.json({ admins: organizers.map(mapAdminResponse) });
+  })
+);
+
+app.get(
+  '/api/admin/settings',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const admin = (req as any).admin as AuthenticatedAdmin;
+    await ensureSystemSettings();
+    const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+    return res.json({
+      settings: redactSettingsForRole(settings, admin.role),
+      emailSendingEnabled: isEmailSendingEnabled(settings)
+    });
+  })
+);
+
+app.get(
+  '/api/admin/system-status',
+  authMiddleware,
+  asyncHandler(async (_req, res) => {
+    const [dbHealthy, migrationsOk, settings] = await Promise.all([
+      checkDatabase(),
+      migrationsUpToDate(),
+      prisma.systemSetting.findUnique({ where: { id: 1 } })
+    ]);
+
+    return res.json({
+      database: dbHealthy ? 'ok' : 'error',
+      migrationsUpToDate: migrationsOk,
+      emailSendingEnabled: isEmailSendingEnabled(settings),
+      smtpTest: summarizeSmtpTest(settings),
+      version: projectVersion
+    });
+  })
+);
+
+app.put(
+  '/api/admin/settings',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const payload = req.body as { settings?: SystemSettingsInput };
+    if (!payload.settings) {
+      return res.status(400).json({ message: 'Missing settings payload' });
+    }
+    await ensureSystemSettings();
+    const before = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+    const {
+      impressumUrl,
+      privacyUrl,
+      supportEmail,
+      cacheVisibilityRadiusDefault,
+      cacheFoundRadiusDefault,
+      dataRetentionDays,
+      maxEmailsPerHourPerAdmin,
+      maxEmailsPerDayPerAdmin,
+      smtpHost,
+      smtpPort,
+      smtpUser,
+      smtpPassword,
+      smtpUseTls,
+      smtpFromAddress,
+      smtpFromName,
+      requireAdminTotp
+    } = payload.settings;
+
+    const data: SystemSettingsInput = {};
+    if (typeof impressumUrl === 'string') data.impressumUrl = impressumUrl;
+    if (typeof privacyUrl === 'string') data.privacyUrl = privacyUrl;
+    if (typeof supportEmail === 'string') data.supportEmail = supportEmail;
+    if (typeof cacheVisibilityRadiusDefault === 'number' && cacheVisibilityRadiusDefault > 0) {
+      data.cacheVisibilityRadiusDefault = cacheVisibilityRadiusDefault;
+    }
+    if (typeof cacheFoundRadiusDefault === 'number' && cacheFoundRadiusDefault > 0) {
+      data.cacheFoundRadiusDefault = cacheFoundRadiusDefault;
+    }
+    if (typeof dataRetentionDays === 'number' && dataRetentionDays > 0) {
+      data.dataRetentionDays = dataRetentionDays;
+    }
+    if (typeof maxEmailsPerHourPerAdmin === 'number' && maxEmailsPerHourPerAdmin > 0) {
+      data.maxEmailsPerHourPerAdmin = maxEmailsPerHourPerAdmin;
+    }
+    if (typeof maxEmailsPerDayPerAdmin === 'number' && maxEmailsPerDayPerAdmin > 0) {
+      data.maxEmailsPerDayPerAdmin = maxEmailsPerDayPerAdmin;
+    }
+    if (smtpHost !== undefined) data.smtpHost = smtpHost || null;
+    if (smtpPort !== undefined) data.smtpPort = typeof smtpPort === 'number' ? smtpPort : null;
+    if (smtpUser !== undefined) data.smtpUser = smtpUser || null;
+    if (smtpPassword === null) data.smtpPassword = null;
+    else if (typeof smtpPassword === 'string' && smtpPassword) data.smtpPassword = smtpPassword;
+    if (smtpUseTls !== undefined) data.smtpUseTls = Boolean(smtpUseTls);
+    if (smtpFromAddress !== undefined) data.smtpFromAddress = smtpFromAddress || null;
+    if (smtpFromName !== undefined) data.smtpFromName = smtpFromName || null;
+    if (typeof requireAdminTotp === 'boolean') data.requireAdminTotp = requireAdminTotp;
+
+    const passwordSet = data.smtpPassword !== undefined ? Boolean(data.smtpPassword) : Boolean(before?.smtpPassword);
+    const smtpProvided = data.smtpHost || data.smtpPort || data.smtpUser || data.smtpFromAddress;
+    if (smtpProvided) {
+      if (!data.smtpHost) return res.status(400).json({ message: 'SMTP-Host erforderlich' });
+      if (!data.smtpPort) return res.status(400).json({ message: 'SMTP-Port erforderlich' });
+      if (!data.smtpFromAddress)
+        return res.status(400).json({ message: 'SMTP Absenderadresse erforderlich' });
+      if (!data.smtpUser) return res.status(400).json({ message: 'SMTP-Benutzer erforderlich' });
+      if (!passwordSet) return res.status(400).json({ message: 'SMTP-Passwort erforderlich' });
+    }
+
+    const smtpChanged = SMTP_SETTING_KEYS.some((key) =>
+      key === 'smtpPassword'
+        ? data.smtpPassword !== undefined && data.smtpPassword !== decryptSecret(before?.smtpPassword ?? null)
+        : data[key] !== undefined && data[key] !== before?.[key]
+    );
+    if (data.smtpPassword) data.smtpPassword = encryptSecret(data.smtpPassword);
+    const updated = await prisma.systemSetting.update({
+      where: { id: 1 },
+      data: smtpChanged
+        ? { ...data, smtpLastTestAt: null, smtpLastTestOk: null, smtpLastTestResult: Prisma.DbNull }
+        : data
+    });
+    await recordAudit(req, {
+      action: 'settings.updated',
+      entityType: 'setting',
+      entityId: '1',
+      before,
+      after: updated
+    });
+
+    return res.json({ settings: mapSettingsResponse(updated), emailSendingEnabled: isEmailSendingEnabled(updated) });
+  })
+);
+
+app.post(
+  '/api/admin/settings/smtp-test',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const admin = (req as any).admin as AuthenticatedAdmin;
+    const { sendTestEmail } = (req.body ?? {}) as { sendTestEmail?: boolean };
+    await ensureSystemSettings();
+    const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+    const diagnostics = await runSmtpDiagnostics(settings, {
+      sendTestTo: sendTestEmail ? admin.email : null
+    });
+    await prisma.systemSetting.update({
+      where: { id: 1 },
+      data: {
+        smtpLastTestAt: new Date(diagnostics.checkedAt),
+        smtpLastTestOk: diagnostics.ok,
+        smtpLastTestResult: diagnostics as unknown as Prisma.InputJsonValue
+      }
+    });
+    await recordAudit(req, {
+      action: 'settings.smtp_tested',
+      entityType: 'setting',
+      entityId: '1',
+      after: {
+        ok: diagnostics.ok,
+        testEmail: diagnostics.testEmail.status,
+        error: diagnostics.error
+      }
+    });
+    return res.json({ diagnostics });
+  })
+);
+
+app.get(
+  '/api/admin/events',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const admin = (req as any).admin as AuthenticatedAdmin;
+    const events = await prisma.event.findMany({
+      where: accessibleEventsFilter(admin),
+      include: {
+        caches: { include: { finds: true, prerequisites: { select: { id: true } } } },
+        invitations: true,
+        emailTemplates: true
+      },
+      orderBy: { startsAt: 'asc' }
+    });
+    return res.json({ events: events.map(mapEventResponse) });
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/dashboard',
+  authMiddleware,
+  requireEventAccess('view'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const event = await prisma.event.findUnique({
+      where: { id },
+      include: { caches: true }
+    });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    const [stats, recentFinds, finds] = await Promise.all([
+      computeDashboardStats(id),
+      prisma.cacheFind.findMany({
+        where: { cache: { eventId: id } },
+        include: { cache: { select: { clue: true } } },
+        orderBy: { foundAt: 'desc' },
+        take: RECENT_FINDS_LIMIT
+      }),
+      prisma.cacheFind.findMany({
+        where: { cache: { eventId: id } },
+        select: { id: true, cacheId: true, playerId: true, foundAt: true }
+      })
+    ]);
+    const scores = scoreFinds(event, event.caches, finds);
+    const pointsByCache = sumPoints(scores, 'cacheId');
+    const teams = event.teamsEnabled ? await buildTeamStandings(event) : null;
 
     return res.json({
       dashboard: {
@@ -401,20 +1684,240 @@ app.get(
           latitude: cache.latitude,
           longitude: cache.longitude,
           found: cache.foundByAny,
-          foundAt: cache.foundAt?.toISOString() ?? null
+          foundAt: cache.foundAt?.toISOString() ?? null,
+          points: cache.points ?? event.basePoints,
+          difficulty: cache.difficulty,
+          finderCount: scores.filter((score) => score.cacheId === cache.id).length,
+          pointsAwarded: pointsByCache.get(cache.id) ?? 0
         })),
-        playerCount: event.players.length,
-        activePlayerCount,
-        foundCount,
-        completionPercent
+        ...stats,
+        totalPointsAwarded: scores.reduce((total, score) => total + score.points, 0),
+        teams,
+        activePlayerWindowMinutes: getActivePlayerWindowMs() / 60000,
+        recentFinds: recentFinds.map((find) => mapLiveFind(find, find.cache.clue))
       }
     });
   })
 );
 
+app.get(
+  '/api/admin/events/:id/leaderboard',
+  authMiddleware,
+  requireEventAccess('view'),
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({ where: { id: req.params.id } });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    return res.json({
+      leaderboard: {
+        ...(await buildLeaderboard(event)),
+        teams: event.teamsEnabled ? await buildTeamStandings(event, { until: event.leaderboardFrozenAt }) : null,
+        enabled: event.leaderboardEnabled
+      }
+    });
+  })
+);
+
+app.put(
+  '/api/admin/events/:id/leaderboard',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { enabled, frozen } = req.body as LeaderboardSettingsPayload;
+    if (
+      (enabled !== undefined && typeof enabled !== 'boolean') ||
+      (frozen !== undefined && typeof frozen !== 'boolean')
+    ) {
+      return res.status(400).json({ message: 'enabled und frozen müssen boolesch sein' });
+    }
+    const existing = await prisma.event.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    const event = await prisma.event.update({
+      where: { id },
+      data: {
+        leaderboardEnabled: enabled,
+        leaderboardFrozenAt:
+          frozen === undefined ? undefined : frozen ? (existing.leaderboardFrozenAt ?? new Date()) : null
+      }
+    });
+    await recordAudit(req, {
+      action: 'event.leaderboard_updated',
+      entityType: 'event',
+      entityId: id,
+      eventId: id,
+      before: { leaderboardEnabled: existing.leaderboardEnabled, leaderboardFrozenAt: existing.leaderboardFrozenAt },
+      after: { leaderboardEnabled: event.leaderboardEnabled, leaderboardFrozenAt: event.leaderboardFrozenAt }
+    });
+    return res.json({
+      leaderboardEnabled: event.leaderboardEnabled,
+      leaderboardFrozenAt: event.leaderboardFrozenAt?.toISOString() ?? null
+    });
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/teams',
+  authMiddleware,
+  requireEventAccess('view'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const [teams, unassignedPlayers] = await Promise.all([
+      prisma.team.findMany({
+        where: { eventId: id },
+        include: { players: { select: { id: true, nickname: true } } },
+        orderBy: { name: 'asc' }
+      }),
+      prisma.player.findMany({
+        where: { eventId: id, teamId: null },
+        select: { id: true, nickname: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+    return res.json({
+      teams: teams.map((team) => ({
+        id: team.id,
+        name: team.name,
+        joinCode: team.joinCode,
+        createdAt: team.createdAt.toISOString(),
+        members: team.players.map(mapTeamMember)
+      })),
+      unassignedPlayers: unassignedPlayers.map(mapTeamMember)
+    });
+  })
+);
+
+app.post(
+  '/api/admin/events/:id/teams',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    let name: string;
+    try {
+      name = validateTeamName((req.body as TeamPayload).name);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+    if ((await prisma.team.count({ where: { eventId: id } })) >= MAX_TEAMS_PER_EVENT) {
+      return res.status(400).json({ message: `Maximal ${MAX_TEAMS_PER_EVENT} Teams pro Event` });
+    }
+    if (await isTeamNameTaken(id, name)) {
+      return res.status(409).json({ message: 'Ein Team mit diesem Namen existiert bereits.' });
+    }
+    const team = await prisma.team.create({ data: { eventId: id, name, joinCode: generateTeamCode() } });
+    await recordAudit(req, {
+      action: 'team.created',
+      entityType: 'team',
+      entityId: team.id,
+      eventId: id,
+      after: team
+    });
+    return res.status(201).json({ team: { ...team, members: [] } });
+  })
+);
+
+app.put(
+  '/api/admin/events/:eventId/teams/:teamId',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, teamId } = req.params;
+    const body = req.body as TeamPayload;
+    const existing = await prisma.team.findFirst({ where: { id: teamId, eventId } });
+    if (!existing) {
+      return res.status(404).json({ message: 'Team nicht gefunden' });
+    }
+    let name: string | undefined;
+    try {
+      name = body.name !== undefined ? validateTeamName(body.name) : undefined;
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+    if (name && (await isTeamNameTaken(eventId, name, teamId))) {
+      return res.status(409).json({ message: 'Ein Team mit diesem Namen existiert bereits.' });
+    }
+    const team = await prisma.team.update({
+      where: { id: teamId },
+      data: { name, joinCode: body.regenerateCode ? generateTeamCode() : undefined }
+    });
+    await recordAudit(req, {
+      action: 'team.updated',
+      entityType: 'team',
+      entityId: teamId,
+      eventId,
+      before: existing,
+      after: team
+    });
+    return res.json({ team });
+  })
+);
+
+app.delete(
+  '/api/admin/events/:eventId/teams/:teamId',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, teamId } = req.params;
+    const existing = await prisma.team.findFirst({ where: { id: teamId, eventId } });
+    if (!existing) {
+      return res.status(404).json({ message: 'Team nicht gefunden' });
+    }
+    await prisma.team.delete({ where: { id: teamId } });
+    await recordAudit(req, {
+      action: 'team.deleted',
+      entityType: 'team',
+      entityId: teamId,
+      eventId,
+      before: existing
+    });
+    return res.status(204).send();
+  })
+);
+
+app.put(
+  '/api/admin/events/:eventId/players/:playerId/team',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, playerId } = req.params;
+    const { teamId } = req.body as { teamId?: string | null };
+    const player = await prisma.player.findFirst({ where: { id: playerId, eventId } });
+    if (!player) {
+      return res.status(404).json({ message: 'Spieler nicht gefunden' });
+    }
+    if (teamId && !(await prisma.team.findFirst({ where: { id: teamId, eventId }, select: { id: true } }))) {
+      return res.status(404).json({ message: 'Team nicht gefunden' });
+    }
+    await prisma.player.update({ where: { id: playerId }, data: { teamId: teamId ?? null } });
+    await recordAudit(req, {
+      action: 'team.member_assigned',
+      entityType: 'team',
+      entityId: teamId ?? player.teamId,
+      eventId,
+      before: { playerId, teamId: player.teamId },
+      after: { playerId, teamId: teamId ?? null }
+    });
+    return res.status(204).send();
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/dashboard/stream',
+  authMiddleware,
+  requireEventAccess('view'),
+  (req, res) => {
+    openLiveStream(req, res, req.params.id, 'admin');
+  }
+);
+
 app.post(
   '/api/admin/events',
   authMiddleware,
+  requireRole(AdminRole.OWNER, AdminRole.ORGANIZER),
   asyncHandler(async (req, res) => {
     const body = req.body as EventPayload;
     try {
@@ -434,25 +1937,46 @@ app.post(
         endsAt: new Date(body.endsAt!),
         visibleRadiusMeters: body.visibleRadiusMeters ?? defaults?.cacheVisibilityRadiusDefault ?? 1000,
         foundRadiusMeters: body.foundRadiusMeters ?? defaults?.cacheFoundRadiusDefault ?? 50,
-        startPoint: body.startPoint ?? null,
-        endPoint: body.endPoint ?? null,
+        ...pickEventGeofence(body),
         invitationEmailSubject: body.invitationEmailSubject ?? null,
         invitationEmailBody: body.invitationEmailBody ?? null,
+        invitationEmailHtml: body.invitationEmailHtml?.trim() || null,
+        emailLocale: body.emailLocale ? normalizeLocale(body.emailLocale) : undefined,
+        emailTemplates: { create: (body.emailTemplates || []).map(mapEmailTemplatePayload) },
         senderEmail: body.senderEmail ?? null,
         senderName: body.senderName ?? null,
         archived: body.archived ?? false,
         archivedAt: body.archived ? new Date() : null,
+        accessMode: body.accessMode ?? EventAccessMode.PUBLIC,
+        leaderboardEnabled: body.leaderboardEnabled ?? true,
+        teamsEnabled: body.teamsEnabled ?? false,
+        oneFindPerTeam: body.oneFindPerTeam ?? false,
+        ...pickScoringRules(body),
         createdByAdminId: (req as any).adminId,
         caches: {
           create: (body.caches || []).map((cache) => ({
             latitude: cache.latitude ?? 0,
             longitude: cache.longitude ?? 0,
             clue: cache.clue ?? '',
-            solution: cache.solution ?? ''
+            solution: cache.solution ?? '',
+            points: cache.points ?? null,
+            difficulty: cache.difficulty ?? undefined,
+            stage: cache.stage ?? null,
+            isFinal: cache.isFinal ?? false,
+            unlockMode: cache.unlockMode ?? undefined,
+            ...pickCacheVerification(cache),
+            qrToken: cache.verificationMode === CacheVerificationMode.QR ? generateQrToken() : null
           }))
         }
       },
-      include: { caches: true }
+      include: { caches: { include: { prerequisites: { select: { id: true } } } }, emailTemplates: true }
+    });
+    await recordAudit(req, {
+      action: 'event.created',
+      entityType: 'event',
+      entityId: event.id,
+      eventId: event.id,
+      after: { ...eventAuditSnapshot(event), cacheCount: event.caches.length }
     });
 
     return res.status(201).json({ event: mapEventResponse(event) });
@@ -462,15 +1986,19 @@ app.post(
 app.put(
   '/api/admin/events/:id',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const body = req.body as EventPayload;
-    const existing = await prisma.event.findUnique({ where: { id } });
+    const existing = await prisma.event.findUnique({
+      where: { id },
+      include: { emailTemplates: true, caches: { select: { latitude: true, longitude: true } } }
+    });
     if (!existing) {
       return res.status(404).json({ message: 'Event not found' });
     }
     try {
-      await validateEventPayload(body);
+      await validateEventPayload(body, existing.caches);
     } catch (err) {
       return res.status(400).json({ message: (err as Error).message });
     }
@@ -488,16 +2016,38 @@ app.put(
         endsAt: new Date(body.endsAt!),
         visibleRadiusMeters: body.visibleRadiusMeters!,
         foundRadiusMeters: body.foundRadiusMeters!,
-        startPoint: body.startPoint ?? null,
-        endPoint: body.endPoint ?? null,
+        ...pickEventGeofence(body),
         invitationEmailSubject: body.invitationEmailSubject ?? null,
         invitationEmailBody: body.invitationEmailBody ?? null,
+        invitationEmailHtml:
+          body.invitationEmailHtml !== undefined ? body.invitationEmailHtml.trim() || null : undefined,
+        emailLocale: body.emailLocale ? normalizeLocale(body.emailLocale) : undefined,
+        emailTemplates: body.emailTemplates
+          ? { deleteMany: {}, create: body.emailTemplates.map(mapEmailTemplatePayload) }
+          : undefined,
         senderEmail: body.senderEmail ?? null,
         senderName: body.senderName ?? null,
         archived: body.archived ?? false,
-        archivedAt
+        archivedAt,
+        accessMode: body.accessMode ?? undefined,
+        leaderboardEnabled: body.leaderboardEnabled ?? undefined,
+        teamsEnabled: body.teamsEnabled ?? undefined,
+        oneFindPerTeam: body.oneFindPerTeam ?? undefined,
+        ...pickScoringRules(body)
       },
-      include: { caches: { include: { finds: true } } }
+      include: {
+        caches: { include: { finds: true, prerequisites: { select: { id: true } } } },
+        emailTemplates: true
+      }
+    });
+    await rescheduleEventJobs(event);
+    await recordAudit(req, {
+      action: 'event.updated',
+      entityType: 'event',
+      entityId: id,
+      eventId: id,
+      before: eventAuditSnapshot(existing),
+      after: eventAuditSnapshot(event)
     });
 
     return res.json({ event: mapEventResponse(event) });
@@ -507,8 +2057,10 @@ app.put(
 app.delete(
   '/api/admin/events/:id',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
+    const existing = await prisma.event.findUnique({ where: { id } });
     await prisma.$transaction([
       prisma.emailLog.deleteMany({ where: { eventId: id } }),
       prisma.cacheFind.deleteMany({ where: { cache: { eventId: id } } }),
@@ -517,6 +2069,13 @@ app.delete(
       prisma.player.deleteMany({ where: { eventId: id } }),
       prisma.event.delete({ where: { id } })
     ]);
+    await recordAudit(req, {
+      action: 'event.deleted',
+      entityType: 'event',
+      entityId: id,
+      eventId: id,
+      before: existing
+    });
     return res.status(204).send();
   })
 );
@@ -524,12 +2083,22 @@ app.delete(
 app.post(
   '/api/admin/events/:id/archive',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
+    const existing = await prisma.event.findUnique({ where: { id } });
     const event = await prisma.event.update({
       where: { id },
       data: { archived: true, archivedAt: new Date() }
     });
+    await recordAudit(req, {
+      action: 'event.archived',
+      entityType: 'event',
+      entityId: id,
+      eventId: id,
+      before: existing,
+      after: event
+    });
     return res.json({ event: mapEventResponse(event) });
   })
 );
@@ -537,19 +2106,30 @@ app.post(
 app.get(
   '/api/admin/events/:id/export',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const event = await prisma.event.findUnique({
       where: { id },
       include: {
-        caches: { include: { finds: true } },
-        invitations: true,
-        players: true
+        caches: { include: { finds: true, prerequisites: { select: { id: true } } } },
+        invitations: { include: { player: true } },
+        players: true,
+        teams: true
       }
     });
     if (!event) {
       return res.status(404).json({ message: 'Event not found' });
     }
+    const scores = scoreFinds(event, event.caches, event.caches.flatMap((cache) => cache.finds));
+    const scoresByFind = new Map(
+      scores.map(({ findId, finderPosition, basePoints, finderBonus, timeBonus, difficulty, points }) => [
+        findId,
+        { finderPosition, basePoints, finderBonus, timeBonus, difficulty, points }
+      ])
+    );
+    const pointsByCache = sumPoints(scores, 'cacheId');
+    const pointsByPlayer = sumPoints(scores, 'playerId');
     const exportPayload = {
       event: {
         id: event.id,
@@ -561,8 +2141,18 @@ app.get(
         foundRadiusMeters: event.foundRadiusMeters,
         archived: event.archived,
         archivedAt: event.archivedAt,
-        startPoint: event.startPoint,
-        endPoint: event.endPoint
+        accessMode: event.accessMode,
+        ...eventGeofence(event),
+        scoring: {
+          basePoints: event.basePoints,
+          firstFinderBonus: event.firstFinderBonus,
+          secondFinderBonus: event.secondFinderBonus,
+          thirdFinderBonus: event.thirdFinderBonus,
+          timeBonusPoints: event.timeBonusPoints,
+          timeBonusMinutes: event.timeBonusMinutes
+        },
+        teamsEnabled: event.teamsEnabled,
+        oneFindPerTeam: event.oneFindPerTeam
       },
       caches: event.caches.map((cache) => ({
         id: cache.id,
@@ -570,12 +2160,29 @@ app.get(
         longitude: cache.longitude,
         clue: cache.clue,
         solution: cache.solution,
+        points: cache.points,
+        difficulty: cache.difficulty,
+        stage: cache.stage,
+        isFinal: cache.isFinal,
+        unlockMode: cache.unlockMode,
+        prerequisiteIds: cache.prerequisites.map((prerequisite) => prerequisite.id),
+        verificationMode: cache.verificationMode,
+        verificationAnswers: cache.verificationAnswers,
+        answerOptions: cache.answerOptions,
         foundByAny: cache.foundByAny,
         foundAt: cache.foundAt,
+        pointsAwarded: pointsByCache.get(cache.id) ?? 0,
         finds: cache.finds.map((find) => ({
           playerId: find.playerId,
+          score: scoresByFind.get(find.id) ?? null,
           nickname: find.nickname,
-          foundAt: find.foundAt
+          foundAt: find.foundAt,
+          latitude: find.latitude,
+          longitude: find.longitude,
+          accuracyMeters: find.accuracyMeters,
+          distanceMeters: find.distanceMeters,
+          positionRecordedAt: find.positionRecordedAt,
+          verificationMethod: find.verificationMethod
         }))
       })),
       invitations: event.invitations.map((invitation) => ({
@@ -585,13 +2192,21 @@ app.get(
         createdAt: invitation.createdAt,
         isActive: invitation.isActive,
         deactivatedAt: invitation.deactivatedAt,
-        usedAt: invitation.usedAt
+        usedAt: invitation.usedAt,
+        playerId: invitation.player?.id ?? null
       })),
       players: event.players.map((player) => ({
         id: player.id,
         nickname: player.nickname,
         createdAt: player.createdAt,
-        lastActiveAt: player.lastActiveAt
+        lastActiveAt: player.lastActiveAt,
+        teamId: player.teamId,
+        points: pointsByPlayer.get(player.id) ?? 0
+      })),
+      teams: event.teams.map((team) => ({
+        id: team.id,
+        name: team.name,
+        createdAt: team.createdAt
       }))
     };
     return res.json({ export: exportPayload });
@@ -601,21 +2216,55 @@ app.get(
 app.post(
   '/api/admin/events/:id/caches',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const body = req.body as CachePayload;
     if (typeof body.latitude !== 'number' || typeof body.longitude !== 'number') {
       return res.status(400).json({ message: 'Latitude and longitude are required' });
     }
+    const prerequisiteIds = [...new Set(body.prerequisiteIds ?? [])];
+    try {
+      validateCacheScoring(body);
+      validateCacheChain(body);
+      validateCacheVerification(body);
+      validatePrerequisiteGraph(await prisma.cache.findMany({ where: { eventId: id }, select: chainCacheSelect }), {
+        id: '',
+        stage: body.stage ?? null,
+        unlockMode: body.unlockMode ?? CacheUnlockMode.ALL,
+        prerequisites: prerequisiteIds.map((prerequisiteId) => ({ id: prerequisiteId }))
+      });
+      assertCachesInPlayArea(await loadPlayArea(id), [{ latitude: body.latitude, longitude: body.longitude }]);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
 
-    const cache = await prisma.cache.create({
-      data: {
-        eventId: id,
-        latitude: body.latitude,
-        longitude: body.longitude,
-        clue: body.clue ?? '',
-        solution: body.solution ?? ''
-      }
+    const cache = mapCacheChain(
+      await prisma.cache.create({
+        data: {
+          eventId: id,
+          latitude: body.latitude,
+          longitude: body.longitude,
+          clue: body.clue ?? '',
+          solution: body.solution ?? '',
+          points: body.points ?? null,
+          difficulty: body.difficulty ?? undefined,
+          stage: body.stage ?? null,
+          isFinal: body.isFinal ?? false,
+          unlockMode: body.unlockMode ?? undefined,
+          ...pickCacheVerification(body),
+          qrToken: body.verificationMode === CacheVerificationMode.QR ? generateQrToken() : null,
+          prerequisites: { connect: prerequisiteIds.map((prerequisiteId) => ({ id: prerequisiteId })) }
+        },
+        include: { prerequisites: { select: { id: true } } }
+      })
+    );
+    await recordAudit(req, {
+      action: 'cache.created',
+      entityType: 'cache',
+      entityId: cache.id,
+      eventId: id,
+      after: cache
     });
 
     return res.status(201).json({ cache });
@@ -625,17 +2274,68 @@ app.post(
 app.put(
   '/api/admin/events/:eventId/caches/:cacheId',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
-    const { cacheId } = req.params;
+    const { eventId, cacheId } = req.params;
+    const existing = await prisma.cache.findFirst({
+      where: { id: cacheId, eventId },
+      include: { prerequisites: { select: { id: true } } }
+    });
+    if (!existing) {
+      return res.status(404).json({ message: 'Cache not found' });
+    }
     const body = req.body as CachePayload;
-    const cache = await prisma.cache.update({
-      where: { id: cacheId },
-      data: {
-        latitude: body.latitude ?? undefined,
-        longitude: body.longitude ?? undefined,
-        clue: body.clue ?? undefined,
-        solution: body.solution ?? undefined
-      }
+    const prerequisiteIds = body.prerequisiteIds && [...new Set(body.prerequisiteIds)];
+    try {
+      validateCacheScoring(body);
+      validateCacheChain(body);
+      validateCacheVerification(body, existing);
+      validatePrerequisiteGraph(await prisma.cache.findMany({ where: { eventId }, select: chainCacheSelect }), {
+        id: cacheId,
+        stage: body.stage !== undefined ? body.stage : existing.stage,
+        unlockMode: body.unlockMode ?? existing.unlockMode,
+        prerequisites: prerequisiteIds
+          ? prerequisiteIds.map((prerequisiteId) => ({ id: prerequisiteId }))
+          : existing.prerequisites
+      });
+      assertCachesInPlayArea(await loadPlayArea(eventId), [
+        { latitude: body.latitude ?? existing.latitude, longitude: body.longitude ?? existing.longitude }
+      ]);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+    const needsQrToken =
+      (body.verificationMode ?? existing.verificationMode) === CacheVerificationMode.QR &&
+      (!existing.qrToken || body.regenerateQrToken);
+    const cache = mapCacheChain(
+      await prisma.cache.update({
+        where: { id: cacheId },
+        data: {
+          latitude: body.latitude ?? undefined,
+          longitude: body.longitude ?? undefined,
+          clue: body.clue ?? undefined,
+          solution: body.solution ?? undefined,
+          points: body.points,
+          difficulty: body.difficulty ?? undefined,
+          stage: body.stage,
+          isFinal: body.isFinal ?? undefined,
+          unlockMode: body.unlockMode ?? undefined,
+          ...pickCacheVerification(body),
+          qrToken: needsQrToken ? generateQrToken() : undefined,
+          prerequisites: prerequisiteIds
+            ? { set: prerequisiteIds.map((prerequisiteId) => ({ id: prerequisiteId })) }
+            : undefined
+        },
+        include: { prerequisites: { select: { id: true } } }
+      })
+    );
+    await recordAudit(req, {
+      action: 'cache.updated',
+      entityType: 'cache',
+      entityId: cacheId,
+      eventId,
+      before: mapCacheChain(existing),
+      after: cache
     });
     return res.json({ cache });
   })
@@ -644,13 +2344,26 @@ app.put(
 app.post(
   '/api/admin/events/:eventId/caches/:cacheId/reset',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
-    const { cacheId } = req.params;
+    const { eventId, cacheId } = req.params;
+    const existing = await prisma.cache.findFirst({ where: { id: cacheId, eventId } });
+    if (!existing) {
+      return res.status(404).json({ message: 'Cache not found' });
+    }
     await prisma.cacheFind.deleteMany({ where: { cacheId } });
     const cache = await prisma.cache.update({
       where: { id: cacheId },
       data: { foundByAny: false, foundAt: null }
     });
+    await recordAudit(req, {
+      action: 'cache.reset',
+      entityType: 'cache',
+      entityId: cacheId,
+      eventId,
+      before: existing,
+      after: cache
+    });
     return res.json({ cache });
   })
 );
@@ -658,17 +2371,126 @@ app.post(
 app.delete(
   '/api/admin/events/:eventId/caches/:cacheId',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
-    const { cacheId } = req.params;
+    const { eventId, cacheId } = req.params;
+    const existing = await prisma.cache.findFirst({ where: { id: cacheId, eventId } });
+    if (!existing) {
+      return res.status(404).json({ message: 'Cache not found' });
+    }
     await prisma.cacheFind.deleteMany({ where: { cacheId } });
     await prisma.cache.delete({ where: { id: cacheId } });
+    await recordAudit(req, {
+      action: 'cache.deleted',
+      entityType: 'cache',
+      entityId: cacheId,
+      eventId,
+      before: existing
+    });
     return res.status(204).send();
   })
 );
 
+app.get(
+  '/api/admin/events/:eventId/caches/:cacheId/qr.:format',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, cacheId, format } = req.params;
+    if (!isQrFormat(format)) {
+      return res.status(400).json({ message: 'Format muss svg oder png sein' });
+    }
+    const cache = await prisma.cache.findFirst({ where: { id: cacheId, eventId } });
+    if (!cache) {
+      return res.status(404).json({ message: 'Cache not found' });
+    }
+    if (cache.verificationMode !== CacheVerificationMode.QR || !cache.qrToken) {
+      return res.status(400).json({ message: 'Dieser Cache verwendet keinen QR-Code als Fund-Nachweis' });
+    }
+    const qr = await renderQrCode(cacheVerificationLink({ ...cache, qrToken: cache.qrToken }), format);
+    res.set('Content-Disposition', `inline; filename="cache-${cache.id}.${format}"`);
+    return res.type(qr.contentType).send(qr.body);
+  })
+);
+
+app.get(
+  '/api/admin/events/:eventId/invitations/:invitationId/qr.:format',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, invitationId, format } = req.params;
+    if (!isQrFormat(format)) {
+      return res.status(400).json({ message: 'Format muss svg oder png sein' });
+    }
+    const invitation = await prisma.invitation.findFirst({ where: { id: invitationId, eventId } });
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+    const qr = await renderQrCode(invitationLink(invitation.token), format);
+    res.set('Content-Disposition', `inline; filename="einladung-${invitation.id}.${format}"`);
+    return res.type(qr.contentType).send(qr.body);
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/print/cache-tags.pdf',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({
+      where: { id: req.params.id },
+      include: { caches: { orderBy: { createdAt: 'asc' } } }
+    });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    const pdf = await buildCacheTagsPdf(
+      event,
+      event.caches.map((cache, index) => {
+        const scanToFind = cache.verificationMode === CacheVerificationMode.QR && Boolean(cache.qrToken);
+        return {
+          number: index + 1,
+          clue: cache.clue,
+          stage: cache.stage,
+          isFinal: cache.isFinal,
+          code: cache.verificationMode === CacheVerificationMode.CODE ? cache.verificationAnswers[0] ?? null : null,
+          qrUrl: scanToFind
+            ? cacheVerificationLink({ ...cache, qrToken: cache.qrToken! })
+            : publicEventLink(event.id),
+          scanToFind
+        };
+      })
+    );
+    res.set('Content-Disposition', `attachment; filename="cache-etiketten-${event.id}.pdf"`);
+    return res.type('application/pdf').send(pdf);
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/print/invitations.pdf',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({
+      where: { id: req.params.id },
+      include: { invitations: { where: { isActive: true, usedAt: null }, orderBy: { createdAt: 'asc' } } }
+    });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    const pdf = await buildInvitationHandoutPdf(
+      event,
+      event.invitations.map((invitation) => ({ name: invitation.name, link: invitationLink(invitation.token) }))
+    );
+    res.set('Content-Disposition', `attachment; filename="einladungen-${event.id}.pdf"`);
+    return res.type('application/pdf').send(pdf);
+  })
+);
+
 app.post(
   '/api/admin/events/:id/invitations',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const body = req.body as InvitationPayload;
@@ -680,6 +2502,10 @@ app.post(
     if (body.deliveryMethod === 'EMAIL' && !body.email) {
       return res.status(400).json({ message: 'Email is required for email invitations' });
     }
+    const locale = body.locale?.trim() ? normalizeLocale(body.locale) : null;
+    if (locale && !isValidLocale(locale)) {
+      return res.status(400).json({ message: 'Ungültige Sprache' });
+    }
     const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
     const emailEnabled = isEmailSendingEnabled(settings);
     if (body.deliveryMethod === 'EMAIL' && !emailEnabled) {
@@ -709,17 +2535,24 @@ app.post(
         eventId: id,
         token,
         deliveryMethod: body.deliveryMethod,
-        email: body.email ?? null
+        email: body.email ?? null,
+        name: body.name?.trim() || null,
+        locale,
+        unsubscribeToken: body.email ? generateUnsubscribeToken() : null
       }
     });
 
     const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
     const link = `${baseUrl}/join/${token}`;
+    let emailStatus: string | undefined;
     if (body.deliveryMethod === 'EMAIL' && body.email) {
       const result = await sendInvitationEmail({
         to: body.email,
         link,
         event,
+        recipientName: invitation.name,
+        locale: invitation.locale,
+        ...buildUnsubscribeLinks(baseUrl, invitation.unsubscribeToken!),
         invitationId: invitation.id,
         adminId,
         skipRateCheck: true
@@ -728,71 +2561,618 @@ app.post(
         await prisma.invitation.delete({ where: { id: invitation.id } });
         return res.status(429).json({ message: result.message });
       }
-      if (result.status === 'error') {
-        return res.status(500).json({ message: result.message });
+      emailStatus = result.status;
+    }
+    await recordAudit(req, {
+      action: 'invitation.created',
+      entityType: 'invitation',
+      entityId: invitation.id,
+      eventId: id,
+      after: invitation
+    });
+    return res.status(201).json({ invitation, link, emailStatus });
+  })
+);
+
+app.post(
+  '/api/admin/events/:id/invitations/bulk',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const body = req.body as BulkInvitationPayload;
+    const adminId = (req as any).adminId as string;
+    const deliveryMethod = body.deliveryMethod ?? 'LINK';
+    if (deliveryMethod !== 'LINK' && deliveryMethod !== 'EMAIL') {
+      return res.status(400).json({ message: 'Invalid delivery method' });
+    }
+    const event = await prisma.event.findUnique({ where: { id } });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    const inputs = typeof body.csv === 'string' ? parseRecipientCsv(body.csv) : body.recipients;
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      return res.status(400).json({ message: 'Keine Empfänger angegeben' });
+    }
+    if (inputs.length > MAX_BULK_RECIPIENTS) {
+      return res
+        .status(400)
+        .json({ message: `Maximal ${MAX_BULK_RECIPIENTS} Empfänger pro Import` });
+    }
+    if (deliveryMethod === 'EMAIL') {
+      const settings = await prisma.systemSetting.findUnique({ where: { id: 1 } });
+      if (!isEmailSendingEnabled(settings)) {
+        return res
+          .status(400)
+          .json({ message: 'E-Mail-Versand ist nicht konfiguriert. Bitte SMTP einrichten.' });
+      }
+    }
+
+    const existing = await prisma.invitation.findMany({
+      where: { eventId: id, email: { not: null } },
+      select: { email: true }
+    });
+    const seen = new Set(existing.map((invitation) => invitation.email!.toLowerCase()));
+    const results: BulkInvitationResult[] = normalizeRecipients(inputs).map((recipient) => {
+      const { error, ...fields } = recipient;
+      if (error) {
+        return { ...fields, status: 'invalid', message: error };
+      }
+      if (seen.has(recipient.email)) {
+        return { ...fields, status: 'duplicate', message: 'Bereits eingeladen oder doppelt in der Liste' };
+      }
+      seen.add(recipient.email);
+      return { ...fields, status: 'created' };
+    });
+    const accepted = results.filter((result) => result.status === 'created');
+
+    if (deliveryMethod === 'EMAIL' && accepted.length > 0) {
+      const remaining = await getRemainingEmailQuota(adminId);
+      if (accepted.length > remaining) {
+        return res.status(429).json({
+          message: `Rate-Limit: Aktuell sind nur noch ${remaining} E-Mails möglich, der Import enthält ${accepted.length}.`,
+          remaining
+        });
+      }
+    }
+
+    const invitations = await prisma.$transaction(
+      accepted.map((result) =>
+        prisma.invitation.create({
+          data: {
+            eventId: id,
+            token: crypto.randomBytes(24).toString('hex'),
+            deliveryMethod,
+            email: result.email,
+            name: result.name,
+            locale: result.locale,
+            unsubscribeToken: generateUnsubscribeToken()
+          }
+        })
+      )
+    );
+
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+    for (const [index, invitation] of invitations.entries()) {
+      const result = accepted[index];
+      result.invitationId = invitation.id;
+      result.link = `${baseUrl}/join/${invitation.token}`;
+      if (deliveryMethod === 'EMAIL') {
+        const sent = await sendInvitationEmail({
+          to: invitation.email!,
+          link: result.link,
+          event,
+          recipientName: invitation.name,
+          locale: invitation.locale,
+          ...buildUnsubscribeLinks(baseUrl, invitation.unsubscribeToken!),
+          invitationId: invitation.id,
+          adminId,
+          skipRateCheck: true
+        });
+        result.emailStatus = sent.status;
+      }
+    }
+
+    const summary = {
+      created: accepted.length,
+      duplicates: results.filter((result) => result.status === 'duplicate').length,
+      invalid: results.filter((result) => result.status === 'invalid').length
+    };
+    if (accepted.length > 0) {
+      await recordAudit(req, {
+        action: 'invitation.bulk_created',
+        entityType: 'invitation',
+        eventId: id,
+        after: { deliveryMethod, ...summary }
+      });
+    }
+    return res.status(accepted.length > 0 ? 201 : 200).json({ results, summary });
+  })
+);
+
+app.put(
+  '/api/admin/events/:eventId/invitations/:invitationId',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, invitationId } = req.params;
+    const { isActive } = req.body as { isActive?: boolean };
+    if (typeof isActive !== 'boolean') {
+      return res.status(400).json({ message: 'isActive muss gesetzt werden' });
+    }
+    const invitation = await prisma.invitation.findFirst({ where: { id: invitationId, eventId } });
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+    const updated = await prisma.invitation.update({
+      where: { id: invitationId },
+      data: {
+        isActive: Boolean(isActive),
+        deactivatedAt: isActive ? null : new Date()
+      }
+    });
+    await recordAudit(req, {
+      action: isActive ? 'invitation.activated' : 'invitation.deactivated',
+      entityType: 'invitation',
+      entityId: invitationId,
+      eventId,
+      before: invitation,
+      after: updated
+    });
+    return res.json({
+      invitation: {
+        ...updated,
+        createdAt: updated.createdAt.toISOString(),
+        usedAt: updated.usedAt?.toISOString() ?? null,
+        deactivatedAt: updated.deactivatedAt?.toISOString() ?? null
       }
+    });
+  })
+);
+
+app.post(
+  '/api/admin/events/:id/email-preview',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const body = (req.body ?? {}) as EmailPreviewPayload;
+    const event = await prisma.event.findUnique({ where: { id } });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    const invitation = body.invitationId
+      ? await prisma.invitation.findFirst({ where: { id: body.invitationId, eventId: id } })
+      : null;
+    if (body.invitationId && !invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+    const locale = body.locale?.trim() ? normalizeLocale(body.locale) : invitation?.locale ?? null;
+    if (locale && !isValidLocale(locale)) {
+      return res.status(400).json({ message: 'Ungültige Sprache' });
+    }
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+    const template = body.template
+      ? {
+          subject: body.template.subject ?? null,
+          htmlBody: body.template.htmlBody?.trim() || null,
+          textBody: body.template.textBody?.trim() || null
+        }
+      : undefined;
+    const preview = await previewInvitationEmail({
+      link: `${baseUrl}/join/${invitation?.token ?? 'beispiel-token'}`,
+      event,
+      recipientName: invitation ? invitation.name : body.recipientName?.trim() || null,
+      locale,
+      unsubscribeLink: `${baseUrl}/unsubscribe/${invitation?.unsubscribeToken ?? 'beispiel-token'}`,
+      template
+    });
+    return res.json({ preview });
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/email-logs',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const status = req.query.status as string | undefined;
+    const where: any = { eventId: id };
+    if (status && Object.values(PrismaEmailStatus).includes(status as PrismaEmailStatus)) {
+      where.status = status as PrismaEmailStatus;
+    }
+    const logs = await prisma.emailLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: { attempts: { orderBy: { attemptedAt: 'asc' } } }
+    });
+    return res.json({
+      logs: logs.map(({ body: _body, ...log }) => ({
+        ...log,
+        createdAt: log.createdAt.toISOString(),
+        nextAttemptAt: log.nextAttemptAt?.toISOString() ?? null,
+        lockedAt: log.lockedAt?.toISOString() ?? null,
+        sentAt: log.sentAt?.toISOString() ?? null,
+        bouncedAt: log.bouncedAt?.toISOString() ?? null,
+        attempts: log.attempts.map((attempt) => ({
+          ...attempt,
+          attemptedAt: attempt.attemptedAt.toISOString()
+        }))
+      }))
+    });
+  })
+);
+
+app.post(
+  '/api/admin/events/:eventId/email-logs/:logId/retry',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, logId } = req.params;
+    const log = await prisma.emailLog.findFirst({
+      where: { id: logId, eventId },
+      include: { invitation: true, event: true }
+    });
+    if (!log || !log.invitation || !log.event) {
+      return res.status(404).json({ message: 'Einladungs-E-Mail nicht gefunden' });
+    }
+    if (
+      log.status !== PrismaEmailStatus.FAILED &&
+      log.status !== PrismaEmailStatus.DEAD &&
+      log.status !== PrismaEmailStatus.DISABLED
+    ) {
+      return res.status(409).json({ message: 'Nur fehlgeschlagene E-Mails können erneut gesendet werden' });
+    }
+    if (!log.invitation.isActive) {
+      return res.status(409).json({ message: 'Die Einladung ist deaktiviert' });
+    }
+    if (await isEmailSuppressed(log.recipient)) {
+      return res
+        .status(409)
+        .json({ message: 'Der Empfänger hat sich abgemeldet oder ist unzustellbar' });
+    }
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+    const unsubscribeToken = await ensureUnsubscribeToken(log.invitation);
+    const content = await renderInvitationEmail({
+      link: `${baseUrl}/join/${log.invitation.token}`,
+      event: log.event,
+      recipientName: log.invitation.name,
+      locale: log.invitation.locale,
+      ...buildUnsubscribeLinks(baseUrl, unsubscribeToken)
+    });
+    if (!content) {
+      return res
+        .status(400)
+        .json({ message: 'E-Mail-Versand ist nicht konfiguriert. Bitte SMTP einrichten.' });
+    }
+    if (!(await requeueEmail(log.id, content))) {
+      return res.status(409).json({ message: 'E-Mail wird bereits versendet' });
+    }
+    await recordAudit(req, {
+      action: 'email.retried',
+      entityType: 'invitation',
+      entityId: log.invitation.id,
+      eventId,
+      before: { emailLogId: log.id, status: log.status, attemptCount: log.attemptCount }
+    });
+    return res.status(202).json({ message: 'E-Mail wurde erneut in die Warteschlange gestellt' });
+  })
+);
+
+app.get(
+  '/api/admin/events/:id/email-jobs',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const jobs = await prisma.eventEmailJob.findMany({
+      where: { eventId: id },
+      orderBy: { scheduledAt: 'asc' },
+      include: { createdBy: { select: { email: true } } }
+    });
+    const mapped = [];
+    for (const job of jobs) {
+      const pending =
+        job.status === EmailJobStatus.SCHEDULED || job.status === EmailJobStatus.RUNNING
+          ? await prisma.invitation.count({ where: getJobRecipientFilter(job) })
+          : null;
+      mapped.push(mapEmailJobResponse(job, pending));
+    }
+    return res.json({ jobs: mapped });
+  })
+);
+
+app.post(
+  '/api/admin/events/:id/email-jobs',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const body = (req.body ?? {}) as EmailJobPayload;
+    const adminId = (req as any).adminId as string;
+    const event = await prisma.event.findUnique({ where: { id } });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    try {
+      validateEmailJobPayload(body);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
     }
-    return res.status(201).json({ invitation, link });
+    if (body.kind !== EmailJobKind.RESULTS && event.startsAt <= new Date()) {
+      return res.status(400).json({ message: 'Das Event hat bereits begonnen' });
+    }
+    const count = await prisma.eventEmailJob.count({
+      where: { eventId: id, status: { in: [EmailJobStatus.SCHEDULED, EmailJobStatus.RUNNING] } }
+    });
+    if (count >= MAX_EMAIL_JOBS_PER_EVENT) {
+      return res
+        .status(400)
+        .json({ message: `Maximal ${MAX_EMAIL_JOBS_PER_EVENT} geplante E-Mails pro Event` });
+    }
+    const data = mapEmailJobPayload(body);
+    const job = await prisma.eventEmailJob.create({
+      data: {
+        ...data,
+        eventId: id,
+        createdByAdminId: adminId,
+        scheduledAt: computeJobSchedule(data.kind, data.offsetMinutes, event)
+      }
+    });
+    await recordAudit(req, {
+      action: 'email_job.created',
+      entityType: 'event',
+      entityId: job.id,
+      eventId: id,
+      after: job
+    });
+    return res.status(201).json({ job: mapEmailJobResponse(job, null) });
   })
 );
 
 app.put(
-  '/api/admin/events/:eventId/invitations/:invitationId',
+  '/api/admin/events/:eventId/email-jobs/:jobId',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
-    const { eventId, invitationId } = req.params;
-    const { isActive } = req.body as { isActive?: boolean };
-    if (typeof isActive !== 'boolean') {
-      return res.status(400).json({ message: 'isActive muss gesetzt werden' });
+    const { eventId, jobId } = req.params;
+    const body = (req.body ?? {}) as EmailJobPayload;
+    const job = await prisma.eventEmailJob.findFirst({ where: { id: jobId, eventId }, include: { event: true } });
+    if (!job) {
+      return res.status(404).json({ message: 'Geplante E-Mail nicht gefunden' });
     }
-    const invitation = await prisma.invitation.findFirst({ where: { id: invitationId, eventId } });
-    if (!invitation) {
-      return res.status(404).json({ message: 'Invitation not found' });
+    if (job.status !== EmailJobStatus.SCHEDULED) {
+      return res.status(409).json({ message: 'Nur noch nicht gestartete E-Mails können bearbeitet werden' });
     }
-    const updated = await prisma.invitation.update({
-      where: { id: invitationId },
-      data: {
-        isActive: Boolean(isActive),
-        deactivatedAt: isActive ? null : new Date()
-      }
+    try {
+      validateEmailJobPayload(body);
+    } catch (err) {
+      return res.status(400).json({ message: (err as Error).message });
+    }
+    const data = mapEmailJobPayload(body);
+    const { event, ...before } = job;
+    const updated = await prisma.eventEmailJob.update({
+      where: { id: jobId },
+      data: { ...data, scheduledAt: computeJobSchedule(data.kind, data.offsetMinutes, event) }
     });
-    return res.json({
-      invitation: {
-        ...updated,
-        createdAt: updated.createdAt.toISOString(),
-        usedAt: updated.usedAt?.toISOString() ?? null,
-        deactivatedAt: updated.deactivatedAt?.toISOString() ?? null
-      }
+    await recordAudit(req, {
+      action: 'email_job.updated',
+      entityType: 'event',
+      entityId: jobId,
+      eventId,
+      before,
+      after: updated
     });
+    return res.json({ job: mapEmailJobResponse(updated, null) });
   })
 );
 
-app.get(
-  '/api/admin/events/:id/email-logs',
+app.post(
+  '/api/admin/events/:eventId/email-jobs/:jobId/send-now',
   authMiddleware,
+  requireEventAccess('manage'),
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const status = req.query.status as string | undefined;
-    const where: any = { eventId: id };
-    if (status && Object.values(PrismaEmailStatus).includes(status as PrismaEmailStatus)) {
-      where.status = status as PrismaEmailStatus;
+    const { eventId, jobId } = req.params;
+    const updated = await prisma.eventEmailJob.updateMany({
+      where: { id: jobId, eventId, status: EmailJobStatus.SCHEDULED },
+      data: { scheduledAt: new Date() }
+    });
+    if (updated.count === 0) {
+      return res.status(409).json({ message: 'Nur geplante E-Mails können sofort gesendet werden' });
     }
-    const logs = await prisma.emailLog.findMany({
-      where,
+    await recordAudit(req, {
+      action: 'email_job.sent_now',
+      entityType: 'event',
+      entityId: jobId,
+      eventId
+    });
+    return res.status(202).json({ message: 'Versand wird gestartet' });
+  })
+);
+
+app.delete(
+  '/api/admin/events/:eventId/email-jobs/:jobId',
+  authMiddleware,
+  requireEventAccess('manage'),
+  asyncHandler(async (req, res) => {
+    const { eventId, jobId } = req.params;
+    const updated = await prisma.eventEmailJob.updateMany({
+      where: {
+        id: jobId,
+        eventId,
+        status: { in: [EmailJobStatus.SCHEDULED, EmailJobStatus.RUNNING] }
+      },
+      data: { status: EmailJobStatus.CANCELLED, completedAt: new Date() }
+    });
+    if (updated.count === 0) {
+      return res.status(409).json({ message: 'Die E-Mail ist bereits abgeschlossen' });
+    }
+    await recordAudit(req, {
+      action: 'email_job.cancelled',
+      entityType: 'event',
+      entityId: jobId,
+      eventId
+    });
+    return res.status(204).send();
+  })
+);
+
+app.get(
+  '/api/admin/email-suppressions',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const search = typeof req.query.search === 'string' ? req.query.search.trim().toLowerCase() : '';
+    const suppressions = await prisma.emailSuppression.findMany({
+      where: search ? { email: { contains: search } } : undefined,
       orderBy: { createdAt: 'desc' },
-      take: 100
+      take: 200
     });
     return res.json({
-      logs: logs.map((log) => ({
-        ...log,
-        createdAt: log.createdAt.toISOString()
+      suppressions: suppressions.map((suppression) => ({
+        ...suppression,
+        createdAt: suppression.createdAt.toISOString()
       }))
     });
   })
 );
 
+app.delete(
+  '/api/admin/email-suppressions/:id',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const suppression = await prisma.emailSuppression.findUnique({ where: { id } });
+    if (!suppression) {
+      return res.status(404).json({ message: 'Sperre nicht gefunden' });
+    }
+    await prisma.emailSuppression.delete({ where: { id } });
+    await recordAudit(req, {
+      action: 'email.suppression_removed',
+      entityType: 'setting',
+      entityId: id,
+      before: suppression
+    });
+    return res.status(204).send();
+  })
+);
+
+app.get(
+  '/api/admin/audit-log',
+  authMiddleware,
+  requireRole(AdminRole.OWNER),
+  asyncHandler(async (req, res) => {
+    const { adminId, action, entityType, entityId, eventId, from, to } = req.query as Record<
+      string,
+      string | undefined
+    >;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    const where: any = {};
+    if (adminId) where.adminId = adminId;
+    if (action) where.action = action;
+    if (entityType) where.entityType = entityType;
+    if (entityId) where.entityId = entityId;
+    if (eventId) where.eventId = eventId;
+    if (from || to) {
+      const createdAt: { gte?: Date; lte?: Date } = {};
+      if (from) createdAt.gte = new Date(from);
+      if (to) createdAt.lte = new Date(to);
+      if (Object.values(createdAt).some((date) => Number.isNaN(date.getTime()))) {
+        return res.status(400).json({ message: 'Invalid date format' });
+      }
+      where.createdAt = createdAt;
+    }
+    const [entries, total] = await Promise.all([
+      prisma.adminAuditLog.findMany({
+        where,
+        include: { admin: { select: { email: true, name: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.adminAuditLog.count({ where })
+    ]);
+    return res.json({
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        adminId: entry.adminId,
+        adminEmail: entry.admin?.email ?? null,
+        adminName: entry.admin?.name ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        eventId: entry.eventId,
+        before: entry.before,
+        after: entry.after,
+        ipAddress: entry.ipAddress,
+        createdAt: entry.createdAt.toISOString()
+      })),
+      total
+    });
+  })
+);
+
+app.get(
+  '/api/public/unsubscribe/:token',
+  asyncHandler(async (req, res) => {
+    const invitation = await prisma.invitation.findUnique({
+      where: { unsubscribeToken: req.params.token },
+      include: { event: { select: { name: true } } }
+    });
+    if (!invitation?.email) {
+      return res.status(404).json({ message: 'Abmeldelink ungültig' });
+    }
+    return res.json({
+      eventName: invitation.event.name,
+      unsubscribed: await isEmailSuppressed(invitation.email)
+    });
+  })
+);
+
+app.post(
+  '/api/public/unsubscribe/:token',
+  express.urlencoded({ extended: false }),
+  asyncHandler(async (req, res) => {
+    const invitation = await unsubscribeInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ message: 'Abmeldelink ungültig' });
+    }
+    return res.json({ unsubscribed: true });
+  })
+);
+
+app.post(
+  '/api/webhooks/email-bounces',
+  express.text({ type: ['message/*', 'multipart/report', 'text/plain'], limit: '1mb' }),
+  asyncHandler(async (req, res) => {
+    if (!process.env.EMAIL_WEBHOOK_SECRET) {
+      return res.status(404).json({ message: 'Bounce-Webhook ist nicht konfiguriert' });
+    }
+    if (req.query.secret !== undefined) {
+      return res.status(400).json({ message: 'Das Secret wird nur im Header X-Webhook-Secret akzeptiert' });
+    }
+    if (!hasValidWebhookSecret(req)) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    const notifications =
+      typeof req.body === 'string' ? parseDeliveryStatusReport(req.body) : parseBounceWebhook(req.body);
+    if (notifications.length === 0) {
+      return res.status(400).json({ message: 'Keine Bounce-Meldung erkannt' });
+    }
+    const results = [];
+    for (const notification of notifications) {
+      results.push(await applyBounceNotification(notification));
+    }
+    return res.json({ processed: results.length, results });
+  })
+);
+
 app.get(
-  '/join/:token',
+  ['/join/:token', '/api/public/join/:token'],
   asyncHandler(async (req, res) => {
     const { token } = req.params;
     const invitation = await prisma.invitation.findUnique({
@@ -806,12 +3186,16 @@ app.get(
       return res.status(400).json({ message: 'Diese Einladung ist nicht mehr gültig.' });
     }
     const now = new Date();
-    if (invitation.event.endsAt < now) {
+    if (invitation.event.archived || invitation.event.endsAt < now) {
       return res.status(400).json({ message: 'Event expired' });
     }
     return res.json({
-      event: mapEventResponse(invitation.event),
-      invitation: { token: invitation.token, deliveryMethod: invitation.deliveryMethod }
+      event: mapPublicEventSummary(invitation.event),
+      invitation: {
+        token: invitation.token,
+        deliveryMethod: invitation.deliveryMethod,
+        used: Boolean(invitation.usedAt)
+      }
     });
   })
 );
@@ -820,26 +3204,167 @@ app.post(
   '/api/public/events/:id/players',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const { nickname, playerId } = req.body as { nickname?: string; playerId?: string };
+    const { nickname, playerId, invitationToken } = req.body as {
+      nickname?: string;
+      playerId?: string;
+      invitationToken?: string;
+    };
     const event = await prisma.event.findUnique({ where: { id } });
     const now = new Date();
     if (!event || event.archived || event.startsAt > now || event.endsAt < now) {
       return res.status(400).json({ message: 'Event nicht aktiv' });
     }
+    const current = await authenticatePlayer(event, readPlayerToken(req));
+
+    const invitation = invitationToken
+      ? await prisma.invitation.findUnique({ where: { token: invitationToken }, include: { player: true } })
+      : null;
+    if (invitationToken && (!invitation || invitation.eventId !== id || !invitation.isActive)) {
+      return res.status(403).json({ message: 'Diese Einladung ist nicht mehr gültig.' });
+    }
+
+    if (current && (!invitation || invitation.player?.id === current.id)) {
+      await prisma.player.update({
+        where: { id: current.id },
+        data: { lastActiveAt: now, nickname: nickname ?? undefined }
+      });
+      return res.json({ playerId: current.id });
+    }
+
+    if (invitation) {
+      const claimed = await prisma.invitation.updateMany({
+        where: { id: invitation.id, usedAt: null },
+        data: { usedAt: now }
+      });
+      if (claimed.count === 0) {
+        return res.status(409).json({ message: 'Diese Einladung wurde bereits eingelöst.' });
+      }
+      if (current && !current.invitationId) {
+        await prisma.player.update({
+          where: { id: current.id },
+          data: { invitationId: invitation.id, lastActiveAt: now, nickname: nickname ?? undefined }
+        });
+        return res.json({ playerId: current.id });
+      }
+      const player = await prisma.player.create({
+        data: {
+          id: generatePlayerId(),
+          eventId: id,
+          nickname: nickname ?? null,
+          invitationId: invitation.id,
+          credentialIssuedAt: now
+        }
+      });
+      announcePlayerJoined(player, true);
+      return res.status(201).json({ playerId: player.id, playerToken: signPlayerToken(player) });
+    }
+
+    if (playerId) {
+      const legacy = await prisma.player.findUnique({ where: { id: playerId }, include: { invitation: true } });
+      const migratable =
+        legacy &&
+        legacy.eventId === id &&
+        !legacy.credentialIssuedAt &&
+        (!isInviteOnly(event) || legacy.invitation?.isActive);
+      if (migratable) {
+        const claimed = await prisma.player.updateMany({
+          where: { id: legacy.id, credentialIssuedAt: null },
+          data: { credentialIssuedAt: now, lastActiveAt: now, nickname: nickname ?? undefined }
+        });
+        if (claimed.count > 0) {
+          return res.json({ playerId: legacy.id, playerToken: signPlayerToken(legacy) });
+        }
+      }
+    }
 
-    const identifier = playerId || `player-${crypto.randomBytes(6).toString('hex')}`;
-    const existing = await prisma.player.findUnique({ where: { id: identifier } });
-    if (existing && existing.eventId !== id) {
-      return res.status(400).json({ message: 'Spielerkennung ungültig' });
+    if (isInviteOnly(event)) {
+      return res
+        .status(403)
+        .json({ message: 'Für dieses Event ist eine Einladung erforderlich.', code: 'INVITATION_REQUIRED' });
     }
 
-    const player = await prisma.player.upsert({
-      where: { id: identifier },
-      update: { lastActiveAt: new Date(), nickname: nickname ?? undefined },
-      create: { id: identifier, eventId: id, nickname: nickname ?? null }
+    const player = await prisma.player.create({
+      data: { id: generatePlayerId(), eventId: id, nickname: nickname ?? null, credentialIssuedAt: now }
     });
+    announcePlayerJoined(player, false);
+    return res.status(201).json({ playerId: player.id, playerToken: signPlayerToken(player) });
+  })
+);
+
+app.post(
+  '/api/public/events/:id/players/transfer-code',
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({ where: { id: req.params.id } });
+    const player = event ? await authenticatePlayer(event, readPlayerToken(req)) : null;
+    if (!player) {
+      return res.status(401).json({ message: 'Spieler nicht angemeldet', code: 'PLAYER_TOKEN_REQUIRED' });
+    }
+    const { code, expiresAt } = await createTransferCode(player.id);
+    return res.status(201).json({ code, expiresAt: expiresAt.toISOString() });
+  })
+);
+
+app.post(
+  '/api/public/events/:id/players/transfer',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { code } = req.body as { code?: string };
+    if (!code) {
+      return res.status(400).json({ message: 'Code erforderlich' });
+    }
+    const player = await redeemTransferCode(id, code);
+    if (!player) {
+      return res.status(400).json({ message: 'Code ungültig oder abgelaufen.' });
+    }
+    const playerToken = await issuePlayerCredential(player.id, { rotate: true });
+    return res.json({ playerId: player.id, playerToken });
+  })
+);
+
+app.post(
+  '/api/public/events/:id/team',
+  asyncHandler(async (req, res) => {
+    const { code } = req.body as { code?: string };
+    const event = await prisma.event.findUnique({ where: { id: req.params.id } });
+    if (!event || event.archived || event.endsAt < new Date()) {
+      return res.status(400).json({ message: 'Event nicht aktiv' });
+    }
+    if (!event.teamsEnabled) {
+      return res.status(400).json({ message: 'Für dieses Event ist der Team-Modus nicht aktiv.' });
+    }
+    const player = await authenticatePlayer(event, readPlayerToken(req));
+    if (!player) {
+      return res.status(401).json({ message: 'Spieler nicht angemeldet', code: 'PLAYER_TOKEN_REQUIRED' });
+    }
+    const team = code
+      ? await prisma.team.findUnique({ where: { joinCode: normalizeTeamCode(code) } })
+      : null;
+    if (!team || team.eventId !== event.id) {
+      return res.status(404).json({ message: 'Team-Code ungültig.' });
+    }
+    if (player.teamId !== team.id) {
+      if (await hasPlayerFinds(player.id)) {
+        return res.status(409).json({ message: 'Nach dem ersten Fund ist kein Teamwechsel mehr möglich.' });
+      }
+      await prisma.player.update({ where: { id: player.id }, data: { teamId: team.id } });
+    }
+    return res.json({ team: { id: team.id, name: team.name, joinCode: team.joinCode } });
+  })
+);
 
-    return res.json({ playerId: player.id });
+app.delete(
+  '/api/public/events/:id/team',
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({ where: { id: req.params.id } });
+    const player = event ? await authenticatePlayer(event, readPlayerToken(req)) : null;
+    if (!player) {
+      return res.status(401).json({ message: 'Spieler nicht angemeldet', code: 'PLAYER_TOKEN_REQUIRED' });
+    }
+    if (player.teamId && (await hasPlayerFinds(player.id))) {
+      return res.status(409).json({ message: 'Nach dem ersten Fund ist kein Teamwechsel mehr möglich.' });
+    }
+    await prisma.player.update({ where: { id: player.id }, data: { teamId: null } });
+    return res.status(204).send();
   })
 );
 
@@ -847,41 +3372,225 @@ app.post(
   '/api/events/:eventId/caches/:cacheId/found',
   asyncHandler(async (req, res) => {
     const { eventId, cacheId } = req.params;
-    const { playerId, nickname } = req.body as { playerId?: string; nickname?: string };
-    const cache = await prisma.cache.findFirst({ where: { id: cacheId, eventId } });
+    const { playerId, nickname, position, answer, qrToken } = req.body as {
+      playerId?: string;
+      nickname?: string;
+      position?: { latitude?: number; longitude?: number; accuracy?: number; timestamp?: number | string };
+      answer?: string;
+      qrToken?: string;
+    };
+    const cache = await prisma.cache.findFirst({ where: { id: cacheId, eventId }, include: { event: true } });
     if (!cache) {
       return res.status(404).json({ message: 'Cache not found' });
     }
-    const playerIdentifier = playerId || `player-${crypto.randomBytes(5).toString('hex')}`;
-    const existingPlayer = await prisma.player.findUnique({ where: { id: playerIdentifier } });
-    if (existingPlayer && existingPlayer.eventId !== eventId) {
-      return res.status(400).json({ message: 'Spieler gehört nicht zu diesem Event' });
+    const now = new Date();
+    if (cache.event.archived || cache.event.startsAt > now || cache.event.endsAt < now) {
+      return res.status(400).json({ message: 'Event nicht aktiv' });
+    }
+    const player = await authenticatePlayer(cache.event, readPlayerToken(req));
+    if (!player || (playerId && playerId !== player.id)) {
+      return res.status(401).json({ message: 'Spieler nicht angemeldet', code: 'PLAYER_TOKEN_REQUIRED' });
+    }
+    if (cache.event.teamsEnabled && !player.teamId) {
+      return res.status(403).json({ message: 'Bitte zuerst einem Team beitreten.', code: 'TEAM_REQUIRED' });
+    }
+    if (
+      cache.event.teamsEnabled &&
+      cache.event.oneFindPerTeam &&
+      (await hasTeamFoundCache(player.teamId!, cacheId))
+    ) {
+      return res.status(409).json({ message: 'Dieser Cache wurde bereits von deinem Team gefunden.' });
+    }
+    const alreadyFound = await prisma.cacheFind.findUnique({
+      where: { cacheId_playerId: { cacheId, playerId: player.id } },
+      select: { id: true }
+    });
+    if (alreadyFound) {
+      return res.status(409).json({ message: 'Du hast diesen Cache bereits gefunden.', code: 'ALREADY_FOUND' });
+    }
+    const [chainCaches, solvedIds] = await Promise.all([
+      prisma.cache.findMany({ where: { eventId }, select: chainCacheSelect }),
+      listSolvedCacheIds(eventId, player.id, cache.event.teamsEnabled ? player.teamId : null)
+    ]);
+    const chainCache = chainCaches.find((candidate) => candidate.id === cacheId)!;
+    if (!solvedIds.has(cacheId) && !isCacheUnlocked(chainCache, chainCaches, solvedIds)) {
+      return res.status(403).json({ message: 'Dieser Cache ist noch nicht freigeschaltet.', code: 'CACHE_LOCKED' });
+    }
+
+    const playArea = readPlayArea(cache.event);
+    const positionRequired = cache.verificationMode === CacheVerificationMode.GPS || playArea !== null;
+    let reported: ReportedPosition | null = null;
+    if (positionRequired || position !== undefined) {
+      try {
+        reported = parseReportedPosition(position, now);
+      } catch (err) {
+        return res.status(400).json({ message: (err as Error).message });
+      }
+    }
+    if (reported && !isInsidePlayArea(playArea, reported)) {
+      return res
+        .status(403)
+        .json({ message: 'Du befindest dich außerhalb des Spielfelds.', code: 'OUTSIDE_PLAY_AREA' });
+    }
+    if (cache.verificationMode !== CacheVerificationMode.GPS) {
+      const isQr = cache.verificationMode === CacheVerificationMode.QR;
+      const submitted = isQr ? qrToken : answer;
+      if (typeof submitted !== 'string' || !submitted.trim()) {
+        return res.status(400).json({ message: isQr ? 'QR-Code fehlt' : 'Antwort fehlt' });
+      }
+      const ip = req.ip ?? 'unknown';
+      const throttle = checkAnswerAllowed(ip, player.id, cacheId);
+      if (!throttle.allowed) {
+        res.set('Retry-After', String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          message: 'Zu viele falsche Versuche. Bitte später erneut versuchen.',
+          retryAfterSeconds: throttle.retryAfterSeconds
+        });
+      }
+      if (!(isQr ? isQrTokenValid(cache, submitted) : isAnswerAccepted(cache, submitted))) {
+        recordAnswerFailure(ip, player.id, cacheId);
+        return res.status(403).json({
+          message: isQr ? 'Ungültiger QR-Code' : 'Das ist leider nicht richtig.',
+          code: 'VERIFICATION_FAILED'
+        });
+      }
+      recordAnswerSuccess(player.id, cacheId);
+    }
+    const distance = reported
+      ? haversineDistanceMeters(reported.latitude, reported.longitude, cache.latitude, cache.longitude)
+      : null;
+    if (cache.verificationMode === CacheVerificationMode.GPS && distance! > cache.event.foundRadiusMeters) {
+      return res.status(403).json({
+        message: 'Cache außerhalb des Fundradius',
+        distanceMeters: Math.round(distance!)
+      });
     }
 
-    await prisma.player.upsert({
-      where: { id: playerIdentifier },
-      update: { lastActiveAt: new Date(), nickname: nickname ?? undefined },
-      create: { id: playerIdentifier, eventId, nickname: nickname ?? null }
+    await prisma.player.update({
+      where: { id: player.id },
+      data: { lastActiveAt: new Date(), nickname: nickname ?? undefined }
     });
 
-    await prisma.cacheFind.create({ data: { cacheId, playerId: playerIdentifier, nickname: nickname ?? null } });
-    const updated = await prisma.cache.update({
-      where: { id: cacheId },
-      data: { foundByAny: true, foundAt: new Date() }
+    let find;
+    try {
+      find = await prisma.cacheFind.create({
+        data: {
+          cacheId,
+          playerId: player.id,
+          nickname: nickname ?? null,
+          latitude: reported?.latitude ?? null,
+          longitude: reported?.longitude ?? null,
+          accuracyMeters: reported?.accuracy ?? null,
+          distanceMeters: distance,
+          positionRecordedAt: reported?.timestamp ?? null,
+          verificationMethod: cache.verificationMode
+        }
+      });
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        return res.status(409).json({ message: 'Du hast diesen Cache bereits gefunden.', code: 'ALREADY_FOUND' });
+      }
+      throw err;
+    }
+    const firstFind = await prisma.cache.updateMany({
+      where: { id: cacheId, foundByAny: false },
+      data: { foundByAny: true, foundAt: now }
+    });
+    const updated = await prisma.cache.findUniqueOrThrow({ where: { id: cacheId } });
+    publishLiveEvent(
+      eventId,
+      'find',
+      { ...mapLiveFind(find, cache.clue), firstFind: firstFind.count > 0 },
+      { cacheId, foundAt: updated.foundAt?.toISOString() ?? null, teamId: player.teamId }
+    );
+    void publishDashboardStats(eventId);
+    return res.json({
+      cache: mapPublicCache(updated, {
+        distance,
+        foundByPlayer: true,
+        foundByTeam: cache.event.teamsEnabled && Boolean(player.teamId),
+        locked: false
+      }),
+      playerId: player.id
     });
-    return res.json({ cache: updated, playerId: playerIdentifier });
   })
 );
 
+app.get('/api/public/map-config', (_req, res) => {
+  res.json({
+    tileUrl: process.env.MAP_TILE_URL || null,
+    attribution: process.env.MAP_TILE_ATTRIBUTION || null,
+    maxZoom: Number(process.env.MAP_TILE_MAX_ZOOM) || 19
+  });
+});
+
 app.get(
   '/api/public/events',
   asyncHandler(async (_req, res) => {
     const now = new Date();
     const events = await prisma.event.findMany({
-      where: { archived: false, startsAt: { lte: now }, endsAt: { gte: now } },
+      where: {
+        archived: false,
+        accessMode: EventAccessMode.PUBLIC,
+        startsAt: { lte: now },
+        endsAt: { gte: now }
+      },
       orderBy: { startsAt: 'asc' }
     });
-    return res.json({ events: events.map(mapEventResponse) });
+    return res.json({ events: events.map(mapPublicEventSummary) });
+  })
+);
+
+app.get(
+  '/api/public/events/:id/leaderboard',
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({ where: { id: req.params.id } });
+    if (!event || event.archived) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    if (!event.leaderboardEnabled) {
+      return res
+        .status(404)
+        .json({ message: 'Die Bestenliste ist für dieses Event nicht verfügbar.', code: 'LEADERBOARD_HIDDEN' });
+    }
+    const player = await authenticatePlayer(event, readPlayerToken(req));
+    if (isInviteOnly(event) && !player) {
+      return res
+        .status(403)
+        .json({ message: 'Für dieses Event ist eine Einladung erforderlich.', code: 'INVITATION_REQUIRED' });
+    }
+    const leaderboard = await buildLeaderboard(event, player?.id ?? null);
+    const teams = event.teamsEnabled
+      ? await buildTeamStandings(event, { until: event.leaderboardFrozenAt, viewerTeamId: player?.teamId })
+      : null;
+    const hidePlayerId = ({ playerId: _playerId, ...entry }: (typeof leaderboard.entries)[number]) => entry;
+    return res.json({
+      leaderboard: {
+        ...leaderboard,
+        entries: leaderboard.entries.map(hidePlayerId),
+        viewer: leaderboard.viewer && hidePlayerId(leaderboard.viewer),
+        teams
+      }
+    });
+  })
+);
+
+app.get(
+  '/api/public/events/:id/stream',
+  asyncHandler(async (req, res) => {
+    const event = await prisma.event.findUnique({ where: { id: req.params.id } });
+    if (!event) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+    if (event.archived || event.endsAt < new Date()) {
+      return res.status(400).json({ message: 'Event not active' });
+    }
+    if (isInviteOnly(event) && !(await authenticatePlayer(event, readPlayerToken(req)))) {
+      return res
+        .status(403)
+        .json({ message: 'Für dieses Event ist eine Einladung erforderlich.', code: 'INVITATION_REQUIRED' });
+    }
+    return openLiveStream(req, res, event.id, 'public');
   })
 );
 
@@ -889,7 +3598,10 @@ app.get(
   '/api/public/events/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const event = await prisma.event.findUnique({ where: { id }, include: { caches: { include: { finds: true } } } });
+    const event = await prisma.event.findUnique({
+      where: { id },
+      include: { caches: { include: { prerequisites: { select: { id: true } } } } }
+    });
     if (!event) {
       return res.status(404).json({ message: 'Event not found' });
     }
@@ -897,7 +3609,79 @@ app.get(
     if (event.archived || event.endsAt < now) {
       return res.status(400).json({ message: 'Event not active' });
     }
-    return res.json({ event: mapEventResponse(event) });
+
+    const latitude = parseQueryCoordinate(req.query.lat, 90);
+    const longitude = parseQueryCoordinate(req.query.lon, 180);
+    const player = await authenticatePlayer(event, readPlayerToken(req));
+    if (isInviteOnly(event) && !player) {
+      return res
+        .status(403)
+        .json({ message: 'Für dieses Event ist eine Einladung erforderlich.', code: 'INVITATION_REQUIRED' });
+    }
+    const playerId = player?.id ?? null;
+    const playerFinds = playerId
+      ? await prisma.cacheFind.findMany({
+          where: { playerId, cache: { eventId: id } },
+          select: { cacheId: true }
+        })
+      : [];
+    const foundIds = new Set(playerFinds.map((find) => find.cacheId));
+    const team =
+      event.teamsEnabled && player?.teamId
+        ? await prisma.team.findUnique({
+            where: { id: player.teamId },
+            include: { _count: { select: { players: true } } }
+          })
+        : null;
+    const teamFoundIds = team ? await listTeamFoundCacheIds(team.id) : new Set<string>();
+    const solvedIds = new Set([...foundIds, ...teamFoundIds]);
+
+    const caches = event.caches
+      .map((cache) => {
+        const distance =
+          latitude !== null && longitude !== null
+            ? haversineDistanceMeters(latitude, longitude, cache.latitude, cache.longitude)
+            : null;
+        const foundByPlayer = foundIds.has(cache.id);
+        const foundByTeam = teamFoundIds.has(cache.id);
+        const locked = !solvedIds.has(cache.id) && !isCacheUnlocked(cache, event.caches, solvedIds);
+        const visible = locked
+          ? cache.isFinal
+          : cache.isFinal || (distance !== null && distance <= event.visibleRadiusMeters);
+        return { cache, distance, visible, foundByPlayer, foundByTeam, locked };
+      })
+      .filter(({ visible, foundByPlayer, foundByTeam }) => visible || foundByPlayer || foundByTeam)
+      .map(({ cache, distance, foundByPlayer, foundByTeam, locked }) =>
+        mapPublicCache(cache, { distance, foundByPlayer, foundByTeam, locked })
+      );
+
+    const { startPoint, playArea } = eventGeofence(event);
+    const hasPosition = latitude !== null && longitude !== null;
+    return res.json({
+      event: {
+        ...mapPublicEventSummary(event),
+        cacheCount: event.caches.length,
+        insidePlayArea: hasPosition && playArea ? isInsidePlayArea(playArea, { latitude, longitude }) : null,
+        startPointGuidance:
+          hasPosition && startPoint && startPoint.latitude !== null && startPoint.longitude !== null
+            ? {
+                distanceMeters: Math.round(
+                  haversineDistanceMeters(latitude, longitude, startPoint.latitude, startPoint.longitude)
+                ),
+                bearingDegrees: Math.round(
+                  initialBearingDegrees(latitude, longitude, startPoint.latitude, startPoint.longitude)
+                )
+              }
+            : null,
+        caches,
+        team: team && {
+          id: team.id,
+          name: team.name,
+          joinCode: team.joinCode,
+          memberCount: team._count.players
+        }
+      }
+    });
   })
 );
 
@@ -907,8 +3691,21 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 });
 
 const start = async () => {
+  try {
+    validatePlayerTokenSecret();
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
   await ensureSystemSettings();
   await ensureDefaultAdmin();
+  const migrated = await migrateStoredSecrets(prisma);
+  if (migrated.settings || migrated.admins) {
+    console.log(`Secrets verschlüsselt: ${migrated.settings} Einstellungen, ${migrated.admins} Admins`);
+  }
+  startEmailWorker();
+  startEmailJobWorker();
+  startLiveStatsTicker();
   app.listen(PORT, () => {
     console.log(`Backend listening on http://localhost:${PORT}`);
   });
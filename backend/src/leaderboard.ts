@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+
+import { Event } from '@prisma/client';
+
+import { haversineDistanceMeters } from './geo.js';
+import { scoreFinds, ScoringRules, sumPoints } from './scoring.js';
+import { prisma } from './db.js';
+
+export const LEADERBOARD_LIMIT = 100;
+
+export type LeaderboardEntry = {
+  rank: number;
+  playerId: string;
+  displayName: string;
+  pseudonymous: boolean;
+  finds: number;
+  firstFinds: number;
+  completedAt: string | null;
+  completionMs: number | null;
+  distanceMeters: number | null;
+  points: number;
+  isViewer: boolean;
+};
+
+type PlayerTally = {
+  points: number;
+  cacheIds: Set<string>;
+  firstFinds: number;
+  lastFindAt: Date | null;
+  completedAt: Date | null;
+  distanceMeters: number | null;
+  lastPosition: { latitude: number; longitude: number } | null;
+};
+
+export const pseudonymFor = (playerId: string) =>
+  `Spieler ${crypto.createHash('sha256').update(playerId).digest('hex').slice(0, 4).toUpperCase()}`;
+
+const compareTallies = (a: PlayerTally, b: PlayerTally) =>
+  b.points - a.points ||
+  b.cacheIds.size - a.cacheIds.size ||
+  b.firstFinds - a.firstFinds ||
+  (a.completedAt?.getTime() ?? Infinity) - (b.completedAt?.getTime() ?? Infinity) ||
+  (a.lastFindAt?.getTime() ?? Infinity) - (b.lastFindAt?.getTime() ?? Infinity);
+
+export const buildLeaderboard = async (
+  event: Pick<Event, 'id' | 'leaderboardFrozenAt'> & ScoringRules,
+  viewerPlayerId: string | null = null
+) => {
+  const [caches, players, finds] = await Promise.all([
+    prisma.cache.findMany({ where: { eventId: event.id }, select: { id: true, points: true, difficulty: true } }),
+    prisma.player.findMany({
+      where: { eventId: event.id },
+      select: { id: true, nickname: true, createdAt: true }
+    }),
+    prisma.cacheFind.findMany({
+      where: {
+        cache: { eventId: event.id },
+        foundAt: event.leaderboardFrozenAt ? { lte: event.leaderboardFrozenAt } : undefined
+      },
+      select: { id: true, playerId: true, cacheId: true, foundAt: true, latitude: true, longitude: true },
+      orderBy: { foundAt: 'asc' }
+    })
+  ]);
+
+  const cacheCount = caches.length;
+  const pointsByPlayer = sumPoints(scoreFinds(event, caches, finds), 'playerId');
+  const tallies = new Map<string, PlayerTally>(
+    players.map((player) => [
+      player.id,
+      {
+        points: pointsByPlayer.get(player.id) ?? 0,
+        cacheIds: new Set(),
+        firstFinds: 0,
+        lastFindAt: null,
+        completedAt: null,
+        distanceMeters: null,
+        lastPosition: null
+      }
+    ])
+  );
+  const firstFound = new Set<string>();
+  for (const find of finds) {
+    const tally = tallies.get(find.playerId);
+    if (!tally || tally.cacheIds.has(find.cacheId)) continue;
+    tally.cacheIds.add(find.cacheId);
+    tally.lastFindAt = find.foundAt;
+    if (!firstFound.has(find.cacheId)) {
+      firstFound.add(find.cacheId);
+      tally.firstFinds += 1;
+    }
+    if (cacheCount > 0 && tally.cacheIds.size === cacheCount) {
+      tally.completedAt = find.foundAt;
+    }
+    if (find.latitude !== null && find.longitude !== null) {
+      const position = { latitude: find.latitude, longitude: find.longitude };
+      tally.distanceMeters =
+        (tally.distanceMeters ?? 0) +
+        (tally.lastPosition
+          ? haversineDistanceMeters(
+              tally.lastPosition.latitude,
+              tally.lastPosition.longitude,
+              position.latitude,
+              position.longitude
+            )
+          : 0);
+      tally.lastPosition = position;
+    }
+  }
+
+  const ranked = players
+    .map((player) => ({ player, tally: tallies.get(player.id)! }))
+    .sort((a, b) => compareTallies(a.tally, b.tally));
+
+  let previous: PlayerTally | null = null;
+  let rank = 0;
+  const entries = ranked.map(({ player, tally }, index): LeaderboardEntry => {
+    if (!previous || compareTallies(previous, tally) !== 0) rank = index + 1;
+    previous = tally;
+    const nickname = player.nickname?.trim();
+    const completedAt = tally.completedAt;
+    const startedAt = Math.max(event.startsAt.getTime(), player.createdAt.getTime());
+    return {
+      rank,
+      playerId: player.id,
+      displayName: nickname || pseudonymFor(player.id),
+      pseudonymous: !nickname,
+      finds: tally.cacheIds.size,
+      firstFinds: tally.firstFinds,
+      completedAt: completedAt?.toISOString() ?? null,
+      completionMs: completedAt ? Math.max(completedAt.getTime() - startedAt, 0) : null,
+      distanceMeters: tally.distanceMeters === null ? null : Math.round(tally.distanceMeters),
+      points: tally.points,
+      isViewer: player.id === viewerPlayerId
+    };
+  });
+
+  return {
+    cacheCount,
+    frozenAt: event.leaderboardFrozenAt?.toISOString() ?? null,
+    entries: entries.filter((entry) => entry.finds > 0).slice(0, LEADERBOARD_LIMIT),
+    viewer: entries.find((entry) => entry.isViewer) ?? null
+  };
+};
+
+export type TeamStanding = {
+  rank: number;
+  teamId: string;
+  name: string;
+  memberCount: number;
+  foundCount: number;
+  completionPercent: number;
+  firstFinds: number;
+  points: number;
+  completedAt: string | null;
+  isViewerTeam: boolean;
+};
+
+type TeamTally = {
+  cachePoints: Map<string, number>;
+  firstFinds: number;
+  completedAt: Date | null;
+};
+
+const teamPoints = (tally: TeamTally) =>
+  [...tally.cachePoints.values()].reduce((total, points) => total + points, 0);
+
+const compareTeamTallies = (a: TeamTally, b: TeamTally) =>
+  teamPoints(b) - teamPoints(a) ||
+  b.cachePoints.size - a.cachePoints.size ||
+  b.firstFinds - a.firstFinds ||
+  (a.completedAt?.getTime() ?? Infinity) - (b.completedAt?.getTime() ?? Infinity);
+
+export const buildTeamStandings = async (
+  event: Pick<Event, 'id'> & ScoringRules,
+  options: { until?: Date | null; viewerTeamId?: string | null } = {}
+): Promise<TeamStanding[]> => {
+  const [caches, teams, finds] = await Promise.all([
+    prisma.cache.findMany({ where: { eventId: event.id }, select: { id: true, points: true, difficulty: true } }),
+    prisma.team.findMany({
+      where: { eventId: event.id },
+      select: { id: true, name: true, players: { select: { id: true } } },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.cacheFind.findMany({
+      where: { cache: { eventId: event.id }, foundAt: options.until ? { lte: options.until } : undefined },
+      select: { id: true, playerId: true, cacheId: true, foundAt: true }
+    })
+  ]);
+
+  const foundAtById = new Map(finds.map((find) => [find.id, find.foundAt]));
+  const teamByPlayer = new Map(teams.flatMap((team) => team.players.map((player) => [player.id, team.id])));
+  const tallies = new Map<string, TeamTally>(
+    teams.map((team) => [team.id, { cachePoints: new Map(), firstFinds: 0, completedAt: null }])
+  );
+  for (const score of scoreFinds(event, caches, finds)) {
+    const teamId = teamByPlayer.get(score.playerId);
+    const tally = teamId ? tallies.get(teamId) : undefined;
+    if (!tally) continue;
+    if (score.finderPosition === 1) tally.firstFinds += 1;
+    tally.cachePoints.set(score.cacheId, Math.max(tally.cachePoints.get(score.cacheId) ?? 0, score.points));
+    if (!tally.completedAt && caches.length > 0 && tally.cachePoints.size === caches.length) {
+      tally.completedAt = foundAtById.get(score.findId)!;
+    }
+  }
+
+  const ranked = teams
+    .map((team) => ({ team, tally: tallies.get(team.id)! }))
+    .sort((a, b) => compareTeamTallies(a.tally, b.tally));
+  let previous: TeamTally | null = null;
+  let rank = 0;
+  return ranked.map(({ team, tally }, index) => {
+    if (!previous || compareTeamTallies(previous, tally) !== 0) rank = index + 1;
+    previous = tally;
+    return {
+      rank,
+      teamId: team.id,
+      name: team.name,
+      memberCount: team.players.length,
+      foundCount: tally.cachePoints.size,
+      completionPercent:
+        caches.length === 0 ? 0 : Math.round((tally.cachePoints.size / caches.length) * 10000) / 100,
+      firstFinds: tally.firstFinds,
+      points: teamPoints(tally),
+      completedAt: tally.completedAt?.toISOString() ?? null,
+      isViewerTeam: team.id === options.viewerTeamId
+    };
+  });
+};
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { prisma } from './db.js';
+
+const HEARTBEAT_MS = 25 * 1000;
+const STATS_INTERVAL_MS = 60 * 1000;
+
+export type LiveAudience = 'admin' | 'public';
+
+export type LiveEventType = 'find' | 'player_joined' | 'stats';
+
+type Subscriber = {
+  audience: LiveAudience;
+  res: Response;
+};
+
+const subscribers = new Map<string, Set<Subscriber>>();
+
+export const getActivePlayerWindowMs = () =>
+  Math.max(Number(process.env.ACTIVE_PLAYER_WINDOW_MINUTES) || 30, 1) * 60 * 1000;
+
+export const computeDashboardStats = async (eventId: string) => {
+  const activeSince = new Date(Date.now() - getActivePlayerWindowMs());
+  const [totalCaches, foundCount, playerCount, activePlayerCount] = await Promise.all([
+    prisma.cache.count({ where: { eventId } }),
+    prisma.cache.count({ where: { eventId, foundByAny: true } }),
+    prisma.player.count({ where: { eventId } }),
+    prisma.player.count({ where: { eventId, lastActiveAt: { gte: activeSince } } })
+  ]);
+  return {
+    playerCount,
+    activePlayerCount,
+    foundCount,
+    completionPercent: totalCaches === 0 ? 0 : Math.round((foundCount / totalCaches) * 10000) / 100
+  };
+};
+
+const write = (res: Response, type: LiveEventType, data: unknown) => {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+export const publishLiveEvent = (
+  eventId: string,
+  type: LiveEventType,
+  data: unknown,
+  publicData?: unknown
+) => {
+  for (const subscriber of subscribers.get(eventId) ?? []) {
+    if (subscriber.audience === 'admin') {
+      write(subscriber.res, type, data);
+    } else if (publicData !== undefined) {
+      write(subscriber.res, type, publicData);
+    }
+  }
+};
+
+export const publishDashboardStats = async (eventId: string) => {
+  const hasAdmins = [...(subscribers.get(eventId) ?? [])].some((subscriber) => subscriber.audience === 'admin');
+  if (!hasAdmins) return;
+  try {
+    publishLiveEvent(eventId, 'stats', await computeDashboardStats(eventId));
+  } catch (error) {
+    console.error('Live-Statistik konnte nicht gesendet werden', error);
+  }
+};
+
+export const openLiveStream = (req: Request, res: Response, eventId: string, audience: LiveAudience) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const subscriber: Subscriber = { audience, res };
+  const eventSubscribers = subscribers.get(eventId) ?? new Set<Subscriber>();
+  eventSubscribers.add(subscriber);
+  subscribers.set(eventId, eventSubscribers);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    eventSubscribers.delete(subscriber);
+    if (eventSubscribers.size === 0 && subscribers.get(eventId) === eventSubscribers) {
+      subscribers.delete(eventId);
+    }
+  });
+};
+
+export const startLiveStatsTicker = () => {
+  setInterval(() => {
+    for (const eventId of subscribers.keys()) {
+      void publishDashboardStats(eventId);
+    }
+  }, STATS_INTERVAL_MS);
+};
@@ -0,0 +1,95 @@
+import { prisma } from './db.js';
+
+const ACCOUNT_FAILURE_THRESHOLD = Number(process.env.LOGIN_ACCOUNT_FAILURE_THRESHOLD || 5);
+const IP_FAILURE_THRESHOLD = Number(process.env.LOGIN_IP_FAILURE_THRESHOLD || 20);
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const IP_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+type IpState = {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+};
+
+const ipFailures = new Map<string, IpState>();
+const MAX_TRACKED_IPS = 10000;
+
+const pruneIpFailures = (now: number) => {
+  for (const [ip, state] of ipFailures) {
+    if (now - state.lastFailureAt > IP_FAILURE_WINDOW_MS && state.lockedUntil <= now) {
+      ipFailures.delete(ip);
+    }
+  }
+};
+
+const lockoutDuration = (failures: number, threshold: number) => {
+  if (failures < threshold) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - threshold), MAX_LOCKOUT_MS);
+};
+
+const getIpState = (ip: string, now: number) => {
+  const state = ipFailures.get(ip);
+  if (!state) return null;
+  if (now - state.lastFailureAt > IP_FAILURE_WINDOW_MS && state.lockedUntil <= now) {
+    ipFailures.delete(ip);
+    return null;
+  }
+  return state;
+};
+
+export type LoginThrottleResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+const blocked = (until: number, now: number): LoginThrottleResult => ({
+  allowed: false,
+  retryAfterSeconds: Math.max(1, Math.ceil((until - now) / 1000))
+});
+
+export const checkLoginAllowed = (
+  ip: string,
+  account: { lockedUntil: Date | null } | null
+): LoginThrottleResult => {
+  const now = Date.now();
+  const ipState = getIpState(ip, now);
+  if (ipState && ipState.lockedUntil > now) {
+    return blocked(ipState.lockedUntil, now);
+  }
+  if (account?.lockedUntil && account.lockedUntil.getTime() > now) {
+    return blocked(account.lockedUntil.getTime(), now);
+  }
+  return { allowed: true };
+};
+
+export const recordLoginFailure = async (ip: string, adminId: string | null) => {
+  const now = Date.now();
+  if (ipFailures.size >= MAX_TRACKED_IPS) pruneIpFailures(now);
+  const ipState = getIpState(ip, now) ?? { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+  ipState.failures += 1;
+  ipState.lastFailureAt = now;
+  const ipLockout = lockoutDuration(ipState.failures, IP_FAILURE_THRESHOLD);
+  if (ipLockout > 0) ipState.lockedUntil = now + ipLockout;
+  ipFailures.set(ip, ipState);
+
+  if (!adminId) return { accountLocked: false };
+  const admin = await prisma.adminUser.update({
+    where: { id: adminId },
+    data: { failedLoginAttempts: { increment: 1 } }
+  });
+  const accountLockout = lockoutDuration(admin.failedLoginAttempts, ACCOUNT_FAILURE_THRESHOLD);
+  if (accountLockout > 0) {
+    await prisma.adminUser.update({
+      where: { id: adminId },
+      data: { lockedUntil: new Date(now + accountLockout) }
+    });
+    return { accountLocked: true };
+  }
+  return { accountLocked: false };
+};
+
+export const recordLoginSuccess = async (ip: string, adminId: string) => {
+  ipFailures.delete(ip);
+  await prisma.adminUser.update({
+    where: { id: adminId },
+    data: { failedLoginAttempts: 0, lockedUntil: null }
+  });
+};
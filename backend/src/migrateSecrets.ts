@@ -0,0 +1,19 @@
+import dotenv from 'dotenv';
+
+import { prisma } from './db.js';
+import { migrateStoredSecrets } from './secrets.js';
+
+dotenv.config();
+
+const run = async () => {
+  if (!process.env.SECRETS_ENCRYPTION_KEY) {
+    console.error('SECRETS_ENCRYPTION_KEY ist nicht gesetzt');
+    process.exitCode = 1;
+    return;
+  }
+  const migrated = await migrateStoredSecrets(prisma);
+  console.log(`Encrypted ${migrated.settings} system settings`);
+  console.log(`Encrypted ${migrated.admins} admin TOTP secrets`);
+};
+
+void run().finally(async () => prisma.$disconnect());
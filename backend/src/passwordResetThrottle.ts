@@ -0,0 +1,49 @@
+import { prisma } from './db.js';
+
+const IP_REQUEST_LIMIT = Number(process.env.PASSWORD_RESET_IP_LIMIT || 10);
+const ACCOUNT_COOLDOWN_MS = Number(process.env.PASSWORD_RESET_ACCOUNT_COOLDOWN_SECONDS || 300) * 1000;
+const IP_WINDOW_MS = 60 * 60 * 1000;
+const MAX_TRACKED_IPS = 10000;
+
+type IpState = {
+  requests: number;
+  windowStartedAt: number;
+};
+
+const ipRequests = new Map<string, IpState>();
+
+const pruneIpRequests = (now: number) => {
+  for (const [ip, state] of ipRequests) {
+    if (now - state.windowStartedAt > IP_WINDOW_MS) {
+      ipRequests.delete(ip);
+    }
+  }
+};
+
+export type PasswordResetThrottleResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+export const registerPasswordResetRequest = (ip: string): PasswordResetThrottleResult => {
+  const now = Date.now();
+  if (ipRequests.size >= MAX_TRACKED_IPS) pruneIpRequests(now);
+  const current = ipRequests.get(ip);
+  const state =
+    current && now - current.windowStartedAt <= IP_WINDOW_MS ? current : { requests: 0, windowStartedAt: now };
+  if (IP_REQUEST_LIMIT > 0 && state.requests >= IP_REQUEST_LIMIT) {
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.max(1, Math.ceil((state.windowStartedAt + IP_WINDOW_MS - now) / 1000))
+    };
+  }
+  state.requests += 1;
+  ipRequests.set(ip, state);
+  return { allowed: true };
+};
+
+export const isPasswordResetCoolingDown = async (adminId: string) => {
+  if (ACCOUNT_COOLDOWN_MS <= 0) return false;
+  const recent = await prisma.adminPasswordReset.findFirst({
+    where: { adminId, createdAt: { gt: new Date(Date.now() - ACCOUNT_COOLDOWN_MS) } },
+    select: { id: true }
+  });
+  return Boolean(recent);
+};
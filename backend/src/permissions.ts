@@ -0,0 +1,65 @@
+import { NextFunction, Request, Response } from 'express';
+import { AdminRole, AdminUser } from '@prisma/client';
+import { prisma } from './db.js';
+
+export type EventAccessLevel = 'view' | 'manage';
+
+export type AuthenticatedAdmin = Pick<
+  AdminUser,
+  'id' | 'email' | 'name' | 'role' | 'mustChangePassword' | 'totpEnabledAt'
+>;
+
+export const getEventAccess = async (
+  admin: AuthenticatedAdmin,
+  event: { id: string; createdByAdminId: string | null }
+): Promise<EventAccessLevel | null> => {
+  if (admin.role === AdminRole.OWNER) return 'manage';
+  if (admin.role === AdminRole.VIEWER) return 'view';
+  if (event.createdByAdminId === admin.id) return 'manage';
+  const grant = await prisma.eventAdminAccess.findUnique({
+    where: { eventId_adminId: { eventId: event.id, adminId: admin.id } }
+  });
+  return grant ? 'manage' : null;
+};
+
+export const accessibleEventsFilter = (admin: AuthenticatedAdmin) => {
+  if (admin.role !== AdminRole.ORGANIZER) return {};
+  return {
+    OR: [{ createdByAdminId: admin.id }, { adminAccess: { some: { adminId: admin.id } } }]
+  };
+};
+
+export const requireRole =
+  (...roles: AdminRole[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const admin = (req as any).admin as AuthenticatedAdmin | undefined;
+    if (!admin || !roles.includes(admin.role)) {
+      return res.status(403).json({ message: 'Forbidden' });
+    }
+    return next();
+  };
+
+export const requireEventAccess =
+  (level: EventAccessLevel) => async (req: Request, res: Response, next: NextFunction) => {
+    const admin = (req as any).admin as AuthenticatedAdmin | undefined;
+    const eventId = req.params.id ?? req.params.eventId;
+    if (!admin) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    try {
+      const event = await prisma.event.findUnique({
+        where: { id: eventId },
+        select: { id: true, createdByAdminId: true }
+      });
+      if (!event) {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+      const access = await getEventAccess(admin, event);
+      if (!access || (level === 'manage' && access !== 'manage')) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+
+import { Request } from 'express';
+import { EventAccessMode, Player } from '@prisma/client';
+import { prisma } from './db.js';
+
+export const PLAYER_TOKEN_HEADER = 'x-player-token';
+
+const TOKEN_PREFIX = 'pt1';
+const TRANSFER_CODE_TTL_MS = 10 * 60 * 1000;
+const TRANSFER_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TRANSFER_CODE_LENGTH = 8;
+
+const PLACEHOLDER_TOKEN_SECRET = 'change-me-to-a-long-random-string';
+
+let tokenSecret: string | null = null;
+
+export const validatePlayerTokenSecret = () => {
+  if (process.env.PLAYER_TOKEN_SECRET?.trim() === PLACEHOLDER_TOKEN_SECRET) {
+    throw new Error(
+      'PLAYER_TOKEN_SECRET enthält noch den Beispielwert aus .env.example; bitte einen zufälligen Wert setzen (z. B. openssl rand -base64 32)'
+    );
+  }
+};
+
+const getTokenSecret = () => {
+  if (tokenSecret) return tokenSecret;
+  validatePlayerTokenSecret();
+  const configured = process.env.PLAYER_TOKEN_SECRET;
+  if (configured) {
+    tokenSecret = configured;
+  } else {
+    console.warn('PLAYER_TOKEN_SECRET ist nicht gesetzt; Spieler-Tokens verlieren beim Neustart ihre Gültigkeit');
+    tokenSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return tokenSecret;
+};
+
+type PlayerTokenPayload = {
+  pid: string;
+  eid: string;
+  ver: number;
+};
+
+const sign = (data: string) => crypto.createHmac('sha256', getTokenSecret()).update(data).digest('base64url');
+
+export const signPlayerToken = (player: Pick<Player, 'id' | 'eventId' | 'tokenVersion'>) => {
+  const payload: PlayerTokenPayload = { pid: player.id, eid: player.eventId, ver: player.tokenVersion };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${TOKEN_PREFIX}.${encoded}.${sign(`${TOKEN_PREFIX}.${encoded}`)}`;
+};
+
+export const verifyPlayerToken = (token: string): PlayerTokenPayload | null => {
+  const [prefix, encoded, signature] = token.split('.');
+  if (prefix !== TOKEN_PREFIX || !encoded || !signature) return null;
+  const expected = Buffer.from(sign(`${prefix}.${encoded}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as PlayerTokenPayload;
+    if (typeof payload.pid !== 'string' || typeof payload.eid !== 'string' || typeof payload.ver !== 'number') {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+export const readPlayerToken = (req: Request) => req.get(PLAYER_TOKEN_HEADER) ?? null;
+
+export const isInviteOnly = (event: { accessMode: EventAccessMode }) =>
+  event.accessMode === EventAccessMode.INVITE_ONLY;
+
+export const generatePlayerId = () => `player-${crypto.randomBytes(9).toString('hex')}`;
+
+export const authenticatePlayer = async (
+  event: { id: string; accessMode: EventAccessMode },
+  token: string | null
+) => {
+  const payload = token ? verifyPlayerToken(token) : null;
+  if (!payload || payload.eid !== event.id) return null;
+  const player = await prisma.player.findUnique({
+    where: { id: payload.pid },
+    include: { invitation: true }
+  });
+  if (!player || player.eventId !== event.id || player.tokenVersion !== payload.ver) return null;
+  if (isInviteOnly(event) && (!player.invitation || !player.invitation.isActive)) return null;
+  return player;
+};
+
+export const issuePlayerCredential = async (playerId: string, options: { rotate?: boolean } = {}) => {
+  const player = await prisma.player.update({
+    where: { id: playerId },
+    data: {
+      credentialIssuedAt: new Date(),
+      tokenVersion: options.rotate ? { increment: 1 } : undefined
+    }
+  });
+  return signPlayerToken(player);
+};
+
+const hashTransferCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toUpperCase().replace(/[^A-Z0-9]/g, '')).digest('hex');
+
+export const createTransferCode = async (playerId: string) => {
+  const bytes = crypto.randomBytes(TRANSFER_CODE_LENGTH);
+  const raw = Array.from(bytes, (byte) => TRANSFER_CODE_ALPHABET[byte % TRANSFER_CODE_ALPHABET.length]).join('');
+  const code = `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  const expiresAt = new Date(Date.now() + TRANSFER_CODE_TTL_MS);
+  await prisma.$transaction([
+    prisma.playerTransferCode.deleteMany({ where: { playerId, usedAt: null } }),
+    prisma.playerTransferCode.create({ data: { playerId, codeHash: hashTransferCode(code), expiresAt } })
+  ]);
+  return { code, expiresAt };
+};
+
+export const redeemTransferCode = async (eventId: string, code: string) => {
+  const transfer = await prisma.playerTransferCode.findUnique({
+    where: { codeHash: hashTransferCode(code) },
+    include: { player: true }
+  });
+  if (!transfer || transfer.usedAt || transfer.expiresAt <= new Date() || transfer.player.eventId !== eventId) {
+    return null;
+  }
+  const claimed = await prisma.playerTransferCode.updateMany({
+    where: { id: transfer.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  if (claimed.count === 0) return null;
+  return transfer.player;
+};
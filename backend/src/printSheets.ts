@@ -0,0 +1,187 @@
+import PDFDocument from 'pdfkit';
+
+import { renderQrPng } from './qrCodes.js';
+
+const PAGE_MARGIN = 36;
+const CELL_PADDING = 12;
+const QR_IMAGE_WIDTH = 360;
+
+export type CacheTag = {
+  number: number;
+  clue: string;
+  stage: number | null;
+  isFinal: boolean;
+  code: string | null;
+  qrUrl: string;
+  scanToFind: boolean;
+};
+
+export type InvitationHandout = {
+  name: string | null;
+  link: string;
+};
+
+type Cell = { x: number; y: number; width: number; height: number };
+
+const collectPdf = (doc: PDFKit.PDFDocument) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+const drawGrid = (
+  doc: PDFKit.PDFDocument,
+  count: number,
+  columns: number,
+  rows: number,
+  drawCell: (cell: Cell, index: number) => void
+) => {
+  const width = (doc.page.width - PAGE_MARGIN * 2) / columns;
+  const height = (doc.page.height - PAGE_MARGIN * 2) / rows;
+  for (let index = 0; index < count; index += 1) {
+    const position = index % (columns * rows);
+    if (index > 0 && position === 0) doc.addPage();
+    const cell = {
+      x: PAGE_MARGIN + (position % columns) * width,
+      y: PAGE_MARGIN + Math.floor(position / columns) * height,
+      width,
+      height
+    };
+    doc.save().lineWidth(0.5).dash(4, { space: 4 }).strokeColor('#999999');
+    doc.rect(cell.x, cell.y, cell.width, cell.height).stroke();
+    doc.restore();
+    drawCell(cell, index);
+  }
+};
+
+const formatDate = (value: Date) => value.toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatDateRange = (startsAt: Date, endsAt: Date) => `${formatDate(startsAt)} – ${formatDate(endsAt)}`;
+
+export const buildCacheTagsPdf = async (event: { name: string }, tags: CacheTag[]) => {
+  const qrImages = await Promise.all(tags.map((tag) => renderQrPng(tag.qrUrl, QR_IMAGE_WIDTH)));
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    info: { Title: `Cache-Etiketten – ${event.name}` }
+  });
+  const pdf = collectPdf(doc);
+  if (tags.length === 0) {
+    doc.font('Helvetica').fontSize(12).text('Dieses Event hat noch keine Caches.');
+  }
+  drawGrid(doc, tags.length, 2, 4, (cell, index) => {
+    const tag = tags[index];
+    const qrSize = Math.min(cell.height - CELL_PADDING * 2 - 14, cell.width / 2);
+    const textX = cell.x + qrSize + CELL_PADDING * 2;
+    const textWidth = cell.width - qrSize - CELL_PADDING * 3;
+    doc.image(qrImages[index], cell.x + CELL_PADDING, cell.y + CELL_PADDING, { width: qrSize });
+    doc
+      .font('Helvetica')
+      .fontSize(7)
+      .fillColor('#555555')
+      .text(
+        tag.scanToFind ? 'Scannen, um den Fund zu bestätigen' : 'Zum Event',
+        cell.x + CELL_PADDING,
+        cell.y + CELL_PADDING + qrSize + 2,
+        {
+          width: qrSize,
+          align: 'center'
+        }
+      );
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(18)
+      .fillColor('#000000')
+      .text(`Cache ${tag.number}`, textX, cell.y + CELL_PADDING, {
+        width: textWidth
+      });
+    doc.font('Helvetica').fontSize(8).fillColor('#555555').text(event.name, { width: textWidth });
+    const labels = [tag.stage !== null ? `Stufe ${tag.stage}` : null, tag.isFinal ? 'Finale' : null].filter(
+      Boolean
+    );
+    if (labels.length > 0) {
+      doc.text(labels.join(' · '), { width: textWidth });
+    }
+    doc.moveDown(0.5);
+    const codeHeight = tag.code ? 30 : 0;
+    doc
+      .fontSize(9)
+      .fillColor('#000000')
+      .text(tag.clue, {
+        width: textWidth,
+        height: Math.max(cell.y + cell.height - CELL_PADDING - codeHeight - doc.y, 0),
+        ellipsis: true
+      });
+    if (tag.code) {
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor('#555555')
+        .text('Code', textX, cell.y + cell.height - CELL_PADDING - 26, {
+          width: textWidth
+        });
+      doc.font('Helvetica-Bold').fontSize(14).fillColor('#000000').text(tag.code, { width: textWidth });
+    }
+  });
+  doc.end();
+  return pdf;
+};
+
+export const buildInvitationHandoutPdf = async (
+  event: { name: string; startsAt: Date; endsAt: Date },
+  handouts: InvitationHandout[]
+) => {
+  const qrImages = await Promise.all(handouts.map((handout) => renderQrPng(handout.link, QR_IMAGE_WIDTH)));
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    info: { Title: `Einladungen – ${event.name}` }
+  });
+  const pdf = collectPdf(doc);
+  if (handouts.length === 0) {
+    doc.font('Helvetica').fontSize(12).text('Keine offenen Einladungen vorhanden.');
+  }
+  drawGrid(doc, handouts.length, 2, 3, (cell, index) => {
+    const handout = handouts[index];
+    const innerWidth = cell.width - CELL_PADDING * 2;
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(13)
+      .fillColor('#000000')
+      .text(event.name, cell.x + CELL_PADDING, cell.y + CELL_PADDING, {
+        width: innerWidth,
+        align: 'center',
+        height: 34,
+        ellipsis: true
+      });
+    doc.font('Helvetica').fontSize(8).fillColor('#555555').text(formatDateRange(event.startsAt, event.endsAt), {
+      width: innerWidth,
+      align: 'center'
+    });
+    const qrSize = Math.min(innerWidth, cell.height - 110);
+    const qrY = doc.y + 6;
+    doc.image(qrImages[index], cell.x + (cell.width - qrSize) / 2, qrY, { width: qrSize });
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(11)
+      .fillColor('#000000')
+      .text(
+        handout.name ? `Einladung für ${handout.name}` : 'Persönliche Einladung',
+        cell.x + CELL_PADDING,
+        qrY + qrSize + 6,
+        {
+          width: innerWidth,
+          align: 'center'
+        }
+      );
+    doc
+      .font('Helvetica')
+      .fontSize(6.5)
+      .fillColor('#555555')
+      .text(handout.link, { width: innerWidth, align: 'center' });
+  });
+  doc.end();
+  return pdf;
+};
@@ -0,0 +1,28 @@
+import QRCode from 'qrcode';
+
+export type QrFormat = 'svg' | 'png';
+
+const QR_PNG_WIDTH = 512;
+const QR_MARGIN = 1;
+
+export const isQrFormat = (value: unknown): value is QrFormat => value === 'svg' || value === 'png';
+
+export const getPublicBaseUrl = () => process.env.BASE_URL || 'http://localhost:5173';
+
+export const invitationLink = (token: string) => `${getPublicBaseUrl()}/join/${token}`;
+
+export const publicEventLink = (eventId: string) => `${getPublicBaseUrl()}/public/event/${eventId}`;
+
+export const cacheVerificationLink = (cache: { id: string; eventId: string; qrToken: string }) =>
+  `${publicEventLink(cache.eventId)}?cache=${cache.id}&code=${cache.qrToken}`;
+
+export const renderQrPng = (text: string, width = QR_PNG_WIDTH) =>
+  QRCode.toBuffer(text, { type: 'png', width, margin: QR_MARGIN, errorCorrectionLevel: 'M' });
+
+export const renderQrCode = async (text: string, format: QrFormat) =>
+  format === 'svg'
+    ? {
+        contentType: 'image/svg+xml',
+        body: await QRCode.toString(text, { type: 'svg', margin: QR_MARGIN, errorCorrectionLevel: 'M' })
+      }
+    : { contentType: 'image/png', body: await renderQrPng(text) };
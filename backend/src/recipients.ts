@@ -0,0 +1,106 @@
+export type RecipientInput = {
+  email?: string;
+  name?: string | null;
+  locale?: string | null;
+};
+
+export type ParsedRecipient = {
+  row: number;
+  email: string;
+  name: string | null;
+  locale: string | null;
+  error?: string;
+};
+
+export const MAX_BULK_RECIPIENTS = 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LOCALE_PATTERN = /^[a-z]{2}(-[a-z]{2})?$/i;
+
+const EMAIL_HEADERS = ['email', 'e-mail', 'mail', 'emailadresse', 'e-mail-adresse'];
+const NAME_HEADERS = ['name', 'vorname', 'anzeigename'];
+const LOCALE_HEADERS = ['locale', 'sprache', 'language', 'lang'];
+
+export const normalizeLocale = (value: string) => value.trim().replace('_', '-').toLowerCase();
+
+export const isValidLocale = (value: string) => LOCALE_PATTERN.test(value);
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+export const parseRecipientCsv = (csv: string): RecipientInput[] => {
+  const lines = csv
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  if (lines.length === 0) return [];
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map((cell) => cell.toLowerCase());
+  const emailColumn = header.findIndex((cell) => EMAIL_HEADERS.includes(cell));
+  const hasHeader = emailColumn !== -1;
+  const columns = hasHeader
+    ? {
+        email: emailColumn,
+        name: header.findIndex((cell) => NAME_HEADERS.includes(cell)),
+        locale: header.findIndex((cell) => LOCALE_HEADERS.includes(cell))
+      }
+    : { email: 0, name: 1, locale: 2 };
+  return (hasHeader ? lines.slice(1) : lines).map((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    return {
+      email: cells[columns.email],
+      name: columns.name >= 0 ? cells[columns.name] : null,
+      locale: columns.locale >= 0 ? cells[columns.locale] : null
+    };
+  });
+};
+
+const isRecipientInput = (value: unknown): value is RecipientInput =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const normalizeRecipients = (inputs: unknown[]): ParsedRecipient[] =>
+  inputs.map((input, index) => {
+    if (!isRecipientInput(input)) {
+      return { row: index + 1, email: '', name: null, locale: null, error: 'Ungültiger Eintrag' };
+    }
+    const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+    const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : null;
+    const rawLocale = typeof input.locale === 'string' ? input.locale.trim() : '';
+    const recipient: ParsedRecipient = {
+      row: index + 1,
+      email,
+      name,
+      locale: rawLocale ? normalizeLocale(rawLocale) : null
+    };
+    if (!EMAIL_PATTERN.test(email)) {
+      recipient.error = 'Ungültige E-Mail-Adresse';
+    } else if (recipient.locale && !isValidLocale(recipient.locale)) {
+      recipient.error = 'Ungültige Sprache';
+    }
+    return recipient;
+  });
@@ -0,0 +1,145 @@
+import { Cache, CacheFind, Event } from '@prisma/client';
+
+export const MAX_POINTS = 100000;
+export const MIN_DIFFICULTY = 0.1;
+export const MAX_DIFFICULTY = 10;
+
+export type ScoringRules = Pick<
+  Event,
+  | 'startsAt'
+  | 'endsAt'
+  | 'basePoints'
+  | 'firstFinderBonus'
+  | 'secondFinderBonus'
+  | 'thirdFinderBonus'
+  | 'timeBonusPoints'
+  | 'timeBonusMinutes'
+>;
+
+export type ScoringRulesPayload = {
+  basePoints?: number;
+  firstFinderBonus?: number;
+  secondFinderBonus?: number;
+  thirdFinderBonus?: number;
+  timeBonusPoints?: number;
+  timeBonusMinutes?: number | null;
+};
+
+export type CacheScoringPayload = {
+  points?: number | null;
+  difficulty?: number;
+};
+
+export type FindScore = {
+  findId: string;
+  cacheId: string;
+  playerId: string;
+  finderPosition: number;
+  basePoints: number;
+  finderBonus: number;
+  timeBonus: number;
+  difficulty: number;
+  points: number;
+};
+
+const SCORING_POINT_FIELDS = [
+  'basePoints',
+  'firstFinderBonus',
+  'secondFinderBonus',
+  'thirdFinderBonus',
+  'timeBonusPoints'
+] as const;
+
+const isPointValue = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_POINTS;
+
+export const validateScoringRules = (payload: ScoringRulesPayload) => {
+  for (const field of SCORING_POINT_FIELDS) {
+    if (payload[field] !== undefined && !isPointValue(payload[field])) {
+      throw new Error(`${field} muss eine ganze Zahl zwischen 0 und ${MAX_POINTS} sein`);
+    }
+  }
+  if (
+    payload.timeBonusMinutes !== undefined &&
+    payload.timeBonusMinutes !== null &&
+    (!Number.isInteger(payload.timeBonusMinutes) || payload.timeBonusMinutes <= 0)
+  ) {
+    throw new Error('timeBonusMinutes muss eine positive ganze Zahl sein');
+  }
+};
+
+export const validateCacheScoring = (payload: CacheScoringPayload) => {
+  if (payload.points !== undefined && payload.points !== null && !isPointValue(payload.points)) {
+    throw new Error(`Punkte müssen eine ganze Zahl zwischen 0 und ${MAX_POINTS} sein`);
+  }
+  if (
+    payload.difficulty !== undefined &&
+    (typeof payload.difficulty !== 'number' ||
+      payload.difficulty < MIN_DIFFICULTY ||
+      payload.difficulty > MAX_DIFFICULTY)
+  ) {
+    throw new Error(`Schwierigkeit muss zwischen ${MIN_DIFFICULTY} und ${MAX_DIFFICULTY} liegen`);
+  }
+};
+
+export const finderBonusFor = (rules: ScoringRules, finderPosition: number) =>
+  [rules.firstFinderBonus, rules.secondFinderBonus, rules.thirdFinderBonus][finderPosition - 1] ?? 0;
+
+export const timeBonusFor = (rules: ScoringRules, foundAt: Date) => {
+  if (rules.timeBonusPoints <= 0) return 0;
+  const windowMs = rules.timeBonusMinutes
+    ? rules.timeBonusMinutes * 60 * 1000
+    : rules.endsAt.getTime() - rules.startsAt.getTime();
+  if (windowMs <= 0) return 0;
+  const remaining = 1 - (foundAt.getTime() - rules.startsAt.getTime()) / windowMs;
+  return Math.round(rules.timeBonusPoints * Math.min(Math.max(remaining, 0), 1));
+};
+
+export const scoreFinds = (
+  rules: ScoringRules,
+  caches: Array<Pick<Cache, 'id' | 'points' | 'difficulty'>>,
+  finds: Array<Pick<CacheFind, 'id' | 'cacheId' | 'playerId' | 'foundAt'>>
+): FindScore[] => {
+  const cachesById = new Map(caches.map((cache) => [cache.id, cache]));
+  const findersByCache = new Map<string, Set<string>>();
+  return [...finds]
+    .sort((a, b) => a.foundAt.getTime() - b.foundAt.getTime())
+    .flatMap((find): FindScore[] => {
+      const cache = cachesById.get(find.cacheId);
+      const finders = findersByCache.get(find.cacheId) ?? new Set<string>();
+      if (!cache || finders.has(find.playerId)) return [];
+      finders.add(find.playerId);
+      findersByCache.set(find.cacheId, finders);
+      const basePoints = cache.points ?? rules.basePoints;
+      const finderBonus = finderBonusFor(rules, finders.size);
+      const timeBonus = timeBonusFor(rules, find.foundAt);
+      return [
+        {
+          findId: find.id,
+          cacheId: find.cacheId,
+          playerId: find.playerId,
+          finderPosition: finders.size,
+          basePoints,
+          finderBonus,
+          timeBonus,
+          difficulty: cache.difficulty,
+          points: Math.round((basePoints + finderBonus + timeBonus) * cache.difficulty)
+        }
+      ];
+    });
+};
+
+export const sumPoints = (scores: FindScore[], key: 'playerId' | 'cacheId') =>
+  scores.reduce(
+    (totals, score) => totals.set(score[key], (totals.get(score[key]) ?? 0) + score.points),
+    new Map<string, number>()
+  );
+
+export const pickScoringRules = (payload: ScoringRulesPayload) => ({
+  basePoints: payload.basePoints,
+  firstFinderBonus: payload.firstFinderBonus,
+  secondFinderBonus: payload.secondFinderBonus,
+  thirdFinderBonus: payload.thirdFinderBonus,
+  timeBonusPoints: payload.timeBonusPoints,
+  timeBonusMinutes: payload.timeBonusMinutes
+});
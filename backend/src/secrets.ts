@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+
+import { PrismaClient } from '@prisma/client';
+
+const SECRET_PREFIX = 'enc:v1';
+const IV_BYTES = 12;
+
+type EncryptionKey = {
+  id: string;
+  key: Buffer;
+};
+
+const parseKey = (raw: string): EncryptionKey => {
+  const trimmed = raw.trim();
+  const decoded = Buffer.from(trimmed, 'base64');
+  const key = decoded.length === 32 ? decoded : crypto.createHash('sha256').update(trimmed).digest();
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+};
+
+let keyring: { current: EncryptionKey | null; known: Map<string, Buffer> } | null = null;
+
+const getKeyring = () => {
+  if (keyring) return keyring;
+  const current = process.env.SECRETS_ENCRYPTION_KEY ? parseKey(process.env.SECRETS_ENCRYPTION_KEY) : null;
+  const previous = (process.env.SECRETS_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .filter((value) => value.trim())
+    .map(parseKey);
+  if (!current) {
+    console.warn('SECRETS_ENCRYPTION_KEY ist nicht gesetzt; Secrets werden unverschlüsselt gespeichert');
+  }
+  keyring = {
+    current,
+    known: new Map([...previous, ...(current ? [current] : [])].map((entry) => [entry.id, entry.key]))
+  };
+  return keyring;
+};
+
+export const isEncryptedSecret = (value: string) => value.startsWith(`${SECRET_PREFIX}:`);
+
+export const encryptSecret = (value: string | null): string | null => {
+  const currentKey = getKeyring().current;
+  if (value === null || !currentKey || isEncryptedSecret(value)) return value;
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', currentKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [
+    SECRET_PREFIX,
+    currentKey.id,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join(':');
+};
+
+export const decryptSecret = (value: string | null): string | null => {
+  if (value === null || !isEncryptedSecret(value)) return value;
+  const [, , keyId, iv, tag, ciphertext] = value.split(':');
+  const key = getKeyring().known.get(keyId);
+  if (!key) {
+    throw new Error(`Kein Schlüssel für verschlüsseltes Secret (${keyId}) konfiguriert`);
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
+
+const needsReencryption = (value: string | null) => {
+  const currentKey = getKeyring().current;
+  return value !== null && currentKey !== null && !value.startsWith(`${SECRET_PREFIX}:${currentKey.id}:`);
+};
+
+const reencrypt = (value: string | null) => encryptSecret(decryptSecret(value));
+
+export const migrateStoredSecrets = async (client: PrismaClient) => {
+  if (!getKeyring().current) return { settings: 0, admins: 0 };
+  let settings = 0;
+  const setting = await client.systemSetting.findUnique({ where: { id: 1 } });
+  if (setting && needsReencryption(setting.smtpPassword)) {
+    await client.systemSetting.update({
+      where: { id: 1 },
+      data: { smtpPassword: reencrypt(setting.smtpPassword) }
+    });
+    settings += 1;
+  }
+
+  let admins = 0;
+  const adminsWithSecrets = await client.adminUser.findMany({
+    where: { OR: [{ totpSecret: { not: null } }, { totpPendingSecret: { not: null } }] },
+    select: { id: true, totpSecret: true, totpPendingSecret: true }
+  });
+  for (const admin of adminsWithSecrets) {
+    if (!needsReencryption(admin.totpSecret) && !needsReencryption(admin.totpPendingSecret)) continue;
+    await client.adminUser.update({
+      where: { id: admin.id },
+      data: {
+        totpSecret: reencrypt(admin.totpSecret),
+        totpPendingSecret: reencrypt(admin.totpPendingSecret)
+      }
+    });
+    admins += 1;
+  }
+  return { settings, admins };
+};
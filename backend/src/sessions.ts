@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+
+import { AdminSession } from '@prisma/client';
+import { prisma } from './db.js';
+
+const IDLE_TIMEOUT_MS = Number(process.env.ADMIN_SESSION_IDLE_MINUTES || 60) * 60 * 1000;
+const ABSOLUTE_TIMEOUT_MS = Number(process.env.ADMIN_SESSION_MAX_HOURS || 12) * 60 * 60 * 1000;
+const ROTATION_GRACE_MS = 60 * 1000;
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+type SessionMeta = {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateToken = () => crypto.randomBytes(32).toString('hex');
+
+export const getSessionExpiry = (session: Pick<AdminSession, 'lastUsedAt' | 'expiresAt'>) => {
+  const idleExpiresAt = new Date(session.lastUsedAt.getTime() + IDLE_TIMEOUT_MS);
+  return {
+    expiresAt: session.expiresAt.toISOString(),
+    idleExpiresAt: (idleExpiresAt < session.expiresAt ? idleExpiresAt : session.expiresAt).toISOString()
+  };
+};
+
+const isSessionUsable = (session: AdminSession, now: Date) => {
+  if (session.revokedAt) return false;
+  if (session.expiresAt <= now) return false;
+  return now.getTime() - session.lastUsedAt.getTime() <= IDLE_TIMEOUT_MS;
+};
+
+export const createSession = async (adminId: string, meta: SessionMeta = {}) => {
+  const token = generateToken();
+  const now = new Date();
+  const session = await prisma.adminSession.create({
+    data: {
+      adminId,
+      tokenHash: hashToken(token),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + ABSOLUTE_TIMEOUT_MS),
+      userAgent: meta.userAgent ?? null,
+      ipAddress: meta.ipAddress ?? null
+    }
+  });
+  return { token, session };
+};
+
+export const resolveSession = async (token: string) => {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+  let session = await prisma.adminSession.findUnique({ where: { tokenHash } });
+  if (!session) {
+    session = await prisma.adminSession.findFirst({
+      where: { previousTokenHash: tokenHash, rotatedAt: { gte: new Date(now.getTime() - ROTATION_GRACE_MS) } }
+    });
+  }
+  if (!session || !isSessionUsable(session, now)) {
+    return null;
+  }
+  if (now.getTime() - session.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    session = await prisma.adminSession.update({
+      where: { id: session.id },
+      data: { lastUsedAt: now }
+    });
+  }
+  return session;
+};
+
+export const rotateSession = async (session: AdminSession) => {
+  const token = generateToken();
+  const now = new Date();
+  const updated = await prisma.adminSession.update({
+    where: { id: session.id },
+    data: {
+      tokenHash: hashToken(token),
+      previousTokenHash: session.tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now
+    }
+  });
+  return { token, session: updated };
+};
+
+export const revokeSession = async (sessionId: string, adminId?: string) => {
+  const result = await prisma.adminSession.updateMany({
+    where: { id: sessionId, adminId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  return result.count > 0;
+};
+
+export const revokeAllSessions = async (adminId: string) => {
+  await prisma.adminSession.updateMany({
+    where: { adminId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+export const listActiveSessions = async (adminId: string) => {
+  const now = new Date();
+  const sessions = await prisma.adminSession.findMany({
+    where: {
+      adminId,
+      revokedAt: null,
+      expiresAt: { gt: now },
+      lastUsedAt: { gt: new Date(now.getTime() - IDLE_TIMEOUT_MS) }
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+  return sessions;
+};
@@ -0,0 +1,251 @@
+import dns from 'dns';
+import { TLSSocket } from 'tls';
+
+import { SystemSetting } from '@prisma/client';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import SMTPConnection from 'nodemailer/lib/smtp-connection/index.js';
+
+import { decryptSecret } from './secrets.js';
+
+const CONNECTION_TIMEOUT_MS = 10000;
+
+export type SmtpCheckStatus = 'ok' | 'failed' | 'skipped';
+
+export type SmtpCheck = {
+  status: SmtpCheckStatus;
+  durationMs: number;
+  message?: string;
+};
+
+export type SmtpServerError = {
+  stage: 'dns' | 'connection' | 'auth' | 'testEmail';
+  code: string | null;
+  responseCode: number | null;
+  response: string | null;
+  command: string | null;
+};
+
+export type SmtpDiagnostics = {
+  ok: boolean;
+  checkedAt: string;
+  host: string | null;
+  port: number | null;
+  dns: SmtpCheck & { addresses?: string[] };
+  connection: SmtpCheck & { lastResponse?: string | null };
+  tls: SmtpCheck & {
+    mode: 'implicit' | 'starttls' | 'none';
+    protocol?: string | null;
+    cipher?: string | null;
+    certificateAuthorized?: boolean;
+    certificateValidTo?: string | null;
+  };
+  auth: SmtpCheck;
+  testEmail: SmtpCheck & { recipient?: string; response?: string };
+  error: SmtpServerError | null;
+};
+
+export type SmtpTestOptions = {
+  sendTestTo?: string | null;
+};
+
+const skipped = (message?: string): SmtpCheck => ({ status: 'skipped', durationMs: 0, message });
+
+const toServerError = (stage: SmtpServerError['stage'], error: unknown): SmtpServerError => {
+  const smtpError = error as SMTPConnection.SMTPError;
+  return {
+    stage,
+    code: smtpError?.code ?? null,
+    responseCode: smtpError?.responseCode ?? null,
+    response: smtpError?.response ?? null,
+    command: smtpError?.command ?? null
+  };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const timed = async <T>(action: () => Promise<T>) => {
+  const startedAt = Date.now();
+  try {
+    const value = await action();
+    return { value, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return { error, durationMs: Date.now() - startedAt };
+  }
+};
+
+const runStage = <T>(
+  connection: SMTPConnection,
+  stage: (done: (error: SMTPConnection.SMTPError | null | undefined, value?: T) => void) => void
+) =>
+  new Promise<T>((resolve, reject) => {
+    const onError = (error: SMTPConnection.SMTPError) => reject(error);
+    connection.once('error', onError);
+    stage((error, value) => {
+      connection.removeListener('error', onError);
+      if (error) reject(error);
+      else resolve(value as T);
+    });
+  });
+
+const connect = (connection: SMTPConnection) =>
+  runStage<void>(connection, (done) => connection.connect((error) => done(error)));
+
+const login = (connection: SMTPConnection, user: string, pass: string) =>
+  runStage<void>(connection, (done) => connection.login({ user, pass }, (error) => done(error)));
+
+const send = (connection: SMTPConnection, envelope: SMTPConnection.Envelope, message: Buffer) =>
+  runStage<SMTPConnection.SentMessageInfo>(connection, (done) =>
+    connection.send(envelope, message, (error, info) => done(error, info))
+  );
+
+const buildTestMessage = (from: string, to: string) =>
+  new Promise<Buffer>((resolve, reject) => {
+    new MailComposer({
+      from,
+      to,
+      subject: 'GeoCachingEngine SMTP-Test',
+      text: `Diese Testnachricht bestätigt, dass der SMTP-Versand funktioniert.\n\nGesendet: ${new Date().toISOString()}`
+    })
+      .compile()
+      .build((error, message) => (error ? reject(error) : resolve(message)));
+  });
+
+const describeTls = (connection: SMTPConnection, settings: SystemSetting): SmtpDiagnostics['tls'] => {
+  const mode = settings.smtpUseTls ? 'implicit' : connection.secure ? 'starttls' : 'none';
+  const socket = connection._socket;
+  if (!(socket instanceof TLSSocket)) {
+    return { ...skipped('Server bietet kein STARTTLS an'), mode };
+  }
+  const certificate = socket.getPeerCertificate();
+  return {
+    status: socket.authorized ? 'ok' : 'failed',
+    durationMs: 0,
+    message: socket.authorized ? undefined : String(socket.authorizationError ?? 'Zertifikat nicht vertrauenswürdig'),
+    mode,
+    protocol: socket.getProtocol(),
+    cipher: socket.getCipher()?.name ?? null,
+    certificateAuthorized: socket.authorized,
+    certificateValidTo: certificate?.valid_to ?? null
+  };
+};
+
+export const runSmtpDiagnostics = async (
+  settings: SystemSetting | null,
+  options: SmtpTestOptions = {}
+): Promise<SmtpDiagnostics> => {
+  const result: SmtpDiagnostics = {
+    ok: false,
+    checkedAt: new Date().toISOString(),
+    host: settings?.smtpHost ?? null,
+    port: settings?.smtpPort ?? null,
+    dns: skipped(),
+    connection: skipped(),
+    tls: { ...skipped(), mode: settings?.smtpUseTls ? 'implicit' : 'none' },
+    auth: skipped(),
+    testEmail: skipped(options.sendTestTo ? undefined : 'Keine Testmail angefordert'),
+    error: null
+  };
+  if (!settings?.smtpHost || !settings.smtpPort) {
+    result.dns = { status: 'failed', durationMs: 0, message: 'SMTP-Host und -Port müssen gespeichert sein' };
+    return result;
+  }
+
+  const lookup = await timed(() => dns.promises.lookup(settings.smtpHost!, { all: true }));
+  if ('error' in lookup) {
+    result.dns = { status: 'failed', durationMs: lookup.durationMs, message: errorMessage(lookup.error) };
+    result.error = toServerError('dns', lookup.error);
+    return result;
+  }
+  result.dns = {
+    status: 'ok',
+    durationMs: lookup.durationMs,
+    addresses: lookup.value.map((entry) => entry.address)
+  };
+
+  const connection = new SMTPConnection({
+    host: settings.smtpHost,
+    port: settings.smtpPort,
+    secure: settings.smtpUseTls ?? false,
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    greetingTimeout: CONNECTION_TIMEOUT_MS,
+    socketTimeout: CONNECTION_TIMEOUT_MS
+  });
+  connection.on('error', () => undefined);
+  try {
+    const connected = await timed(() => connect(connection));
+    if ('error' in connected) {
+      result.connection = {
+        status: 'failed',
+        durationMs: connected.durationMs,
+        message: errorMessage(connected.error)
+      };
+      const code = (connected.error as SMTPConnection.SMTPError)?.code;
+      if (code === 'ETLS' || (settings.smtpUseTls && code === 'ESOCKET')) {
+        result.tls = { ...result.tls, status: 'failed', message: errorMessage(connected.error) };
+      }
+      result.error = toServerError('connection', connected.error);
+      return result;
+    }
+    result.connection = {
+      status: 'ok',
+      durationMs: connected.durationMs,
+      lastResponse: connection.lastServerResponse || null
+    };
+    result.tls = describeTls(connection, settings);
+
+    if (settings.smtpUser && settings.smtpPassword) {
+      const authenticated = await timed(() => login(connection, settings.smtpUser!, decryptSecret(settings.smtpPassword)!));
+      if ('error' in authenticated) {
+        result.auth = {
+          status: 'failed',
+          durationMs: authenticated.durationMs,
+          message: errorMessage(authenticated.error)
+        };
+        result.error = toServerError('auth', authenticated.error);
+        return result;
+      }
+      result.auth = { status: 'ok', durationMs: authenticated.durationMs };
+    } else {
+      result.auth = skipped('Keine Zugangsdaten hinterlegt');
+    }
+
+    if (options.sendTestTo) {
+      const from = settings.smtpFromAddress || options.sendTestTo;
+      const sent = await timed(async () =>
+        send(
+          connection,
+          { from, to: [options.sendTestTo!] },
+          await buildTestMessage(
+            settings.smtpFromName ? `${settings.smtpFromName} <${from}>` : from,
+            options.sendTestTo!
+          )
+        )
+      );
+      if ('error' in sent) {
+        result.testEmail = {
+          status: 'failed',
+          durationMs: sent.durationMs,
+          message: errorMessage(sent.error),
+          recipient: options.sendTestTo
+        };
+        result.error = toServerError('testEmail', sent.error);
+        return result;
+      }
+      result.testEmail = {
+        status: 'ok',
+        durationMs: sent.durationMs,
+        recipient: options.sendTestTo,
+        response: sent.value.response
+      };
+    }
+
+    result.ok = result.tls.status !== 'failed';
+    return result;
+  } finally {
+    if (connection.stage === 'connected' && !connection.destroyed) {
+      connection.quit();
+    } else {
+      connection.close();
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+import { EmailSuppressionReason, Invitation } from '@prisma/client';
+import { prisma } from './db.js';
+
+export const normalizeEmailAddress = (email: string) => email.trim().toLowerCase();
+
+export const generateUnsubscribeToken = () => crypto.randomBytes(24).toString('hex');
+
+export const buildUnsubscribeLinks = (baseUrl: string, token: string) => ({
+  unsubscribeLink: `${baseUrl}/unsubscribe/${token}`,
+  listUnsubscribeUrl: `${baseUrl}/api/public/unsubscribe/${token}`
+});
+
+export const isEmailSuppressed = async (email: string) =>
+  Boolean(
+    await prisma.emailSuppression.findUnique({
+      where: { email: normalizeEmailAddress(email) },
+      select: { id: true }
+    })
+  );
+
+export const suppressEmail = async (email: string, reason: EmailSuppressionReason, detail?: string | null) =>
+  prisma.emailSuppression.upsert({
+    where: { email: normalizeEmailAddress(email) },
+    create: { email: normalizeEmailAddress(email), reason, detail: detail ?? null },
+    update: {}
+  });
+
+export const ensureUnsubscribeToken = async (invitation: Pick<Invitation, 'id' | 'unsubscribeToken'>) => {
+  if (invitation.unsubscribeToken) return invitation.unsubscribeToken;
+  await prisma.invitation.updateMany({
+    where: { id: invitation.id, unsubscribeToken: null },
+    data: { unsubscribeToken: generateUnsubscribeToken() }
+  });
+  const updated = await prisma.invitation.findUniqueOrThrow({
+    where: { id: invitation.id },
+    select: { unsubscribeToken: true }
+  });
+  return updated.unsubscribeToken!;
+};
+
+export const unsubscribeInvitation = async (token: string) => {
+  const invitation = await prisma.invitation.findUnique({ where: { unsubscribeToken: token } });
+  if (!invitation?.email) return null;
+  await suppressEmail(invitation.email, EmailSuppressionReason.UNSUBSCRIBED, `Einladung ${invitation.id}`);
+  if (invitation.unsubscribedAt) return invitation;
+  return prisma.invitation.update({
+    where: { id: invitation.id },
+    data: { unsubscribedAt: new Date() }
+  });
+};
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+
+import { prisma } from './db.js';
+
+import { pseudonymFor } from './leaderboard.js';
+
+const TEAM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TEAM_CODE_LENGTH = 6;
+
+export const MAX_TEAMS_PER_EVENT = 200;
+export const MAX_TEAM_NAME_LENGTH = 60;
+
+export const generateTeamCode = () =>
+  Array.from(
+    crypto.randomBytes(TEAM_CODE_LENGTH),
+    (byte) => TEAM_CODE_ALPHABET[byte % TEAM_CODE_ALPHABET.length]
+  ).join('');
+
+export const normalizeTeamCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const validateTeamName = (name: unknown) => {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('Teamname erforderlich');
+  }
+  if (name.trim().length > MAX_TEAM_NAME_LENGTH) {
+    throw new Error(`Teamname darf höchstens ${MAX_TEAM_NAME_LENGTH} Zeichen lang sein`);
+  }
+  return name.trim();
+};
+
+export const isTeamNameTaken = async (eventId: string, name: string, excludeTeamId?: string) =>
+  Boolean(
+    await prisma.team.findFirst({
+      where: {
+        eventId,
+        name: { equals: name, mode: 'insensitive' },
+        id: excludeTeamId ? { not: excludeTeamId } : undefined
+      },
+      select: { id: true }
+    })
+  );
+
+export const hasTeamFoundCache = async (teamId: string, cacheId: string) =>
+  Boolean(
+    await prisma.cacheFind.findFirst({
+      where: { cacheId, player: { teamId } },
+      select: { id: true }
+    })
+  );
+
+export const listTeamFoundCacheIds = async (teamId: string) => {
+  const finds = await prisma.cacheFind.findMany({
+    where: { player: { teamId } },
+    select: { cacheId: true },
+    distinct: ['cacheId']
+  });
+  return new Set(finds.map((find) => find.cacheId));
+};
+
+export const hasPlayerFinds = async (playerId: string) =>
+  Boolean(await prisma.cacheFind.findFirst({ where: { playerId }, select: { id: true } }));
+
+export const mapTeamMember = (player: { id: string; nickname: string | null }) => ({
+  id: player.id,
+  displayName: player.nickname?.trim() || pseudonymFor(player.id)
+});
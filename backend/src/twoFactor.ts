@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+
+import { AdminUser } from '@prisma/client';
+
+import { decryptSecret } from './secrets.js';
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from './totp.js';
+import { prisma } from './db.js';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export type SecondFactorInput = {
+  code?: string;
+  recoveryCode?: string;
+};
+
+export const isSecondFactorInput = (input: SecondFactorInput) =>
+  (input.code === undefined || typeof input.code === 'string') &&
+  (input.recoveryCode === undefined || typeof input.recoveryCode === 'string');
+
+export const isTotpEnabled = (admin: Pick<AdminUser, 'totpEnabledAt' | 'totpSecret'>) =>
+  Boolean(admin.totpEnabledAt && admin.totpSecret);
+
+export const createLoginChallenge = async (adminId: string) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const challenge = await prisma.adminLoginChallenge.create({
+    data: {
+      adminId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+    }
+  });
+  return { token, expiresAt: challenge.expiresAt };
+};
+
+export const resolveLoginChallenge = async (token: string) => {
+  const challenge = await prisma.adminLoginChallenge.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { admin: true }
+  });
+  if (
+    !challenge ||
+    challenge.consumedAt ||
+    challenge.expiresAt <= new Date() ||
+    challenge.attempts >= MAX_CHALLENGE_ATTEMPTS
+  ) {
+    return null;
+  }
+  return challenge;
+};
+
+export const recordChallengeFailure = async (challengeId: string) => {
+  await prisma.adminLoginChallenge.update({
+    where: { id: challengeId },
+    data: { attempts: { increment: 1 } }
+  });
+};
+
+export const consumeLoginChallenge = async (challengeId: string) => {
+  await prisma.adminLoginChallenge.update({
+    where: { id: challengeId },
+    data: { consumedAt: new Date() }
+  });
+};
+
+export const verifySecondFactor = async (
+  admin: Pick<AdminUser, 'id' | 'totpSecret' | 'totpLastUsedStep'>,
+  input: SecondFactorInput,
+  now: number = Date.now()
+): Promise<'totp' | 'recovery' | null> => {
+  if (input.code && admin.totpSecret) {
+    const step = verifyTotp(decryptSecret(admin.totpSecret)!, input.code, {
+      now,
+      lastUsedStep: admin.totpLastUsedStep
+    });
+    if (step === null) return null;
+    const updated = await prisma.adminUser.updateMany({
+      where: {
+        id: admin.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }]
+      },
+      data: { totpLastUsedStep: step }
+    });
+    return updated.count > 0 ? 'totp' : null;
+  }
+  if (input.recoveryCode) {
+    const used = await prisma.adminRecoveryCode.updateMany({
+      where: { adminId: admin.id, codeHash: hashRecoveryCode(input.recoveryCode), usedAt: null },
+      data: { usedAt: new Date(now) }
+    });
+    return used.count > 0 ? 'recovery' : null;
+  }
+  return null;
+};
+
+export const replaceRecoveryCodes = async (adminId: string) => {
+  const codes = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.adminRecoveryCode.deleteMany({ where: { adminId } }),
+    prisma.adminRecoveryCode.createMany({
+      data: codes.map((code) => ({ adminId, codeHash: hashRecoveryCode(code) }))
+    })
+  ]);
+  return codes;
+};
+
+export const countRemainingRecoveryCodes = (adminId: string) =>
+  prisma.adminRecoveryCode.count({ where: { adminId, usedAt: null } });
+
+export const disableTotp = async (adminId: string) => {
+  await prisma.$transaction([
+    prisma.adminUser.update({
+      where: { id: adminId },
+      data: {
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null
+      }
+    }),
+    prisma.adminRecoveryCode.deleteMany({ where: { adminId } }),
+    prisma.adminLoginChallenge.deleteMany({ where: { adminId } })
+  ]);
+};
@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+
+import { Cache, CacheVerificationMode } from '@prisma/client';
+
+export const MAX_VERIFICATION_ANSWERS = 20;
+export const MAX_ANSWER_OPTIONS = 10;
+export const MAX_ANSWER_LENGTH = 200;
+
+export type CacheVerificationPayload = {
+  verificationMode?: CacheVerificationMode;
+  verificationAnswers?: string[];
+  answerOptions?: string[];
+};
+
+type VerifiableCache = Pick<Cache, 'verificationMode' | 'verificationAnswers' | 'answerOptions' | 'qrToken'>;
+
+export const normalizeAnswer = (value: string) =>
+  value.normalize('NFKC').toLocaleLowerCase('de').replace(/\s+/g, '');
+
+export const generateQrToken = () => crypto.randomBytes(18).toString('base64url');
+
+const isStringList = (value: unknown, maxItems: number) =>
+  Array.isArray(value) &&
+  value.length <= maxItems &&
+  value.every((item) => typeof item === 'string' && item.trim() && item.length <= MAX_ANSWER_LENGTH);
+
+export const validateCacheVerification = (
+  payload: CacheVerificationPayload,
+  existing?: Pick<Cache, 'verificationMode' | 'verificationAnswers' | 'answerOptions'>
+) => {
+  if (
+    payload.verificationMode !== undefined &&
+    !(Object.values(CacheVerificationMode) as string[]).includes(payload.verificationMode)
+  ) {
+    throw new Error('Ungültige Prüfmethode');
+  }
+  if (
+    payload.verificationAnswers !== undefined &&
+    !isStringList(payload.verificationAnswers, MAX_VERIFICATION_ANSWERS)
+  ) {
+    throw new Error(
+      `Lösungen müssen eine Liste mit höchstens ${MAX_VERIFICATION_ANSWERS} Einträgen à ${MAX_ANSWER_LENGTH} Zeichen sein`
+    );
+  }
+  if (payload.answerOptions !== undefined && !isStringList(payload.answerOptions, MAX_ANSWER_OPTIONS)) {
+    throw new Error(
+      `Antwortoptionen müssen eine Liste mit höchstens ${MAX_ANSWER_OPTIONS} Einträgen à ${MAX_ANSWER_LENGTH} Zeichen sein`
+    );
+  }
+
+  const mode = payload.verificationMode ?? existing?.verificationMode ?? CacheVerificationMode.GPS;
+  const answers = payload.verificationAnswers ?? existing?.verificationAnswers ?? [];
+  const options = payload.answerOptions ?? existing?.answerOptions ?? [];
+  if ((mode === CacheVerificationMode.CODE || mode === CacheVerificationMode.ANSWER) && answers.length === 0) {
+    throw new Error(
+      mode === CacheVerificationMode.CODE ? 'Code erforderlich' : 'Mindestens eine richtige Antwort erforderlich'
+    );
+  }
+  if (mode === CacheVerificationMode.ANSWER && options.length > 0) {
+    if (options.length < 2) {
+      throw new Error('Multiple Choice benötigt mindestens zwei Antwortoptionen');
+    }
+    const normalizedOptions = new Set(options.map(normalizeAnswer));
+    if (!answers.every((answer) => normalizedOptions.has(normalizeAnswer(answer)))) {
+      throw new Error('Richtige Antworten müssen in den Antwortoptionen enthalten sein');
+    }
+  }
+};
+
+export const pickCacheVerification = (payload: CacheVerificationPayload) => ({
+  verificationMode: payload.verificationMode,
+  verificationAnswers: payload.verificationAnswers?.map((answer) => answer.trim()),
+  answerOptions: payload.answerOptions?.map((option) => option.trim())
+});
+
+export const isAnswerAccepted = (cache: VerifiableCache, answer: string) => {
+  const normalized = normalizeAnswer(answer);
+  return (
+    Boolean(normalized) && cache.verificationAnswers.some((accepted) => normalizeAnswer(accepted) === normalized)
+  );
+};
+
+export const isQrTokenValid = (cache: VerifiableCache, token: string) => {
+  if (!cache.qrToken) return false;
+  const expected = crypto.createHash('sha256').update(cache.qrToken).digest();
+  const actual = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(expected, actual);
+};
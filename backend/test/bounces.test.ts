@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { normalizeMessageId, parseBounceWebhook, parseDeliveryStatusReport } from '../src/bounces.js';
+
+const dsn = (action: string, status: string, diagnostic: string) =>
+  [
+    'From: MAILER-DAEMON@mx.example.net',
+    'Subject: Undelivered Mail Returned to Sender',
+    'Content-Type: multipart/report; report-type=delivery-status; boundary="b"',
+    '',
+    '--b',
+    'Content-Type: message/delivery-status',
+    '',
+    'Reporting-MTA: dns; mx.example.net',
+    '',
+    'Final-Recipient: rfc822; <Anna@Example.com>',
+    `Action: ${action}`,
+    `Status: ${status}`,
+    `Diagnostic-Code: smtp; ${diagnostic}`,
+    '  (continued)',
+    '',
+    '--b',
+    'Content-Type: message/rfc822-headers',
+    '',
+    'Message-ID: <abc123@geocaching.example>',
+    'Subject: Einladung',
+    '--b--'
+  ].join('\r\n');
+
+test('parseDeliveryStatusReport reads hard bounces with folded diagnostic codes', () => {
+  assert.deepEqual(parseDeliveryStatusReport(dsn('failed', '5.1.1', '550 5.1.1 user unknown')), [
+    {
+      recipient: 'anna@example.com',
+      kind: 'hard',
+      messageId: '<abc123@geocaching.example>',
+      reason: '550 5.1.1 user unknown (continued)'
+    }
+  ]);
+});
+
+test('parseDeliveryStatusReport treats delays and 4xx failures as soft bounces', () => {
+  assert.equal(parseDeliveryStatusReport(dsn('delayed', '4.2.2', '452 mailbox full'))[0].kind, 'soft');
+  assert.equal(parseDeliveryStatusReport(dsn('failed', '4.4.7', '421 timeout'))[0].kind, 'soft');
+  assert.deepEqual(parseDeliveryStatusReport(dsn('delivered', '2.0.0', '250 ok')), []);
+  assert.deepEqual(parseDeliveryStatusReport('kein Bericht'), []);
+});
+
+test('parseDeliveryStatusReport reads ARF complaints', () => {
+  const report = [
+    'Content-Type: message/feedback-report',
+    '',
+    'Feedback-Type: abuse',
+    'Original-Rcpt-To: <ben@example.com>',
+    '',
+    'Message-ID: <def456@geocaching.example>'
+  ].join('\n');
+  assert.deepEqual(parseDeliveryStatusReport(report), [
+    {
+      recipient: 'ben@example.com',
+      kind: 'complaint',
+      messageId: '<def456@geocaching.example>',
+      reason: 'Beschwerde (abuse)'
+    }
+  ]);
+});
+
+test('parseBounceWebhook accepts single events, arrays and event lists and skips unusable entries', () => {
+  assert.deepEqual(
+    parseBounceWebhook({ type: 'bounce', bounceType: 'Transient', email: 'Cem@Example.com', messageId: 'x@y' }),
+    [{ recipient: 'cem@example.com', kind: 'soft', messageId: '<x@y>', reason: null }]
+  );
+  assert.deepEqual(
+    parseBounceWebhook({
+      events: [
+        { type: 'complaint', recipient: 'dana@example.com' },
+        { type: 'delivered', recipient: 'dana@example.com' },
+        { type: 'bounce', recipient: 'keine-adresse' },
+        null
+      ]
+    }).map(({ recipient, kind }) => [recipient, kind]),
+    [['dana@example.com', 'complaint']]
+  );
+  assert.equal(
+    parseBounceWebhook([{ recipient: 'eva@example.com', reason: 'x'.repeat(800) }])[0].reason?.length,
+    500
+  );
+  assert.deepEqual(parseBounceWebhook(null), []);
+});
+
+test('normalizeMessageId wraps ids in angle brackets once', () => {
+  assert.equal(normalizeMessageId(' <a@b> '), '<a@b>');
+  assert.equal(normalizeMessageId('a@b'), '<a@b>');
+  assert.equal(normalizeMessageId('  '), null);
+  assert.equal(normalizeMessageId(undefined), null);
+});
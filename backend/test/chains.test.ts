@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { CacheUnlockMode } from '@prisma/client';
+
+import { ChainCache, isCacheUnlocked, validatePrerequisiteGraph } from '../src/chains.js';
+
+const chainCache = (
+  id: string,
+  stage: number | null,
+  prerequisiteIds: string[] = [],
+  unlockMode: CacheUnlockMode = CacheUnlockMode.ALL
+): ChainCache => ({
+  id,
+  stage,
+  unlockMode,
+  prerequisites: prerequisiteIds.map((prerequisite) => ({ id: prerequisite }))
+});
+
+test('isCacheUnlocked waits until every cache of earlier stages is solved', () => {
+  const caches = [chainCache('a', 1), chainCache('b', 1), chainCache('c', 2), chainCache('free', null)];
+  const [a, , c, free] = caches;
+  assert.equal(isCacheUnlocked(a, caches, new Set()), true);
+  assert.equal(isCacheUnlocked(free, caches, new Set()), true);
+  assert.equal(isCacheUnlocked(c, caches, new Set(['a'])), false);
+  assert.equal(isCacheUnlocked(c, caches, new Set(['a', 'b'])), true);
+});
+
+test('isCacheUnlocked honours ALL and ANY prerequisites', () => {
+  const caches = [chainCache('a', null), chainCache('b', null)];
+  const all = chainCache('final', null, ['a', 'b']);
+  const any = chainCache('final', null, ['a', 'b'], CacheUnlockMode.ANY);
+  assert.equal(isCacheUnlocked(all, caches, new Set(['a'])), false);
+  assert.equal(isCacheUnlocked(all, caches, new Set(['a', 'b'])), true);
+  assert.equal(isCacheUnlocked(any, caches, new Set()), false);
+  assert.equal(isCacheUnlocked(any, caches, new Set(['b'])), true);
+});
+
+test('isCacheUnlocked requires both the stage and the prerequisites', () => {
+  const caches = [chainCache('a', 1), chainCache('side', null)];
+  const final = chainCache('final', 2, ['side']);
+  assert.equal(isCacheUnlocked(final, [...caches, final], new Set(['side'])), false);
+  assert.equal(isCacheUnlocked(final, [...caches, final], new Set(['a'])), false);
+  assert.equal(isCacheUnlocked(final, [...caches, final], new Set(['a', 'side'])), true);
+});
+
+test('validatePrerequisiteGraph accepts acyclic chains', () => {
+  const caches = [chainCache('a', 1), chainCache('b', 2), chainCache('c', null, ['a'])];
+  assert.doesNotThrow(() => validatePrerequisiteGraph(caches, chainCache('final', 3, ['b', 'c'])));
+  assert.doesNotThrow(() => validatePrerequisiteGraph(caches, chainCache('b', 2, ['c'])));
+});
+
+test('validatePrerequisiteGraph rejects self references and foreign caches', () => {
+  const caches = [chainCache('a', null), chainCache('b', null)];
+  assert.throws(() => validatePrerequisiteGraph(caches, chainCache('a', null, ['a'])), /für sich selbst/);
+  assert.throws(() => validatePrerequisiteGraph(caches, chainCache('b', null, ['x'])), /desselben Events/);
+});
+
+test('validatePrerequisiteGraph detects cycles through prerequisites and stages', () => {
+  const direct = [chainCache('a', null, ['b']), chainCache('b', null)];
+  assert.throws(() => validatePrerequisiteGraph(direct, chainCache('b', null, ['a'])), /Kreis/);
+
+  const longer = [chainCache('a', null, ['c']), chainCache('b', null, ['a']), chainCache('c', null)];
+  assert.throws(() => validatePrerequisiteGraph(longer, chainCache('c', null, ['b'])), /Kreis/);
+
+  const staged = [chainCache('early', 1), chainCache('late', 2)];
+  assert.throws(() => validatePrerequisiteGraph(staged, chainCache('early', 1, ['late'])), /Kreis/);
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { escapeHtml, renderEmailTemplate, renderTemplate, selectTemplate } from '../src/emailTemplates.js';
+
+const hostileName = `<script>alert("x")</script> & 'Co'`;
+
+test('escapeHtml escapes every HTML-significant character', () => {
+  assert.equal(escapeHtml(hostileName), '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;Co&#39;');
+  assert.equal(escapeHtml('Schatzsuche am See'), 'Schatzsuche am See');
+});
+
+test('renderTemplate escapes placeholder values only in HTML mode', () => {
+  const template = '<p>{{ eventName }}</p><p>{{unknown}}</p>';
+  assert.equal(
+    renderTemplate(template, { eventName: hostileName }, { html: true }),
+    '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;Co&#39;</p><p></p>'
+  );
+  assert.equal(renderTemplate(template, { eventName: hostileName }), `<p>${hostileName}</p><p></p>`);
+});
+
+test('renderEmailTemplate escapes event data in HTML and strips line breaks from the subject', () => {
+  const template = selectTemplate('de', [], { locale: 'de', subject: null, htmlBody: null, textBody: null });
+  const rendered = renderEmailTemplate(template, {
+    eventName: `${hostileName}\r\nBcc: opfer@example.com`,
+    inviteLink: 'https://example.com/join/abc?x=1&y="2"'
+  });
+  assert.ok(!rendered.html.includes('<script>'));
+  assert.ok(rendered.html.includes('&lt;script&gt;'));
+  assert.ok(rendered.html.includes('href="https://example.com/join/abc?x=1&amp;y=&quot;2&quot;"'));
+  assert.ok(!/[\r\n]/.test(rendered.subject));
+  assert.ok(rendered.text.includes('<script>alert("x")</script>'));
+});
+
+test('renderEmailTemplate escapes text bodies when converting them to HTML', () => {
+  const rendered = renderEmailTemplate(
+    { locale: 'en', subject: 'Hi', htmlBody: null, textBody: 'Hallo {{recipientName}}\n\n{{inviteLink}}' },
+    { recipientName: '<b>Eve</b>', inviteLink: 'https://example.com/join/abc' }
+  );
+  assert.ok(rendered.html.includes('<p>Hallo &lt;b&gt;Eve&lt;/b&gt;</p>'));
+  assert.ok(rendered.html.includes('<a href="https://example.com/join/abc">https://example.com/join/abc</a>'));
+  assert.equal(rendered.text, 'Hallo <b>Eve</b>\n\nhttps://example.com/join/abc');
+});
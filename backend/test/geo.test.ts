@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { haversineDistanceMeters, initialBearingDegrees, parseReportedPosition } from '../src/geo.js';
+
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+test('haversineDistanceMeters measures one degree along a meridian and the equator', () => {
+  assert.equal(haversineDistanceMeters(52, 13, 52, 13), 0);
+  assert.ok(Math.abs(haversineDistanceMeters(0, 0, 1, 0) - METERS_PER_DEGREE) < 0.001);
+  assert.ok(Math.abs(haversineDistanceMeters(0, 0, 0, 1) - METERS_PER_DEGREE) < 0.001);
+  assert.equal(haversineDistanceMeters(48.1, 11.5, 52.5, 13.4), haversineDistanceMeters(52.5, 13.4, 48.1, 11.5));
+});
+
+test('haversineDistanceMeters takes the short way across the antimeridian and the poles', () => {
+  assert.ok(Math.abs(haversineDistanceMeters(0, 179.9, 0, -179.9) - 0.2 * METERS_PER_DEGREE) < 0.01);
+  assert.ok(haversineDistanceMeters(90, 0, 90, 180) < 0.001);
+  assert.ok(Math.abs(haversineDistanceMeters(-90, 0, 90, 0) - 180 * METERS_PER_DEGREE) < 0.01);
+});
+
+test('initialBearingDegrees points along the compass', () => {
+  assert.equal(Math.round(initialBearingDegrees(0, 0, 1, 0)), 0);
+  assert.equal(Math.round(initialBearingDegrees(0, 0, 0, 1)), 90);
+  assert.equal(Math.round(initialBearingDegrees(0, 0, -1, 0)), 180);
+  assert.equal(Math.round(initialBearingDegrees(0, 0, 0, -1)), 270);
+  assert.equal(Math.round(initialBearingDegrees(0, 179.9, 0, -179.9)), 90);
+});
+
+test('parseReportedPosition rejects missing, out-of-range, imprecise and stale positions', () => {
+  const now = new Date('2026-05-01T10:00:00Z');
+  const fresh = { latitude: 52.5, longitude: 13.4, accuracy: 10, timestamp: now.getTime() - 5000 };
+  assert.deepEqual(parseReportedPosition(fresh, now), { ...fresh, timestamp: new Date(fresh.timestamp) });
+  assert.throws(() => parseReportedPosition(undefined, now), /Position fehlt/);
+  assert.throws(() => parseReportedPosition({ ...fresh, latitude: 91 }, now), /Ungültige Breite/);
+  assert.throws(() => parseReportedPosition({ ...fresh, longitude: '13.4' }, now), /Ungültige Länge/);
+  assert.throws(() => parseReportedPosition({ ...fresh, accuracy: 5000 }, now), /zu ungenau/);
+  assert.throws(() => parseReportedPosition({ ...fresh, timestamp: 'gestern' }, now), /Zeitstempel/);
+  assert.throws(() => parseReportedPosition({ ...fresh, timestamp: now.getTime() - 3600000 }, now), /veraltet/);
+});
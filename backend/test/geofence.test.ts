@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import {
+  assertCachesInPlayArea,
+  eventGeofence,
+  isInsidePlayArea,
+  isInsidePolygon,
+  validateEventGeofence
+} from '../src/geofence.js';
+
+const square = [
+  { latitude: 0, longitude: 0 },
+  { latitude: 0, longitude: 10 },
+  { latitude: 10, longitude: 10 },
+  { latitude: 10, longitude: 0 }
+];
+
+const uShape = [
+  { latitude: 0, longitude: 0 },
+  { latitude: 0, longitude: 3 },
+  { latitude: 3, longitude: 3 },
+  { latitude: 3, longitude: 2 },
+  { latitude: 1, longitude: 2 },
+  { latitude: 1, longitude: 1 },
+  { latitude: 3, longitude: 1 },
+  { latitude: 3, longitude: 0 }
+];
+
+const acrossAntimeridian = [
+  { latitude: -20, longitude: 175 },
+  { latitude: -20, longitude: -175 },
+  { latitude: -10, longitude: -175 },
+  { latitude: -10, longitude: 175 }
+];
+
+test('isInsidePolygon separates inside and outside points of convex and concave polygons', () => {
+  assert.equal(isInsidePolygon(square, { latitude: 5, longitude: 5 }), true);
+  assert.equal(isInsidePolygon(square, { latitude: 5, longitude: 11 }), false);
+  assert.equal(isInsidePolygon(square, { latitude: -0.001, longitude: 5 }), false);
+  assert.equal(isInsidePolygon(uShape, { latitude: 2, longitude: 0.5 }), true);
+  assert.equal(isInsidePolygon(uShape, { latitude: 2, longitude: 1.5 }), false);
+  assert.equal(isInsidePolygon(uShape, { latitude: 0.5, longitude: 1.5 }), true);
+});
+
+test('isInsidePolygon handles points level with a vertex', () => {
+  const diamond = [
+    { latitude: 0, longitude: 5 },
+    { latitude: 5, longitude: 10 },
+    { latitude: 10, longitude: 5 },
+    { latitude: 5, longitude: 0 }
+  ];
+  assert.equal(isInsidePolygon(diamond, { latitude: 5, longitude: 5 }), true);
+  assert.equal(isInsidePolygon(diamond, { latitude: 5, longitude: 11 }), false);
+  assert.equal(isInsidePolygon(diamond, { latitude: 5, longitude: -1 }), false);
+});
+
+test('isInsidePolygon supports play areas that cross the antimeridian', () => {
+  assert.equal(isInsidePolygon(acrossAntimeridian, { latitude: -15, longitude: 178 }), true);
+  assert.equal(isInsidePolygon(acrossAntimeridian, { latitude: -15, longitude: -178 }), true);
+  assert.equal(isInsidePolygon(acrossAntimeridian, { latitude: -15, longitude: 180 }), true);
+  assert.equal(isInsidePolygon(acrossAntimeridian, { latitude: -15, longitude: 0 }), false);
+  assert.equal(isInsidePolygon(acrossAntimeridian, { latitude: -15, longitude: 170 }), false);
+  assert.equal(isInsidePolygon(acrossAntimeridian, { latitude: -25, longitude: 179 }), false);
+});
+
+test('isInsidePlayArea allows everything without a play area', () => {
+  assert.equal(isInsidePlayArea(null, { latitude: 89, longitude: -179 }), true);
+  assert.doesNotThrow(() => assertCachesInPlayArea(square, [{ latitude: 1, longitude: 1 }]));
+  assert.throws(
+    () =>
+      assertCachesInPlayArea(square, [
+        { latitude: 1, longitude: 1 },
+        { latitude: 20, longitude: 1 }
+      ]),
+    /20, 1 liegt außerhalb/
+  );
+});
+
+test('validateEventGeofence rejects degenerate play areas and invalid points', () => {
+  assert.doesNotThrow(() => validateEventGeofence({ playArea: square, startPoint: { label: 'Parkplatz' } }));
+  assert.throws(() => validateEventGeofence({ playArea: square.slice(0, 2) }), /Eckpunkte/);
+  assert.throws(
+    () => validateEventGeofence({ playArea: [...square.slice(0, 3), { latitude: 91, longitude: 0 }] }),
+    /ungültige Koordinaten/
+  );
+  assert.throws(
+    () =>
+      validateEventGeofence({
+        playArea: [
+          { latitude: 0, longitude: 0 },
+          { latitude: 1, longitude: 1 },
+          { latitude: 2, longitude: 2 }
+        ]
+      }),
+    /keine Fläche/
+  );
+  assert.throws(() => validateEventGeofence({ startPoint: { latitude: 10 } }), /gültige Koordinaten/);
+  assert.throws(() => validateEventGeofence({ endPoint: { label: '  ' } }), /Koordinaten oder eine Bezeichnung/);
+});
+
+test('eventGeofence keeps label-only points and ignores malformed stored play areas', () => {
+  assert.deepEqual(
+    eventGeofence({
+      startLatitude: null,
+      startLongitude: null,
+      startLabel: 'Am Brunnen',
+      endLatitude: null,
+      endLongitude: null,
+      endLabel: null,
+      playArea: [{ latitude: 'x' }]
+    }),
+    {
+      startPoint: { latitude: null, longitude: null, label: 'Am Brunnen' },
+      endPoint: null,
+      playArea: null
+    }
+  );
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { signPlayerToken, validatePlayerTokenSecret, verifyPlayerToken } from '../src/players.js';
+
+process.env.PLAYER_TOKEN_SECRET = 'test-secret-for-player-tokens';
+
+const player = { id: 'player-abc', eventId: 'event-1', tokenVersion: 3 };
+
+test('verifyPlayerToken accepts a freshly signed token', () => {
+  const token = signPlayerToken(player);
+  assert.match(token, /^pt1\.[\w-]+\.[\w-]+$/);
+  assert.deepEqual(verifyPlayerToken(token), { pid: 'player-abc', eid: 'event-1', ver: 3 });
+});
+
+test('verifyPlayerToken rejects tampered payloads and signatures', () => {
+  const [prefix, encoded, signature] = signPlayerToken(player).split('.');
+  const forged = Buffer.from(JSON.stringify({ pid: 'player-xyz', eid: 'event-1', ver: 3 })).toString('base64url');
+  const flipped = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+  assert.equal(verifyPlayerToken(`${prefix}.${forged}.${signature}`), null);
+  assert.equal(verifyPlayerToken(`${prefix}.${encoded}.${flipped}`), null);
+  assert.equal(verifyPlayerToken(`${prefix}.${encoded}.${signature.slice(1)}`), null);
+  assert.equal(verifyPlayerToken(`pt2.${encoded}.${signature}`), null);
+  assert.equal(verifyPlayerToken(`${prefix}.${encoded}`), null);
+  assert.equal(verifyPlayerToken(''), null);
+});
+
+test('validatePlayerTokenSecret rejects the example value', () => {
+  const configured = process.env.PLAYER_TOKEN_SECRET;
+  process.env.PLAYER_TOKEN_SECRET = 'change-me-to-a-long-random-string';
+  try {
+    assert.throws(() => validatePlayerTokenSecret(), /Beispielwert/);
+  } finally {
+    process.env.PLAYER_TOKEN_SECRET = configured;
+  }
+  assert.doesNotThrow(() => validatePlayerTokenSecret());
+});
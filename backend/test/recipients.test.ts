@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { normalizeRecipients, parseRecipientCsv } from '../src/recipients.js';
+
+test('parseRecipientCsv maps header columns in any order and handles quoting', () => {
+  const csv =
+    '\uFEFFSprache;Name;E-Mail\r\nen;"Müller; Anna";anna@example.com\r\n\r\n;"Ben ""B"" Kurz";ben@example.com';
+  assert.deepEqual(parseRecipientCsv(csv), [
+    { email: 'anna@example.com', name: 'Müller; Anna', locale: 'en' },
+    { email: 'ben@example.com', name: 'Ben "B" Kurz', locale: '' }
+  ]);
+});
+
+test('parseRecipientCsv falls back to email, name, locale columns without a header', () => {
+  assert.deepEqual(parseRecipientCsv('anna@example.com,Anna,de\nben@example.com'), [
+    { email: 'anna@example.com', name: 'Anna', locale: 'de' },
+    { email: 'ben@example.com', name: undefined, locale: undefined }
+  ]);
+  assert.deepEqual(parseRecipientCsv('\n  \n'), []);
+});
+
+test('normalizeRecipients lowercases emails, normalizes locales and flags invalid rows', () => {
+  assert.deepEqual(
+    normalizeRecipients([
+      { email: ' Anna@Example.COM ', name: '  Anna ', locale: 'de_AT' },
+      { email: 'kein-at-zeichen', name: 'Ben' },
+      { email: 'cem@example.com', locale: 'deutsch' }
+    ]),
+    [
+      { row: 1, email: 'anna@example.com', name: 'Anna', locale: 'de-at' },
+      { row: 2, email: 'kein-at-zeichen', name: 'Ben', locale: null, error: 'Ungültige E-Mail-Adresse' },
+      { row: 3, email: 'cem@example.com', name: null, locale: 'deutsch', error: 'Ungültige Sprache' }
+    ]
+  );
+});
+
+test('normalizeRecipients reports non-object JSON entries as invalid rows', () => {
+  const rows = normalizeRecipients([null, 42, 'anna@example.com', ['anna@example.com'], { email: 7 }]);
+  assert.deepEqual(
+    rows.map((row) => [row.row, row.error]),
+    [
+      [1, 'Ungültiger Eintrag'],
+      [2, 'Ungültiger Eintrag'],
+      [3, 'Ungültiger Eintrag'],
+      [4, 'Ungültiger Eintrag'],
+      [5, 'Ungültige E-Mail-Adresse']
+    ]
+  );
+});
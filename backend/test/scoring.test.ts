@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { finderBonusFor, scoreFinds, ScoringRules, sumPoints, timeBonusFor } from '../src/scoring.js';
+
+const startsAt = new Date('2026-06-01T10:00:00Z');
+const minutesAfterStart = (minutes: number) => new Date(startsAt.getTime() + minutes * 60 * 1000);
+
+const rules: ScoringRules = {
+  startsAt,
+  endsAt: minutesAfterStart(240),
+  basePoints: 100,
+  firstFinderBonus: 50,
+  secondFinderBonus: 30,
+  thirdFinderBonus: 10,
+  timeBonusPoints: 60,
+  timeBonusMinutes: 60
+};
+
+test('finderBonusFor pays the first three finders only', () => {
+  assert.deepEqual(
+    [1, 2, 3, 4].map((position) => finderBonusFor(rules, position)),
+    [50, 30, 10, 0]
+  );
+});
+
+test('timeBonusFor decreases linearly over the bonus window and never goes negative', () => {
+  assert.equal(timeBonusFor(rules, startsAt), 60);
+  assert.equal(timeBonusFor(rules, minutesAfterStart(15)), 45);
+  assert.equal(timeBonusFor(rules, minutesAfterStart(60)), 0);
+  assert.equal(timeBonusFor(rules, minutesAfterStart(90)), 0);
+  assert.equal(timeBonusFor(rules, minutesAfterStart(-10)), 60);
+  assert.equal(timeBonusFor({ ...rules, timeBonusMinutes: null }, minutesAfterStart(120)), 30);
+  assert.equal(timeBonusFor({ ...rules, timeBonusPoints: 0 }, startsAt), 0);
+});
+
+test('scoreFinds ranks finders by time, applies difficulty and ignores repeated finds', () => {
+  const caches = [
+    { id: 'c1', points: null, difficulty: 1 },
+    { id: 'c2', points: 200, difficulty: 1.5 }
+  ];
+  const finds = [
+    { id: 'f3', cacheId: 'c1', playerId: 'p3', foundAt: minutesAfterStart(60) },
+    { id: 'f1', cacheId: 'c1', playerId: 'p1', foundAt: minutesAfterStart(0) },
+    { id: 'f2', cacheId: 'c1', playerId: 'p2', foundAt: minutesAfterStart(30) },
+    { id: 'f1b', cacheId: 'c1', playerId: 'p1', foundAt: minutesAfterStart(45) },
+    { id: 'f4', cacheId: 'c1', playerId: 'p4', foundAt: minutesAfterStart(90) },
+    { id: 'f5', cacheId: 'c2', playerId: 'p2', foundAt: minutesAfterStart(30) },
+    { id: 'f6', cacheId: 'gone', playerId: 'p1', foundAt: minutesAfterStart(10) }
+  ];
+  const scores = scoreFinds(rules, caches, finds);
+  assert.deepEqual(
+    scores.map(({ findId, finderPosition, finderBonus, timeBonus, points }) => [
+      findId,
+      finderPosition,
+      finderBonus,
+      timeBonus,
+      points
+    ]),
+    [
+      ['f1', 1, 50, 60, 210],
+      ['f2', 2, 30, 30, 160],
+      ['f5', 1, 50, 30, 420],
+      ['f3', 3, 10, 0, 110],
+      ['f4', 4, 0, 0, 100]
+    ]
+  );
+  assert.deepEqual(Object.fromEntries(sumPoints(scores, 'playerId')), { p1: 210, p2: 580, p3: 110, p4: 100 });
+  assert.deepEqual(Object.fromEntries(sumPoints(scores, 'cacheId')), { c1: 580, c2: 420 });
+});
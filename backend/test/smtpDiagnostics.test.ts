@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { after, before, test } from 'node:test';
+
+import { SystemSetting } from '@prisma/client';
+
+import { runSmtpDiagnostics } from '../src/smtpDiagnostics.js';
+
+type SmtpStandIn = { server: net.Server; port: number; messages: string[] };
+
+const startSmtpStandIn = () =>
+  new Promise<SmtpStandIn>((resolve) => {
+    const messages: string[] = [];
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let data: string | null = null;
+      const reply = (line: string) => socket.write(`${line}\r\n`);
+      reply('220 localhost ESMTP stand-in');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (data !== null) {
+            if (line === '.') {
+              messages.push(data);
+              data = null;
+              reply('250 2.0.0 queued');
+            } else {
+              data += `${line}\n`;
+            }
+            continue;
+          }
+          const command = line.slice(0, 4).toUpperCase();
+          if (command === 'EHLO') {
+            reply('250-localhost');
+            reply('250 8BITMIME');
+          } else if (command === 'RCPT') {
+            reply(line.includes('reject') ? '550 5.1.1 mailbox unavailable' : '250 2.1.5 ok');
+          } else if (command === 'DATA') {
+            data = '';
+            reply('354 end data with <CR><LF>.<CR><LF>');
+          } else if (command === 'QUIT') {
+            reply('221 2.0.0 bye');
+            socket.end();
+          } else {
+            reply('250 2.0.0 ok');
+          }
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, messages });
+    });
+  });
+
+let standIn: SmtpStandIn;
+
+const settingsFor = (port: number) =>
+  ({
+    smtpHost: '127.0.0.1',
+    smtpPort: port,
+    smtpUseTls: false,
+    smtpUser: null,
+    smtpPassword: null,
+    smtpFromAddress: 'noreply@example.com',
+    smtpFromName: 'GeoCachingEngine'
+  }) as SystemSetting;
+
+before(async () => {
+  standIn = await startSmtpStandIn();
+});
+
+after(() => {
+  standIn.server.close();
+});
+
+test('runSmtpDiagnostics connects and sends a test email to a local SMTP stand-in', async () => {
+  const result = await runSmtpDiagnostics(settingsFor(standIn.port), { sendTestTo: 'admin@example.com' });
+  assert.equal(result.ok, true);
+  assert.equal(result.dns.status, 'ok');
+  assert.equal(result.connection.status, 'ok');
+  assert.equal(result.tls.status, 'skipped');
+  assert.equal(result.auth.status, 'skipped');
+  assert.equal(result.testEmail.status, 'ok');
+  assert.equal(result.error, null);
+  assert.match(standIn.messages.at(-1) ?? '', /Subject: GeoCachingEngine SMTP-Test/);
+});
+
+test('runSmtpDiagnostics reports the server response when the recipient is rejected', async () => {
+  const result = await runSmtpDiagnostics(settingsFor(standIn.port), { sendTestTo: 'reject@example.com' });
+  assert.equal(result.ok, false);
+  assert.equal(result.testEmail.status, 'failed');
+  assert.equal(result.error?.stage, 'testEmail');
+  assert.equal(result.error?.responseCode, 550);
+});
+
+test('runSmtpDiagnostics reports a refused connection', async () => {
+  const closed = net.createServer();
+  const port = await new Promise<number>((resolve) =>
+    closed.listen(0, '127.0.0.1', () => resolve((closed.address() as net.AddressInfo).port))
+  );
+  await new Promise((resolve) => closed.close(resolve));
+  const result = await runSmtpDiagnostics(settingsFor(port));
+  assert.equal(result.ok, false);
+  assert.equal(result.connection.status, 'failed');
+  assert.equal(result.error?.stage, 'connection');
+});
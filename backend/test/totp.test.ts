@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { base32Decode, base32Encode, generateTotp, getTimeStep, verifyTotp } from '../src/totp.js';
+
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130']
+];
+
+test('base32 round-trips the RFC 6238 seed', () => {
+  assert.equal(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  assert.equal(base32Decode(RFC_SECRET).toString('ascii'), '12345678901234567890');
+});
+
+test('generateTotp matches the RFC 6238 SHA-1 vectors', () => {
+  for (const [seconds, expected] of RFC_VECTORS) {
+    assert.equal(generateTotp(RFC_SECRET, seconds * 1000), expected.slice(-6), `T = ${seconds}`);
+  }
+});
+
+test('verifyTotp accepts codes within one step of drift against a fixed clock', () => {
+  const now = 1111111111 * 1000;
+  const step = getTimeStep(now);
+  assert.equal(verifyTotp(RFC_SECRET, '050471', { now }), step);
+  assert.equal(verifyTotp(RFC_SECRET, '050 471', { now }), step);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30000), { now }), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30000), { now }), step + 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90000), { now }), null);
+});
+
+test('verifyTotp rejects reused steps and malformed codes', () => {
+  const now = 1234567890 * 1000;
+  const step = getTimeStep(now);
+  assert.equal(verifyTotp(RFC_SECRET, '005924', { now, lastUsedStep: step }), null);
+  assert.equal(verifyTotp(RFC_SECRET, '005924', { now, lastUsedStep: step - 1 }), step);
+  assert.equal(verifyTotp(RFC_SECRET, '5924', { now }), null);
+  assert.equal(verifyTotp(RFC_SECRET, 'abcdef', { now }), null);
+});
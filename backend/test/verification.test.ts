@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { CacheVerificationMode } from '@prisma/client';
+
+import {
+  generateQrToken,
+  isAnswerAccepted,
+  isQrTokenValid,
+  normalizeAnswer,
+  validateCacheVerification
+} from '../src/verification.js';
+
+const answerCache = {
+  verificationMode: CacheVerificationMode.ANSWER,
+  verificationAnswers: ['Großer Bär', '42'],
+  answerOptions: [],
+  qrToken: null
+};
+
+test('normalizeAnswer ignores case, whitespace and Unicode width variants', () => {
+  assert.equal(normalizeAnswer('  Großer \t Bär '), 'großerbär');
+  assert.equal(normalizeAnswer('ＡＢＣ１２'), 'abc12');
+  assert.equal(normalizeAnswer('A\u0308pfel'), normalizeAnswer('\u00c4pfel'));
+});
+
+test('isAnswerAccepted matches any accepted variant and rejects blanks', () => {
+  assert.equal(isAnswerAccepted(answerCache, 'großer bär'), true);
+  assert.equal(isAnswerAccepted(answerCache, ' 4 2 '), true);
+  assert.equal(isAnswerAccepted(answerCache, 'Kleiner Bär'), false);
+  assert.equal(isAnswerAccepted(answerCache, '   '), false);
+  assert.equal(isAnswerAccepted({ ...answerCache, verificationAnswers: [] }, ''), false);
+});
+
+test('isQrTokenValid compares against the stored token only', () => {
+  const qrToken = generateQrToken();
+  const cache = { ...answerCache, verificationMode: CacheVerificationMode.QR, qrToken };
+  assert.match(qrToken, /^[\w-]{24}$/);
+  assert.notEqual(generateQrToken(), qrToken);
+  assert.equal(isQrTokenValid(cache, qrToken), true);
+  assert.equal(isQrTokenValid(cache, `${qrToken}x`), false);
+  assert.equal(isQrTokenValid(cache, qrToken.slice(1)), false);
+  assert.equal(isQrTokenValid(cache, ''), false);
+  assert.equal(isQrTokenValid({ ...cache, qrToken: null }, ''), false);
+});
+
+test('validateCacheVerification requires answers and consistent multiple-choice options', () => {
+  assert.throws(
+    () => validateCacheVerification({ verificationMode: CacheVerificationMode.CODE }),
+    /Code erforderlich/
+  );
+  assert.throws(
+    () => validateCacheVerification({ verificationMode: 'PHOTO' as CacheVerificationMode }),
+    /Ungültige Prüfmethode/
+  );
+  assert.throws(
+    () =>
+      validateCacheVerification({
+        verificationMode: CacheVerificationMode.ANSWER,
+        verificationAnswers: ['Rot'],
+        answerOptions: ['Blau', 'Grün']
+      }),
+    /Antwortoptionen enthalten/
+  );
+  assert.doesNotThrow(() =>
+    validateCacheVerification({
+      verificationMode: CacheVerificationMode.ANSWER,
+      verificationAnswers: ['rot'],
+      answerOptions: ['Rot', 'Blau']
+    })
+  );
+  assert.doesNotThrow(() => validateCacheVerification({ verificationMode: CacheVerificationMode.QR }));
+});
@@ -64,6 +64,14 @@ BASE_URL="http://${PUBLIC_DOMAIN:-${PRIMARY_IP:-localhost}}"
 ADMIN_EMAIL="admin@${PUBLIC_DOMAIN:-localdomain}"
 ADMIN_PASSWORD=$(random_secret)
 DB_PASSWORD=$(random_secret)
+SECRETS_ENCRYPTION_KEY=$(grep -s '^SECRETS_ENCRYPTION_KEY=' "$ENV_FILE" | cut -d= -f2- || true)
+if [[ -z "$SECRETS_ENCRYPTION_KEY" ]]; then
+  SECRETS_ENCRYPTION_KEY=$(head -c 32 /dev/urandom | base64)
+fi
+PLAYER_TOKEN_SECRET=$(grep -s '^PLAYER_TOKEN_SECRET=' "$ENV_FILE" | cut -d= -f2- || true)
+if [[ -z "$PLAYER_TOKEN_SECRET" || "$PLAYER_TOKEN_SECRET" == "change-me-to-a-long-random-string" ]]; then
+  PLAYER_TOKEN_SECRET=$(head -c 32 /dev/urandom | base64)
+fi
 
 export DEBIAN_FRONTEND=noninteractive
 apt-get update -y
@@ -116,6 +124,8 @@ MAX_EMAILS_PER_HOUR_PER_ADMIN=50
 MAX_EMAILS_PER_DAY_PER_ADMIN=200
 ADMIN_EMAIL=$ADMIN_EMAIL
 ADMIN_PASSWORD=$ADMIN_PASSWORD
+SECRETS_ENCRYPTION_KEY=$SECRETS_ENCRYPTION_KEY
+PLAYER_TOKEN_SECRET=$PLAYER_TOKEN_SECRET
 BASE_URL=$BASE_URL
 DEPLOY_MODE=$DEPLOY_MODE
 PUBLIC_DOMAIN=$PUBLIC_DOMAIN
@@ -1,4 +1,5 @@
-import { FormEvent, useEffect, useMemo, useState } from 'react';
+import L from 'leaflet';
+import { FormEvent, useEffect, useMemo, useRef, useState } from 'react';
 
 type SystemSettings = {
   impressumUrl: string;
@@ -13,9 +14,56 @@ type SystemSettings = {
   smtpPort?: number | null;
   smtpUser?: string | null;
   smtpPassword?: string | null;
+  smtpPasswordSet?: boolean;
   smtpUseTls?: boolean;
   smtpFromAddress?: string | null;
   smtpFromName?: string | null;
+  requireAdminTotp?: boolean;
+  smtpLastTestResult?: SmtpDiagnostics | null;
+};
+
+type SmtpCheck = {
+  status: 'ok' | 'failed' | 'skipped';
+  durationMs: number;
+  message?: string;
+};
+
+type SmtpDiagnostics = {
+  ok: boolean;
+  checkedAt: string;
+  host: string | null;
+  port: number | null;
+  dns: SmtpCheck & { addresses?: string[] };
+  connection: SmtpCheck & { lastResponse?: string | null };
+  tls: SmtpCheck & {
+    mode: 'implicit' | 'starttls' | 'none';
+    protocol?: string | null;
+    cipher?: string | null;
+    certificateValidTo?: string | null;
+  };
+  auth: SmtpCheck;
+  testEmail: SmtpCheck & { recipient?: string; response?: string };
+  error: {
+    stage: string;
+    code: string | null;
+    responseCode: number | null;
+    response: string | null;
+    command: string | null;
+  } | null;
+};
+
+const smtpCheckLabels: Record<'dns' | 'connection' | 'tls' | 'auth' | 'testEmail', string> = {
+  dns: 'DNS',
+  connection: 'Verbindung',
+  tls: 'TLS',
+  auth: 'Anmeldung',
+  testEmail: 'Testmail'
+};
+
+const smtpStatusLabels: Record<SmtpCheck['status'], string> = {
+  ok: 'OK',
+  failed: 'Fehler',
+  skipped: 'Übersprungen'
 };
 
 type Cache = {
@@ -24,20 +72,63 @@ type Cache = {
   longitude: number;
   clue: string;
   solution: string;
+  points: number | null;
+  difficulty: number;
+  stage: number | null;
+  isFinal: boolean;
+  unlockMode: CacheUnlockMode;
+  prerequisiteIds: string[];
+  verificationMode: CacheVerificationMode;
+  verificationAnswers: string[];
+  answerOptions: string[];
+  qrToken: string | null;
+  foundByAny: boolean;
   createdAt: string;
 };
 
+type CacheUnlockMode = 'ALL' | 'ANY';
+
+type CacheVerificationMode = 'GPS' | 'CODE' | 'ANSWER' | 'QR';
+
 type Invitation = {
   id: string;
   token: string;
   deliveryMethod: 'LINK' | 'EMAIL';
   email?: string | null;
+  name?: string | null;
+  locale?: string | null;
   createdAt: string;
   usedAt?: string | null;
   isActive: boolean;
   deactivatedAt?: string | null;
+  unsubscribedAt?: string | null;
+  bouncedAt?: string | null;
+  bounceReason?: string | null;
 };
 
+type EventAccessMode = 'PUBLIC' | 'INVITE_ONLY';
+
+type BulkInvitationResult = {
+  row: number;
+  email: string;
+  name: string | null;
+  locale: string | null;
+  status: 'created' | 'duplicate' | 'invalid';
+  message?: string;
+  link?: string;
+  emailStatus?: string;
+};
+
+const bulkStatusLabels: Record<BulkInvitationResult['status'], string> = {
+  created: 'Angelegt',
+  duplicate: 'Übersprungen',
+  invalid: 'Ungültig'
+};
+
+type GeoPoint = { latitude: number; longitude: number };
+
+type EventPoint = { latitude: number | null; longitude: number | null; label: string | null };
+
 type Event = {
   id: string;
   name: string;
@@ -46,16 +137,442 @@ type Event = {
   endsAt: string;
   visibleRadiusMeters: number;
   foundRadiusMeters: number;
-  startPoint?: string | null;
-  endPoint?: string | null;
+  startPoint?: EventPoint | null;
+  endPoint?: EventPoint | null;
+  playArea?: GeoPoint[] | null;
   invitationEmailSubject?: string | null;
   invitationEmailBody?: string | null;
+  invitationEmailHtml?: string | null;
+  emailLocale?: string;
+  emailTemplates?: EmailTemplateVariant[];
   senderEmail?: string | null;
   senderName?: string | null;
+  archived?: boolean;
+  accessMode?: EventAccessMode;
+  leaderboardEnabled?: boolean;
+  leaderboardFrozenAt?: string | null;
+  basePoints?: number;
+  firstFinderBonus?: number;
+  secondFinderBonus?: number;
+  thirdFinderBonus?: number;
+  timeBonusPoints?: number;
+  timeBonusMinutes?: number | null;
+  teamsEnabled?: boolean;
+  oneFindPerTeam?: boolean;
+  createdByAdminId?: string | null;
   caches: Cache[];
   invitations: Invitation[];
 };
 
+type EmailTemplateVariant = {
+  locale: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+};
+
+type EmailPreview = {
+  locale: string;
+  from: string | null;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+type PublicCache = {
+  id: string;
+  clue: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  distanceMeters: number | null;
+  stage: number | null;
+  isFinal: boolean;
+  locked: boolean;
+  verificationMode: CacheVerificationMode | null;
+  answerOptions: string[];
+  foundByAny: boolean;
+  foundAt: string | null;
+  foundByPlayer: boolean;
+  foundByTeam?: boolean;
+  solution: string | null;
+};
+
+type PublicEvent = {
+  id: string;
+  name: string;
+  description?: string | null;
+  startsAt: string;
+  endsAt: string;
+  visibleRadiusMeters: number;
+  foundRadiusMeters: number;
+  startPoint?: EventPoint | null;
+  endPoint?: EventPoint | null;
+  playArea?: GeoPoint[] | null;
+  insidePlayArea?: boolean | null;
+  startPointGuidance?: { distanceMeters: number; bearingDegrees: number } | null;
+  accessMode?: EventAccessMode;
+  leaderboardEnabled?: boolean;
+  teamsEnabled?: boolean;
+  oneFindPerTeam?: boolean;
+  cacheCount?: number;
+  caches?: PublicCache[];
+  team?: { id: string; name: string; joinCode: string; memberCount: number } | null;
+};
+
+type LeaderboardEntry = {
+  rank: number;
+  playerId?: string;
+  displayName: string;
+  pseudonymous: boolean;
+  finds: number;
+  firstFinds: number;
+  completedAt: string | null;
+  completionMs: number | null;
+  distanceMeters: number | null;
+  points: number;
+  isViewer: boolean;
+};
+
+type TeamStanding = {
+  rank: number;
+  teamId: string;
+  name: string;
+  memberCount: number;
+  foundCount: number;
+  completionPercent: number;
+  firstFinds: number;
+  points: number;
+  completedAt: string | null;
+  isViewerTeam: boolean;
+};
+
+type Leaderboard = {
+  cacheCount: number;
+  frozenAt: string | null;
+  enabled?: boolean;
+  entries: LeaderboardEntry[];
+  viewer: LeaderboardEntry | null;
+  teams?: TeamStanding[] | null;
+};
+
+type TeamMember = {
+  id: string;
+  displayName: string;
+};
+
+type Team = {
+  id: string;
+  name: string;
+  joinCode: string;
+  members: TeamMember[];
+};
+
+const TeamStandingsTable = ({ teams }: { teams: TeamStanding[] }) => (
+  <div className="cache-list" aria-label="Teamwertung">
+    {teams.map((team) => (
+      <div key={team.teamId} className="cache-row" style={team.isViewerTeam ? { fontWeight: 600 } : undefined}>
+        <div>
+          {team.rank}. {team.name}
+          {team.isViewerTeam && ' (dein Team)'}
+          <span className="muted"> · {team.memberCount} Mitglieder</span>
+        </div>
+        <div className="muted">
+          {team.points} Punkte · {team.foundCount} Funde ({team.completionPercent}%) · {team.firstFinds} Erstfunde
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes} Min.` : `${Math.floor(minutes / 60)} Std. ${minutes % 60} Min.`;
+};
+
+const formatDistance = (meters: number | null) =>
+  meters === null ? '–' : meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`;
+
+const LeaderboardTable = ({ entries }: { entries: LeaderboardEntry[] }) => (
+  <div className="cache-list" aria-label="Bestenliste">
+    {entries.map((entry) => (
+      <div
+        key={`${entry.rank}-${entry.displayName}`}
+        className="cache-row"
+        style={entry.isViewer ? { fontWeight: 600 } : undefined}
+      >
+        <div>
+          {entry.rank}. {entry.displayName}
+          {entry.isViewer && ' (du)'}
+        </div>
+        <div className="muted">
+          {entry.points} Punkte · {entry.finds} Funde · {entry.firstFinds} Erstfunde
+          {entry.completionMs !== null && ` · komplett in ${formatDuration(entry.completionMs)}`}
+          {entry.distanceMeters !== null && ` · ${formatDistance(entry.distanceMeters)}`}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+type MapConfig = {
+  tileUrl: string | null;
+  attribution: string | null;
+  maxZoom: number;
+};
+
+type MapTone = 'open' | 'found' | 'team' | 'taken' | 'draft' | 'player' | 'start' | 'end';
+
+type MapMarker = {
+  id: string;
+  latitude: number;
+  longitude: number;
+  label: string;
+  tone: MapTone;
+  draggable?: boolean;
+};
+
+type MapCircle = {
+  id: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  tone: 'visible' | 'found' | 'accuracy';
+};
+
+const defaultMapConfig: MapConfig = { tileUrl: null, attribution: null, maxZoom: 19 };
+
+const DEFAULT_MAP_CENTER: [number, number] = [51.1657, 10.4515];
+
+const mapCircleStyles: Record<MapCircle['tone'], L.PathOptions> = {
+  visible: { color: '#2563eb', weight: 1, fillOpacity: 0.04, dashArray: '4 4' },
+  found: { color: '#16a34a', weight: 1, fillOpacity: 0.1 },
+  accuracy: { color: '#0ea5e9', weight: 1, fillOpacity: 0.15 }
+};
+
+const playAreaStyle: L.PathOptions = { color: '#0f766e', weight: 2, fillOpacity: 0.05, dashArray: '6 4' };
+
+const GRATICULE_STEPS = [10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001, 0.0005, 0.0002, 0.0001];
+
+class FallbackBasemap extends L.GridLayer {
+  protected createTile(coords: L.Coords) {
+    const size = this.getTileSize();
+    const tile = document.createElement('canvas');
+    tile.width = size.x;
+    tile.height = size.y;
+    const context = tile.getContext('2d');
+    if (!context) return tile;
+    context.fillStyle = '#eef2f7';
+    context.fillRect(0, 0, size.x, size.y);
+
+    const origin = coords.scaleBy(size);
+    const northWest = this._map.unproject(origin, coords.z);
+    const southEast = this._map.unproject(origin.add(size), coords.z);
+    const step =
+      GRATICULE_STEPS.find((candidate) => candidate <= (southEast.lng - northWest.lng) / 2) ??
+      GRATICULE_STEPS[GRATICULE_STEPS.length - 1];
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    context.strokeStyle = '#cbd5e1';
+    context.fillStyle = '#64748b';
+    context.font = '10px system-ui, sans-serif';
+    for (let index = Math.ceil(northWest.lng / step); index * step <= southEast.lng; index += 1) {
+      const x = Math.round(this._map.project([northWest.lat, index * step], coords.z).x - origin.x) + 0.5;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, size.y);
+      context.stroke();
+      context.fillText(`${(index * step).toFixed(decimals)}°`, x + 3, 12);
+    }
+    for (let index = Math.ceil(southEast.lat / step); index * step <= northWest.lat; index += 1) {
+      const y = Math.round(this._map.project([index * step, northWest.lng], coords.z).y - origin.y) + 0.5;
+      context.beginPath();
+      context.moveTo(0, y);
+      context.lineTo(size.x, y);
+      context.stroke();
+      context.fillText(`${(index * step).toFixed(decimals)}°`, 3, y - 3);
+    }
+    return tile;
+  }
+}
+
+let mapConfigRequest: Promise<MapConfig> | null = null;
+
+const loadMapConfig = () => {
+  mapConfigRequest ??= fetch('/api/public/map-config')
+    .then((res) => (res.ok ? (res.json() as Promise<MapConfig>) : defaultMapConfig))
+    .catch(() => defaultMapConfig);
+  return mapConfigRequest;
+};
+
+const roundCoordinate = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const EventMap = ({
+  markers,
+  circles = [],
+  playArea,
+  fitKey,
+  onMapClick,
+  onMarkerDrag
+}: {
+  markers: MapMarker[];
+  circles?: MapCircle[];
+  playArea?: GeoPoint[] | null;
+  fitKey: string;
+  onMapClick?: (latitude: number, longitude: number) => void;
+  onMarkerDrag?: (markerId: string, latitude: number, longitude: number) => void;
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layersRef = useRef<L.LayerGroup | null>(null);
+  const handlersRef = useRef({ onMapClick, onMarkerDrag });
+  handlersRef.current = { onMapClick, onMarkerDrag };
+  const [usingFallback, setUsingFallback] = useState(false);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current, { center: DEFAULT_MAP_CENTER, zoom: 5 });
+    new FallbackBasemap({ zIndex: 0 }).addTo(map);
+    layersRef.current = L.layerGroup().addTo(map);
+    map.on('click', (event: L.LeafletMouseEvent) =>
+      handlersRef.current.onMapClick?.(roundCoordinate(event.latlng.lat), roundCoordinate(event.latlng.lng))
+    );
+    mapRef.current = map;
+    let active = true;
+    void loadMapConfig().then((config) => {
+      if (!active) return;
+      if (!config.tileUrl) {
+        setUsingFallback(true);
+        return;
+      }
+      L.tileLayer(config.tileUrl, {
+        maxZoom: config.maxZoom,
+        attribution: config.attribution ?? undefined,
+        zIndex: 1
+      })
+        .on('tileerror', () => setUsingFallback(true))
+        .addTo(map);
+    });
+    return () => {
+      active = false;
+      map.remove();
+      mapRef.current = null;
+      layersRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const layers = layersRef.current;
+    if (!layers) return;
+    layers.clearLayers();
+    if (playArea) {
+      L.polygon(
+        playArea.map((point) => [point.latitude, point.longitude] as L.LatLngTuple),
+        { interactive: false, ...playAreaStyle }
+      ).addTo(layers);
+    }
+    circles.forEach((circle) =>
+      L.circle([circle.latitude, circle.longitude], {
+        radius: circle.radiusMeters,
+        interactive: false,
+        ...mapCircleStyles[circle.tone]
+      }).addTo(layers)
+    );
+    markers.forEach((marker) => {
+      const layer = L.marker([marker.latitude, marker.longitude], {
+        draggable: Boolean(marker.draggable),
+        icon: L.divIcon({ className: `map-marker map-marker-${marker.tone}`, iconSize: [16, 16] }),
+        title: marker.label
+      }).bindTooltip(marker.label);
+      layer.on('dragend', () => {
+        const position = layer.getLatLng();
+        handlersRef.current.onMarkerDrag?.(
+          marker.id,
+          roundCoordinate(position.lat),
+          roundCoordinate(position.lng)
+        );
+      });
+      layer.addTo(layers);
+    });
+  }, [markers, circles, playArea]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const points = [...markers, ...(playArea ?? [])].map((point) => L.latLng(point.latitude, point.longitude));
+    if (points.length === 1) {
+      map.setView(points[0], 16);
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [24, 24], maxZoom: 17 });
+    }
+  }, [fitKey]);
+
+  return (
+    <div className="event-map">
+      <div ref={containerRef} className="event-map-canvas" />
+      {usingFallback && (
+        <p className="muted">Kein Kartenserver erreichbar – es wird ein einfaches Koordinatengitter angezeigt.</p>
+      )}
+    </div>
+  );
+};
+
+const parseCoordinatePair = (value?: string | null) => {
+  const match = value?.match(/(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null;
+};
+
+const isIncompletePoint = (latitude: number | null, longitude: number | null) =>
+  (latitude === null) !== (longitude === null);
+
+const toEventPoint = (latitude: number | null, longitude: number | null, label: string) =>
+  latitude !== null || label.trim() ? { latitude, longitude, label: label.trim() || null } : null;
+
+const hasCoordinates = (point?: EventPoint | null): point is EventPoint & GeoPoint =>
+  Boolean(point && point.latitude !== null && point.longitude !== null);
+
+const eventPointMarkers = (event: {
+  startPoint?: EventPoint | null;
+  endPoint?: EventPoint | null;
+}): MapMarker[] => [
+  ...(hasCoordinates(event.startPoint)
+    ? [
+        {
+          id: 'start',
+          latitude: event.startPoint.latitude,
+          longitude: event.startPoint.longitude,
+          label: event.startPoint.label ? `Start: ${event.startPoint.label}` : 'Startpunkt',
+          tone: 'start' as const
+        }
+      ]
+    : []),
+  ...(hasCoordinates(event.endPoint)
+    ? [
+        {
+          id: 'end',
+          latitude: event.endPoint.latitude,
+          longitude: event.endPoint.longitude,
+          label: event.endPoint.label ? `Ziel: ${event.endPoint.label}` : 'Zielpunkt',
+          tone: 'end' as const
+        }
+      ]
+    : [])
+];
+
+const compassDirections = [
+  'Norden',
+  'Nordosten',
+  'Osten',
+  'Südosten',
+  'Süden',
+  'Südwesten',
+  'Westen',
+  'Nordwesten'
+];
+
+const compassDirection = (bearingDegrees: number) => compassDirections[Math.round(bearingDegrees / 45) % 8];
+
 type EventPayload = {
   id?: string;
   name: string;
@@ -64,12 +581,30 @@ type EventPayload = {
   endsAt: string;
   visibleRadiusMeters: number;
   foundRadiusMeters: number;
-  startPoint: string;
-  endPoint: string;
+  startLatitude: number | null;
+  startLongitude: number | null;
+  startLabel: string;
+  endLatitude: number | null;
+  endLongitude: number | null;
+  endLabel: string;
+  playArea: string;
   invitationEmailSubject: string;
   invitationEmailBody: string;
+  invitationEmailHtml: string;
+  emailLocale: string;
+  emailTemplates: EmailTemplateVariant[];
   senderEmail: string;
   senderName: string;
+  accessMode: EventAccessMode;
+  leaderboardEnabled: boolean;
+  basePoints: number;
+  firstFinderBonus: number;
+  secondFinderBonus: number;
+  thirdFinderBonus: number;
+  timeBonusPoints: number;
+  timeBonusMinutes: number | null;
+  teamsEnabled: boolean;
+  oneFindPerTeam: boolean;
 };
 
 type CachePayload = {
@@ -78,17 +613,155 @@ type CachePayload = {
   longitude: number;
   clue: string;
   solution: string;
+  points: number | null;
+  difficulty: number;
+  stage: number | null;
+  isFinal: boolean;
+  unlockMode: CacheUnlockMode;
+  prerequisiteIds: string[];
+  verificationMode: CacheVerificationMode;
+  verificationAnswers: string[];
+  answerOptions: string[];
+};
+
+const emptyCacheDraft: CachePayload = {
+  latitude: 0,
+  longitude: 0,
+  clue: '',
+  solution: '',
+  points: null,
+  difficulty: 1,
+  stage: null,
+  isFinal: false,
+  unlockMode: 'ALL',
+  prerequisiteIds: [],
+  verificationMode: 'GPS',
+  verificationAnswers: [],
+  answerOptions: []
+};
+
+const cacheVerificationModeLabels: Record<CacheVerificationMode, string> = {
+  GPS: 'GPS-Fundradius',
+  CODE: 'Geheimcode im Cache',
+  ANSWER: 'Antwort auf den Hinweis',
+  QR: 'QR-Code scannen'
+};
+
+const cacheVerificationUrl = (eventId: string, cache: Cache) =>
+  `${window.location.origin}/public/event/${eventId}?cache=${cache.id}&code=${cache.qrToken}`;
+
+const splitLines = (value: string) => value.split('\n');
+
+const cacheUnlockModeLabels: Record<CacheUnlockMode, string> = {
+  ALL: 'Alle Voraussetzungen gefunden',
+  ANY: 'Mindestens eine Voraussetzung gefunden'
+};
+
+const defaultScoringRules = {
+  basePoints: 100,
+  firstFinderBonus: 0,
+  secondFinderBonus: 0,
+  thirdFinderBonus: 0,
+  timeBonusPoints: 0,
+  timeBonusMinutes: null
+};
+
+type EmailAttempt = {
+  id: string;
+  succeeded: boolean;
+  errorMessage?: string | null;
+  durationMs: number;
+  attemptedAt: string;
 };
 
 type EmailLog = {
   id: string;
+  invitationId?: string | null;
   recipient: string;
   subject: string;
-  status: 'SENT' | 'FAILED' | 'DISABLED' | 'RATE_LIMITED';
+  status:
+    | 'QUEUED'
+    | 'SENDING'
+    | 'SENT'
+    | 'FAILED'
+    | 'DEAD'
+    | 'DISABLED'
+    | 'RATE_LIMITED'
+    | 'SUPPRESSED'
+    | 'BOUNCED';
+  errorMessage?: string | null;
+  attemptCount: number;
+  nextAttemptAt?: string | null;
+  sentAt?: string | null;
+  bouncedAt?: string | null;
+  createdAt: string;
+  attempts: EmailAttempt[];
+};
+
+const RETRYABLE_EMAIL_STATUSES: EmailLog['status'][] = ['FAILED', 'DEAD', 'DISABLED'];
+
+type EmailJob = {
+  id: string;
+  kind: 'REMINDER' | 'STARTS_SOON' | 'RESULTS';
+  offsetMinutes: number;
+  scheduledAt: string;
+  status: 'SCHEDULED' | 'RUNNING' | 'COMPLETED' | 'CANCELLED';
+  subject?: string | null;
+  htmlBody?: string | null;
+  textBody?: string | null;
+  recipientCount: number;
+  sentCount: number;
+  skippedCount: number;
+  pendingCount: number | null;
   errorMessage?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  createdBy?: { email: string } | null;
+};
+
+type EmailJobDraft = {
+  kind: EmailJob['kind'];
+  offsetHours: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+};
+
+const emptyEmailJobDraft: EmailJobDraft = {
+  kind: 'REMINDER',
+  offsetHours: '24',
+  subject: '',
+  htmlBody: '',
+  textBody: ''
+};
+
+const emailJobKindLabels: Record<EmailJob['kind'], string> = {
+  REMINDER: 'Erinnerung (noch nicht beigetreten)',
+  STARTS_SOON: 'Hinweis „Startet gleich“',
+  RESULTS: 'Ergebnisse nach Eventende'
+};
+
+const emailJobStatusLabels: Record<EmailJob['status'], string> = {
+  SCHEDULED: 'Geplant',
+  RUNNING: 'Wird versendet',
+  COMPLETED: 'Versendet',
+  CANCELLED: 'Abgebrochen'
+};
+
+type EmailSuppression = {
+  id: string;
+  email: string;
+  reason: 'UNSUBSCRIBED' | 'HARD_BOUNCE' | 'COMPLAINT';
+  detail?: string | null;
   createdAt: string;
 };
 
+const suppressionReasonLabels: Record<EmailSuppression['reason'], string> = {
+  UNSUBSCRIBED: 'Abgemeldet',
+  HARD_BOUNCE: 'Unzustellbar',
+  COMPLAINT: 'Spam-Beschwerde'
+};
+
 type Dashboard = {
   event: {
     id: string;
@@ -105,17 +778,109 @@ type Dashboard = {
     longitude: number;
     found: boolean;
     foundAt: string | null;
+    points: number;
+    difficulty: number;
+    finderCount: number;
+    pointsAwarded: number;
   }>;
+  totalPointsAwarded: number;
+  teams: TeamStanding[] | null;
   playerCount: number;
   activePlayerCount: number;
+  activePlayerWindowMinutes: number;
   foundCount: number;
   completionPercent: number;
+  recentFinds: LiveFind[];
+};
+
+type LiveFind = {
+  id: string;
+  cacheId: string;
+  clue: string;
+  playerId: string;
+  nickname: string | null;
+  foundAt: string;
+  firstFind?: boolean;
+};
+
+type DashboardStats = Pick<Dashboard, 'playerCount' | 'activePlayerCount' | 'foundCount' | 'completionPercent'>;
+
+type AdminSessionInfo = {
+  id: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  idleExpiresAt: string;
+  current: boolean;
+};
+
+type AdminRole = 'OWNER' | 'ORGANIZER' | 'VIEWER';
+
+type AdminAccount = {
+  id: string;
+  email: string;
+  name?: string | null;
+  role: AdminRole;
+  mustChangePassword?: boolean;
+  totpEnabled?: boolean;
+  totpEnrollmentRequired?: boolean;
+  createdAt?: string;
+};
+
+type AdminInvite = {
+  id: string;
+  email: string;
+  role: AdminRole;
+  createdAt: string;
+  expiresAt: string;
+};
+
+const adminRoleLabels: Record<AdminRole, string> = {
+  OWNER: 'Owner',
+  ORGANIZER: 'Organisator',
+  VIEWER: 'Betrachter'
+};
+
+type AuditEntry = {
+  id: string;
+  adminId?: string | null;
+  adminEmail?: string | null;
+  adminName?: string | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  eventId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  ipAddress?: string | null;
+  createdAt: string;
 };
 
+const auditEntityLabels: Record<string, string> = {
+  event: 'Event',
+  cache: 'Cache',
+  invitation: 'Einladung',
+  setting: 'Einstellungen',
+  admin: 'Admin',
+  session: 'Sitzung',
+  team: 'Team'
+};
+
+const AUDIT_PAGE_SIZE = 50;
+
 type SystemStatus = {
   database: 'ok' | 'error';
   migrationsUpToDate: boolean;
   emailSendingEnabled: boolean;
+  smtpTest: {
+    testedAt: string;
+    ok: boolean;
+    failedStage: string | null;
+    errorCode: string | null;
+    responseCode: number | null;
+  } | null;
   version: string;
 };
 
@@ -136,75 +901,454 @@ const useRoute = () => {
   return { path, navigate };
 };
 
+const SESSION_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
 const useToken = () => {
-  const [token, setTokenState] = useState<string | null>(() =>
-    localStorage.getItem('adminToken')
-  );
+  const [token, setTokenState] = useState<string | null>(() => {
+    const idleExpiresAt = localStorage.getItem('adminTokenIdleExpiresAt');
+    if (idleExpiresAt && new Date(idleExpiresAt).getTime() <= Date.now()) {
+      localStorage.removeItem('adminToken');
+      localStorage.removeItem('adminTokenIdleExpiresAt');
+      return null;
+    }
+    return localStorage.getItem('adminToken');
+  });
 
-  const setToken = (value: string | null) => {
+  const setToken = (value: string | null, idleExpiresAt?: string) => {
     if (value) {
       localStorage.setItem('adminToken', value);
+      if (idleExpiresAt) localStorage.setItem('adminTokenIdleExpiresAt', idleExpiresAt);
     } else {
       localStorage.removeItem('adminToken');
+      localStorage.removeItem('adminTokenIdleExpiresAt');
     }
     setTokenState(value);
   };
 
+  useEffect(() => {
+    if (!token) return;
+    let active = false;
+    const markActive = () => {
+      active = true;
+    };
+    const refresh = async () => {
+      if (!active) return;
+      active = false;
+      const res = await fetch('/api/admin/session/refresh', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (res.ok) {
+        const data = (await res.json()) as { token: string; idleExpiresAt: string };
+        setToken(data.token, data.idleExpiresAt);
+      } else if (res.status === 401) {
+        setToken(null);
+      }
+    };
+    window.addEventListener('pointerdown', markActive);
+    window.addEventListener('keydown', markActive);
+    const interval = window.setInterval(() => void refresh(), SESSION_REFRESH_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('pointerdown', markActive);
+      window.removeEventListener('keydown', markActive);
+      window.clearInterval(interval);
+    };
+  }, [token]);
+
   return { token, setToken } as const;
 };
 
+const PLAYER_TOKEN_PREFIX = 'pt1';
+
 const usePlayerIdentity = (eventId: string) => {
   const storageKey = `player:${eventId}`;
+  const tokenStorageKey = `playerToken:${eventId}`;
   const [playerId, setPlayerId] = useState<string | null>(() =>
     localStorage.getItem(storageKey)
   );
+  const [playerToken, setPlayerToken] = useState<string | null>(() => {
+    const stored = localStorage.getItem(tokenStorageKey);
+    return stored?.startsWith(`${PLAYER_TOKEN_PREFIX}.`) ? stored : null;
+  });
 
-  const remember = (value: string) => {
+  const remember = (value: string, token?: string) => {
     localStorage.setItem(storageKey, value);
     setPlayerId(value);
+    if (token) {
+      localStorage.setItem(tokenStorageKey, token);
+      setPlayerToken(token);
+    }
   };
 
   const reset = () => {
     localStorage.removeItem(storageKey);
+    localStorage.removeItem(tokenStorageKey);
     setPlayerId(null);
+    setPlayerToken(null);
   };
 
-  return { playerId, remember, reset } as const;
+  const playerHeaders = useMemo(
+    (): Record<string, string> => (playerToken ? { 'X-Player-Token': playerToken } : {}),
+    [playerToken]
+  );
+
+  return { playerId, playerToken, playerHeaders, remember, reset } as const;
 };
 
-const haversineDistanceMeters = (
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
+const STREAM_RETRY_MS = 5000;
+const RECENT_FINDS_LIMIT = 20;
+
+const subscribeToEventStream = (
+  url: string,
+  headers: Record<string, string>,
+  onEvent: (type: string, data: any) => void
 ) => {
-  const toRad = (value: number) => (value * Math.PI) / 180;
-  const R = 6371000;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return Math.round(R * c);
+  const controller = new AbortController();
+  let retryTimer: number | undefined;
+
+  const connect = async () => {
+    try {
+      const res = await fetch(url, { headers: { Accept: 'text/event-stream', ...headers }, signal: controller.signal });
+      if (res.status >= 400 && res.status < 500) return;
+      if (!res.ok || !res.body) throw new Error(`Stream fehlgeschlagen (${res.status})`);
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        for (const block of blocks) {
+          let type = 'message';
+          const data: string[] = [];
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) type = line.slice(6).trim();
+            else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+          }
+          if (data.length > 0) onEvent(type, JSON.parse(data.join('\n')));
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.warn('Live-Verbindung unterbrochen', err);
+    }
+    if (!controller.signal.aborted) {
+      retryTimer = window.setTimeout(() => void connect(), STREAM_RETRY_MS);
+    }
+  };
+
+  void connect();
+  return () => {
+    controller.abort();
+    window.clearTimeout(retryTimer);
+  };
 };
 
 const defaultInvitationSubject = 'Einladung: {{eventName}}';
 const defaultInvitationBody =
   'Du wurdest zu {{eventName}} eingeladen.\n\nEventstart: {{eventStart}}\nEventende: {{eventEnd}}\n\nEinladungslink: {{inviteLink}}';
 
+const PasswordChangeForm = ({
+  authHeaders,
+  onChanged
+}: {
+  authHeaders: Record<string, string>;
+  onChanged: (token: string, idleExpiresAt: string) => void;
+}) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [message, setMessage] = useState('');
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    if (newPassword !== confirmation) {
+      setMessage('Die Passwörter stimmen nicht überein.');
+      return;
+    }
+    const res = await fetch('/api/admin/password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ currentPassword, newPassword })
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      message?: string;
+      token?: string;
+      idleExpiresAt?: string;
+    };
+    if (!res.ok || !data.token || !data.idleExpiresAt) {
+      setMessage(data.message || 'Passwort konnte nicht geändert werden.');
+      return;
+    }
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmation('');
+    setMessage('Passwort geändert. Andere Sitzungen wurden abgemeldet.');
+    onChanged(data.token, data.idleExpiresAt);
+  };
+
+  return (
+    <form onSubmit={submit} className="grid">
+      <label className="field">
+        <span>Aktuelles Passwort</span>
+        <input
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          required
+        />
+      </label>
+      <label className="field">
+        <span>Neues Passwort (mind. 12 Zeichen)</span>
+        <input
+          type="password"
+          value={newPassword}
+          minLength={12}
+          onChange={(e) => setNewPassword(e.target.value)}
+          required
+        />
+      </label>
+      <label className="field">
+        <span>Neues Passwort wiederholen</span>
+        <input
+          type="password"
+          value={confirmation}
+          minLength={12}
+          onChange={(e) => setConfirmation(e.target.value)}
+          required
+        />
+      </label>
+      <button type="submit" className="primary">
+        Passwort ändern
+      </button>
+      {message && <p className="message full-row">{message}</p>}
+    </form>
+  );
+};
+
+type TotpStatus = {
+  enabled: boolean;
+  enabledAt?: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+const TwoFactorSettings = ({
+  authHeaders,
+  onChanged
+}: {
+  authHeaders: Record<string, string>;
+  onChanged?: (enabled: boolean) => void;
+}) => {
+  const [status, setStatus] = useState<TotpStatus | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string; qrCodeDataUrl: string } | null>(
+    null
+  );
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+
+  const loadStatus = async () => {
+    const res = await fetch('/api/admin/totp', { headers: authHeaders });
+    if (res.ok) {
+      setStatus((await res.json()) as TotpStatus);
+    }
+  };
+
+  useEffect(() => {
+    void loadStatus();
+  }, [authHeaders]);
+
+  const post = async (path: string, body: Record<string, string>) => {
+    setMessage('');
+    const res = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify(body)
+    });
+    if (res.status === 204) return {};
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as Record<string, any>;
+    if (!res.ok) {
+      setMessage(data.message || 'Aktion fehlgeschlagen.');
+      return null;
+    }
+    return data;
+  };
+
+  const startSetup = async () => {
+    const data = await post('/api/admin/totp/setup', {});
+    if (data) {
+      setSetup(data as { secret: string; otpauthUri: string; qrCodeDataUrl: string });
+      setRecoveryCodes([]);
+    }
+  };
+
+  const enable = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await post('/api/admin/totp/enable', { code });
+    if (data) {
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes as string[]);
+      setMessage('Zwei-Faktor-Anmeldung aktiviert.');
+      await loadStatus();
+      onChanged?.(true);
+    }
+  };
+
+  const regenerate = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await post('/api/admin/totp/recovery-codes', { code });
+    if (data) {
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes as string[]);
+      await loadStatus();
+    }
+  };
+
+  const disable = async () => {
+    const data = await post('/api/admin/totp/disable', { password, code });
+    if (data) {
+      setCode('');
+      setPassword('');
+      setRecoveryCodes([]);
+      setMessage('Zwei-Faktor-Anmeldung deaktiviert.');
+      await loadStatus();
+      onChanged?.(false);
+    }
+  };
+
+  if (!status) {
+    return <p className="muted">Status wird geladen...</p>;
+  }
+
+  return (
+    <div>
+      {recoveryCodes.length > 0 && (
+        <div className="invitation-block">
+          <strong>Wiederherstellungscodes</strong>
+          <p className="muted">
+            Jeder Code funktioniert genau einmal. Bitte jetzt sicher aufbewahren – sie werden nicht erneut
+            angezeigt.
+          </p>
+          <pre>{recoveryCodes.join('\n')}</pre>
+        </div>
+      )}
+      {status.enabled ? (
+        <>
+          <p>
+            Aktiv seit {status.enabledAt ? new Date(status.enabledAt).toLocaleString() : '–'} ·{' '}
+            {status.recoveryCodesRemaining} Wiederherstellungscodes übrig
+          </p>
+          <form onSubmit={regenerate} className="grid">
+            <label className="field">
+              <span>Aktueller Code aus der App</span>
+              <input
+                value={code}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </label>
+            <label className="field">
+              <span>Passwort (nur zum Deaktivieren)</span>
+              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            </label>
+            <button type="submit" className="secondary">
+              Neue Wiederherstellungscodes
+            </button>
+            <button
+              type="button"
+              className="secondary"
+              disabled={status.required}
+              onClick={() => void disable()}
+            >
+              2FA deaktivieren
+            </button>
+          </form>
+          {status.required && (
+            <p className="muted">Zwei-Faktor-Anmeldung ist für alle Admins vorgeschrieben.</p>
+          )}
+        </>
+      ) : setup ? (
+        <form onSubmit={enable} className="grid">
+          <div>
+            <img src={setup.qrCodeDataUrl} alt="QR-Code für die Authenticator-App" width={200} height={200} />
+            <p className="muted">
+              Secret zur manuellen Eingabe: <code>{setup.secret}</code>
+            </p>
+          </div>
+          <label className="field">
+            <span>Code aus der App</span>
+            <input
+              value={code}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+          </label>
+          <button type="submit" className="primary">
+            Aktivieren
+          </button>
+        </form>
+      ) : (
+        <>
+          <p className="muted">
+            Schütze dein Konto mit einer Authenticator-App (TOTP). Beim Login wird dann zusätzlich ein
+            sechsstelliger Code abgefragt.
+          </p>
+          <button className="primary" onClick={() => void startSetup()}>
+            2FA einrichten
+          </button>
+        </>
+      )}
+      {message && <p className="message">{message}</p>}
+    </div>
+  );
+};
+
 const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
   const { token, setToken } = useToken();
+  const loggedIn = Boolean(token);
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [resetRequested, setResetRequested] = useState(false);
+  const [showResetForm, setShowResetForm] = useState(false);
+  const [loginChallenge, setLoginChallenge] = useState<string | null>(null);
+  const [secondFactorCode, setSecondFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [settings, setSettings] = useState<SystemSettings | null>(null);
   const [emailSendingEnabled, setEmailSendingEnabled] = useState(false);
+  const [smtpTestRunning, setSmtpTestRunning] = useState(false);
+  const [sendSmtpTestEmail, setSendSmtpTestEmail] = useState(false);
   const [systemStatus, setSystemStatus] = useState<SystemStatus | null>(null);
-  const [activeAdminTab, setActiveAdminTab] = useState<'events' | 'settings' | 'status'>(
-    'events'
-  );
+  const [activeAdminTab, setActiveAdminTab] = useState<
+    'events' | 'settings' | 'status' | 'sessions' | 'admins' | 'audit'
+  >('events');
+  const [currentAdmin, setCurrentAdmin] = useState<AdminAccount | null>(null);
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [adminInvites, setAdminInvites] = useState<AdminInvite[]>([]);
+  const [adminInviteDraft, setAdminInviteDraft] = useState<{ email: string; role: AdminRole }>({
+    email: '',
+    role: 'ORGANIZER'
+  });
+  const [eventAccess, setEventAccess] = useState<Record<string, string[]>>({});
+  const [sessions, setSessions] = useState<AdminSessionInfo[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [suppressions, setSuppressions] = useState<EmailSuppression[] | null>(null);
+  const [suppressionSearch, setSuppressionSearch] = useState('');
+  const [auditTotal, setAuditTotal] = useState(0);
+  const [auditFilter, setAuditFilter] = useState<{
+    entityType: string;
+    action: string;
+    eventId: string;
+  }>({ entityType: '', action: '', eventId: '' });
   const [events, setEvents] = useState<Event[]>([]);
   const [eventForm, setEventForm] = useState<EventPayload>({
     name: '',
@@ -213,85 +1357,355 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
     endsAt: '',
     visibleRadiusMeters: 1000,
     foundRadiusMeters: 50,
-    startPoint: '',
-    endPoint: '',
+    startLatitude: null,
+    startLongitude: null,
+    startLabel: '',
+    endLatitude: null,
+    endLongitude: null,
+    endLabel: '',
+    playArea: '',
     invitationEmailSubject: defaultInvitationSubject,
     invitationEmailBody: defaultInvitationBody,
     senderEmail: '',
-    senderName: ''
+    senderName: '',
+    accessMode: 'PUBLIC',
+    leaderboardEnabled: true,
+    teamsEnabled: false,
+    oneFindPerTeam: false,
+    ...defaultScoringRules,
+    invitationEmailHtml: '',
+    emailLocale: 'de',
+    emailTemplates: []
   });
   const [editingEventId, setEditingEventId] = useState<string | null>(null);
-  const [cacheDraft, setCacheDraft] = useState<CachePayload>({
-    latitude: 0,
-    longitude: 0,
-    clue: '',
-    solution: ''
-  });
+  const [emailPreview, setEmailPreview] = useState<EmailPreview | null>(null);
+  const [cacheDraft, setCacheDraft] = useState<CachePayload>(emptyCacheDraft);
   const [targetEventId, setTargetEventId] = useState<string | null>(null);
   const [message, setMessage] = useState('');
   const [invitationDrafts, setInvitationDrafts] = useState<
     Record<string, { deliveryMethod: 'LINK' | 'EMAIL'; email: string }>
   >({});
+  const [bulkDrafts, setBulkDrafts] = useState<
+    Record<string, { deliveryMethod: 'LINK' | 'EMAIL'; csv: string }>
+  >({});
+  const [bulkResults, setBulkResults] = useState<Record<string, BulkInvitationResult[]>>({});
   const [emailLogs, setEmailLogs] = useState<Record<string, EmailLog[]>>({});
+  const [emailJobs, setEmailJobs] = useState<Record<string, EmailJob[]>>({});
+  const [emailJobDrafts, setEmailJobDrafts] = useState<Record<string, EmailJobDraft>>({});
+  const [eventTeams, setEventTeams] = useState<
+    Record<string, { teams: Team[]; unassignedPlayers: TeamMember[] }>
+  >({});
+  const [teamNameDrafts, setTeamNameDrafts] = useState<Record<string, string>>({});
   const [dashboards, setDashboards] = useState<Record<string, Dashboard>>({});
   const [loadingDashboard, setLoadingDashboard] = useState<string | null>(null);
+  const [leaderboards, setLeaderboards] = useState<Record<string, Leaderboard>>({});
 
-  const authHeaders = useMemo(() => {
+  const authHeaders = useMemo((): Record<string, string> => {
     if (!token) return {};
     return { Authorization: `Bearer ${token}` };
   }, [token]);
 
-  const login = async (e: FormEvent) => {
+  const login = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    const res = await fetch('/api/admin/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password })
+    });
+    if (res.ok) {
+      const data = (await res.json()) as {
+        token?: string;
+        idleExpiresAt?: string;
+        twoFactorRequired?: boolean;
+        challengeToken?: string;
+      };
+      setPassword('');
+      if (data.twoFactorRequired && data.challengeToken) {
+        setLoginChallenge(data.challengeToken);
+        setSecondFactorCode('');
+        setUseRecoveryCode(false);
+        return;
+      }
+      setToken(data.token!, data.idleExpiresAt);
+    } else if (res.status === 429) {
+      const data = (await res.json()) as { message?: string };
+      setMessage(data.message ?? 'Zu viele Anmeldeversuche.');
+    } else {
+      setMessage('Login fehlgeschlagen.');
+    }
+  };
+
+  const submitSecondFactor = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    const res = await fetch('/api/admin/login/totp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(
+        useRecoveryCode
+          ? { challengeToken: loginChallenge, recoveryCode: secondFactorCode }
+          : { challengeToken: loginChallenge, code: secondFactorCode }
+      )
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      token?: string;
+      idleExpiresAt?: string;
+      message?: string;
+    };
+    if (res.ok && data.token) {
+      setLoginChallenge(null);
+      setSecondFactorCode('');
+      setToken(data.token, data.idleExpiresAt);
+      return;
+    }
+    if (res.status === 401 && data.message !== 'Ungültiger Code') {
+      setLoginChallenge(null);
+    }
+    setMessage(data.message || 'Login fehlgeschlagen.');
+  };
+
+  const requestPasswordReset = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    const res = await fetch('/api/admin/password-reset/request', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email })
+    });
+    if (res.ok) {
+      setResetRequested(true);
+      setMessage('Falls ein Konto existiert, wurde eine E-Mail zum Zurücksetzen versendet.');
+    } else {
+      setMessage('Anfrage fehlgeschlagen.');
+    }
+  };
+
+  const handlePasswordChanged = (newToken: string, idleExpiresAt: string) => {
+    setToken(newToken, idleExpiresAt);
+    setCurrentAdmin((prev) => (prev ? { ...prev, mustChangePassword: false } : prev));
+  };
+
+  const loadSettings = async () => {
+    if (!token) return;
+    const res = await fetch('/api/admin/settings', { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { settings: SystemSettings; emailSendingEnabled?: boolean };
+      setSettings(data.settings);
+      setEmailSendingEnabled(Boolean(data.emailSendingEnabled));
+    }
+  };
+
+  const loadSystemStatus = async () => {
+    if (!token) return;
+    const res = await fetch('/api/admin/system-status', { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as SystemStatus;
+      setSystemStatus(data);
+      setEmailSendingEnabled(Boolean(data.emailSendingEnabled));
+    }
+  };
+
+  const loadEvents = async () => {
+    if (!token) return;
+    const res = await fetch('/api/admin/events', { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { events: Event[] };
+      setEvents(data.events);
+    }
+  };
+
+  const isOwner = currentAdmin?.role === 'OWNER';
+  const canManage = currentAdmin !== null && currentAdmin.role !== 'VIEWER';
+
+  const loadCurrentAdmin = async () => {
+    if (!token) return;
+    const res = await fetch('/api/admin/me', { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { admin: AdminAccount };
+      setCurrentAdmin(data.admin);
+    } else if (res.status === 401) {
+      setToken(null);
+    }
+  };
+
+  const loadAdmins = async () => {
+    if (!token) return;
+    const res = await fetch('/api/admin/admins', { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { admins: AdminAccount[]; invites: AdminInvite[] };
+      setAdmins(data.admins);
+      setAdminInvites(data.invites);
+    }
+  };
+
+  const inviteAdmin = async (e: FormEvent) => {
     e.preventDefault();
     setMessage('');
-    const res = await fetch('/api/admin/login', {
+    const res = await fetch('/api/admin/admins/invites', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ password })
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify(adminInviteDraft)
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      message?: string;
+      link?: string;
+      emailStatus?: string;
+    };
+    if (!res.ok) {
+      setMessage(data.message || 'Einladung konnte nicht erstellt werden.');
+      return;
+    }
+    setMessage(
+      data.emailStatus === 'queued'
+        ? 'Einladung wird per E-Mail versendet.'
+        : `E-Mail nicht versendet. Einladungslink: ${data.link}`
+    );
+    setAdminInviteDraft({ email: '', role: 'ORGANIZER' });
+    await loadAdmins();
+  };
+
+  const revokeAdminInvite = async (inviteId: string) => {
+    await fetch(`/api/admin/admins/invites/${inviteId}`, { method: 'DELETE', headers: authHeaders });
+    await loadAdmins();
+  };
+
+  const updateAdminRole = async (adminId: string, role: AdminRole) => {
+    setMessage('');
+    const res = await fetch(`/api/admin/admins/${adminId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ role })
     });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Rolle konnte nicht geändert werden.');
+    }
+    await loadAdmins();
+  };
+
+  const deleteAdmin = async (adminId: string) => {
+    if (!confirm('Admin-Konto wirklich löschen?')) return;
+    setMessage('');
+    const res = await fetch(`/api/admin/admins/${adminId}`, { method: 'DELETE', headers: authHeaders });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Admin konnte nicht gelöscht werden.');
+    }
+    await loadAdmins();
+  };
+
+  const resetAdminTotp = async (adminId: string) => {
+    if (!confirm('Zwei-Faktor-Anmeldung dieses Admins zurücksetzen?')) return;
+    setMessage('');
+    const res = await fetch(`/api/admin/admins/${adminId}/totp`, { method: 'DELETE', headers: authHeaders });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || '2FA konnte nicht zurückgesetzt werden.');
+    }
+    await loadAdmins();
+  };
+
+  const loadEventAccess = async (eventId: string) => {
+    if (admins.length === 0) await loadAdmins();
+    const res = await fetch(`/api/admin/events/${eventId}/access`, { headers: authHeaders });
     if (res.ok) {
-      const data = (await res.json()) as { token: string };
-      setToken(data.token);
-      setPassword('');
-    } else {
-      setMessage('Login fehlgeschlagen.');
+      const data = (await res.json()) as { admins: AdminAccount[] };
+      setEventAccess((prev) => ({ ...prev, [eventId]: data.admins.map((admin) => admin.id) }));
     }
   };
 
-  const loadSettings = async () => {
-    if (!token) return;
-    const res = await fetch('/api/admin/settings', { headers: authHeaders });
+  const saveEventAccess = async (eventId: string, adminIds: string[]) => {
+    const res = await fetch(`/api/admin/events/${eventId}/access`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ adminIds })
+    });
     if (res.ok) {
-      const data = (await res.json()) as { settings: SystemSettings; emailSendingEnabled?: boolean };
-      setSettings(data.settings);
-      setEmailSendingEnabled(Boolean(data.emailSendingEnabled));
+      const data = (await res.json()) as { admins: AdminAccount[] };
+      setEventAccess((prev) => ({ ...prev, [eventId]: data.admins.map((admin) => admin.id) }));
+      setMessage('Zugriff aktualisiert.');
     }
   };
 
-  const loadSystemStatus = async () => {
+  const loadSessions = async () => {
     if (!token) return;
-    const res = await fetch('/api/admin/system-status', { headers: authHeaders });
+    const res = await fetch('/api/admin/sessions', { headers: authHeaders });
     if (res.ok) {
-      const data = (await res.json()) as SystemStatus;
-      setSystemStatus(data);
-      setEmailSendingEnabled(Boolean(data.emailSendingEnabled));
+      const data = (await res.json()) as { sessions: AdminSessionInfo[] };
+      setSessions(data.sessions);
     }
   };
 
-  const loadEvents = async () => {
+  const loadSuppressions = async () => {
+    const params = new URLSearchParams();
+    if (suppressionSearch.trim()) params.set('search', suppressionSearch.trim());
+    const res = await fetch(`/api/admin/email-suppressions?${params.toString()}`, { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { suppressions: EmailSuppression[] };
+      setSuppressions(data.suppressions);
+    } else {
+      setMessage('Sperrliste konnte nicht geladen werden.');
+    }
+  };
+
+  const removeSuppression = async (suppression: EmailSuppression) => {
+    if (!window.confirm(`${suppression.email} wieder für Einladungen freigeben?`)) return;
+    const res = await fetch(`/api/admin/email-suppressions/${suppression.id}`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+    if (res.ok) {
+      setSuppressions((prev) => prev?.filter((entry) => entry.id !== suppression.id) ?? null);
+      setMessage('Adresse freigegeben.');
+    } else {
+      setMessage('Sperre konnte nicht entfernt werden.');
+    }
+  };
+
+  const loadAuditLog = async (offset = 0) => {
     if (!token) return;
-    const res = await fetch('/api/admin/events', { headers: authHeaders });
+    const params = new URLSearchParams({ limit: String(AUDIT_PAGE_SIZE), offset: String(offset) });
+    if (auditFilter.entityType) params.set('entityType', auditFilter.entityType);
+    if (auditFilter.action.trim()) params.set('action', auditFilter.action.trim());
+    if (auditFilter.eventId) params.set('eventId', auditFilter.eventId);
+    const res = await fetch(`/api/admin/audit-log?${params.toString()}`, { headers: authHeaders });
     if (res.ok) {
-      const data = (await res.json()) as { events: Event[] };
-      setEvents(data.events);
+      const data = (await res.json()) as { entries: AuditEntry[]; total: number };
+      setAuditEntries((prev) => (offset === 0 ? data.entries : [...prev, ...data.entries]));
+      setAuditTotal(data.total);
+    } else {
+      setMessage('Audit-Log konnte nicht geladen werden.');
     }
   };
 
   useEffect(() => {
+    if (!loggedIn) {
+      setCurrentAdmin(null);
+      return;
+    }
+    void loadCurrentAdmin();
     void loadSettings();
     void loadEvents();
     void loadSystemStatus();
-  }, [token]);
+  }, [loggedIn]);
+
+  const logout = async () => {
+    await fetch('/api/admin/logout', { method: 'POST', headers: authHeaders }).catch(() => undefined);
+    setToken(null);
+  };
+
+  const revokeAdminSession = async (sessionId: string) => {
+    const res = await fetch(`/api/admin/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+    if (!res.ok) {
+      setMessage('Sitzung konnte nicht beendet werden.');
+      return;
+    }
+    await loadSessions();
+  };
 
   const updateSettings = async (e: FormEvent) => {
     e.preventDefault();
@@ -309,6 +1723,28 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
     }
   };
 
+  const runSmtpTest = async () => {
+    setMessage('');
+    setSmtpTestRunning(true);
+    const res = await fetch('/api/admin/settings/smtp-test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ sendTestEmail: sendSmtpTestEmail })
+    });
+    setSmtpTestRunning(false);
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      message?: string;
+      diagnostics?: SmtpDiagnostics;
+    };
+    if (!res.ok || !data.diagnostics) {
+      setMessage(data.message || 'SMTP-Test fehlgeschlagen.');
+      return;
+    }
+    const diagnostics = data.diagnostics;
+    setSettings((prev) => (prev ? { ...prev, smtpLastTestResult: diagnostics } : prev));
+    setMessage(diagnostics.ok ? 'SMTP-Verbindung erfolgreich getestet.' : 'SMTP-Test fehlgeschlagen, Details siehe unten.');
+  };
+
   const resetEventForm = () => {
     setEventForm({
       name: '',
@@ -317,20 +1753,56 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
       endsAt: '',
       visibleRadiusMeters: settings?.cacheVisibilityRadiusDefault ?? 1000,
       foundRadiusMeters: settings?.cacheFoundRadiusDefault ?? 50,
-      startPoint: '',
-      endPoint: '',
+      startLatitude: null,
+      startLongitude: null,
+      startLabel: '',
+      endLatitude: null,
+      endLongitude: null,
+      endLabel: '',
+      playArea: '',
       invitationEmailSubject: defaultInvitationSubject,
       invitationEmailBody: defaultInvitationBody,
       senderEmail: '',
-      senderName: ''
+      senderName: '',
+      accessMode: 'PUBLIC',
+      leaderboardEnabled: true,
+      teamsEnabled: false,
+      oneFindPerTeam: false,
+      ...defaultScoringRules,
+      invitationEmailHtml: '',
+      emailLocale: 'de',
+      emailTemplates: []
     });
     setEditingEventId(null);
+    setEmailPreview(null);
   };
 
   const saveEvent = async (e: FormEvent) => {
     e.preventDefault();
     setMessage('');
-    const payload = { ...eventForm };
+    const { startLatitude, startLongitude, startLabel, endLatitude, endLongitude, endLabel, playArea, ...form } =
+      eventForm;
+    if (isIncompletePoint(startLatitude, startLongitude)) {
+      setMessage('Startpunkt braucht Breite und Länge.');
+      return;
+    }
+    if (isIncompletePoint(endLatitude, endLongitude)) {
+      setMessage('Zielpunkt braucht Breite und Länge.');
+      return;
+    }
+    const playAreaLines = splitLines(playArea).filter((line) => line.trim());
+    const invalidLine = playAreaLines.find((line) => !parseCoordinatePair(line));
+    if (invalidLine) {
+      setMessage(`Spielfeld: „${invalidLine.trim()}“ ist keine gültige Koordinate.`);
+      return;
+    }
+    const playAreaPoints = playAreaLines.map((line) => parseCoordinatePair(line)!);
+    const payload = {
+      ...form,
+      startPoint: toEventPoint(startLatitude, startLongitude, startLabel),
+      endPoint: toEventPoint(endLatitude, endLongitude, endLabel),
+      playArea: playAreaPoints.length > 0 ? playAreaPoints : null
+    };
     const url = editingEventId
       ? `/api/admin/events/${editingEventId}`
       : '/api/admin/events';
@@ -362,15 +1834,67 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
       endsAt: event.endsAt.slice(0, 16),
       visibleRadiusMeters: event.visibleRadiusMeters,
       foundRadiusMeters: event.foundRadiusMeters,
-      startPoint: event.startPoint || '',
-      endPoint: event.endPoint || '',
+      startLatitude: event.startPoint?.latitude ?? null,
+      startLongitude: event.startPoint?.longitude ?? null,
+      startLabel: event.startPoint?.label || '',
+      endLatitude: event.endPoint?.latitude ?? null,
+      endLongitude: event.endPoint?.longitude ?? null,
+      endLabel: event.endPoint?.label || '',
+      playArea: (event.playArea ?? []).map((point) => `${point.latitude}, ${point.longitude}`).join('\n'),
       invitationEmailSubject: event.invitationEmailSubject || defaultInvitationSubject,
       invitationEmailBody: event.invitationEmailBody || defaultInvitationBody,
       senderEmail: event.senderEmail || '',
-      senderName: event.senderName || ''
+      senderName: event.senderName || '',
+      accessMode: event.accessMode ?? 'PUBLIC',
+      leaderboardEnabled: event.leaderboardEnabled ?? true,
+      basePoints: event.basePoints ?? defaultScoringRules.basePoints,
+      firstFinderBonus: event.firstFinderBonus ?? 0,
+      secondFinderBonus: event.secondFinderBonus ?? 0,
+      thirdFinderBonus: event.thirdFinderBonus ?? 0,
+      timeBonusPoints: event.timeBonusPoints ?? 0,
+      timeBonusMinutes: event.timeBonusMinutes ?? null,
+      teamsEnabled: event.teamsEnabled ?? false,
+      oneFindPerTeam: event.oneFindPerTeam ?? false,
+      invitationEmailHtml: event.invitationEmailHtml || '',
+      emailLocale: event.emailLocale || 'de',
+      emailTemplates: (event.emailTemplates ?? []).map((template) => ({
+        locale: template.locale,
+        subject: template.subject,
+        htmlBody: template.htmlBody || '',
+        textBody: template.textBody || ''
+      }))
+    });
+    setEmailPreview(null);
+  };
+
+  const updateEmailTemplate = (index: number, updates: Partial<EmailTemplateVariant>) => {
+    setEventForm({
+      ...eventForm,
+      emailTemplates: eventForm.emailTemplates.map((template, position) =>
+        position === index ? { ...template, ...updates } : template
+      )
     });
   };
 
+  const previewEmail = async (template: Omit<EmailTemplateVariant, 'locale'>, locale: string) => {
+    if (!editingEventId) return;
+    setMessage('');
+    const res = await fetch(`/api/admin/events/${editingEventId}/email-preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ locale, recipientName: 'Max Mustermann', template })
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      message?: string;
+      preview?: EmailPreview;
+    };
+    if (!res.ok || !data.preview) {
+      setMessage(data.message || 'Vorschau konnte nicht erstellt werden.');
+      return;
+    }
+    setEmailPreview(data.preview);
+  };
+
   const deleteEvent = async (eventId: string) => {
     if (!confirm('Event wirklich löschen?')) return;
     await fetch(`/api/admin/events/${eventId}`, {
@@ -400,9 +1924,115 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
     if (res.ok) {
       const data = (await res.json()) as { dashboard: Dashboard };
       setDashboards((prev) => ({ ...prev, [eventId]: data.dashboard }));
+      await loadAdminLeaderboard(eventId);
+    }
+  };
+
+  const loadAdminLeaderboard = async (eventId: string) => {
+    const res = await fetch(`/api/admin/events/${eventId}/leaderboard`, { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { leaderboard: Leaderboard };
+      setLeaderboards((prev) => ({ ...prev, [eventId]: data.leaderboard }));
+    }
+  };
+
+  const updateLeaderboardSettings = async (eventId: string, updates: { enabled?: boolean; frozen?: boolean }) => {
+    const res = await fetch(`/api/admin/events/${eventId}/leaderboard`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify(updates)
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Bestenliste konnte nicht geändert werden.');
+      return;
     }
+    await Promise.all([loadEvents(), loadAdminLeaderboard(eventId)]);
   };
 
+  const liveDashboardIds = useMemo(() => Object.keys(dashboards).sort().join(','), [dashboards]);
+  const prerequisiteOptions = useMemo(
+    () =>
+      (events.find((event) => event.id === targetEventId)?.caches ?? []).filter(
+        (cache) => cache.id !== cacheDraft.id
+      ),
+    [events, targetEventId, cacheDraft.id]
+  );
+  const mapEvent = events.find((event) => event.id === targetEventId) ?? null;
+  const hasDraftPosition = cacheDraft.latitude !== 0 || cacheDraft.longitude !== 0;
+  const adminMapMarkers = useMemo((): MapMarker[] => {
+    if (!mapEvent) return [];
+    return [
+      ...mapEvent.caches
+        .filter((cache) => cache.id !== cacheDraft.id)
+        .map(
+          (cache, index): MapMarker => ({
+            id: cache.id,
+            latitude: cache.latitude,
+            longitude: cache.longitude,
+            label: cache.clue || `Cache ${index + 1}`,
+            tone: cache.foundByAny ? 'taken' : 'open',
+            draggable: true
+          })
+        ),
+      ...(hasDraftPosition
+        ? [
+            {
+              id: 'draft',
+              latitude: cacheDraft.latitude,
+              longitude: cacheDraft.longitude,
+              label: cacheDraft.id ? 'Bearbeiteter Cache' : 'Neuer Cache',
+              tone: 'draft' as const,
+              draggable: true
+            }
+          ]
+        : []),
+      ...eventPointMarkers(mapEvent)
+    ];
+  }, [mapEvent, cacheDraft.id, cacheDraft.latitude, cacheDraft.longitude, hasDraftPosition]);
+  const adminMapCircles = useMemo(
+    (): MapCircle[] =>
+      mapEvent
+        ? adminMapMarkers
+            .filter((marker) => marker.tone !== 'start' && marker.tone !== 'end')
+            .flatMap((marker): MapCircle[] => [
+              { ...marker, id: `${marker.id}-visible`, radiusMeters: mapEvent.visibleRadiusMeters, tone: 'visible' },
+              { ...marker, id: `${marker.id}-found`, radiusMeters: mapEvent.foundRadiusMeters, tone: 'found' }
+            ])
+        : [],
+    [mapEvent, adminMapMarkers]
+  );
+
+  useEffect(() => {
+    if (!liveDashboardIds) return;
+    const closers = liveDashboardIds.split(',').map((eventId) =>
+      subscribeToEventStream(`/api/admin/events/${eventId}/dashboard/stream`, authHeaders, (type, data) => {
+        setDashboards((prev) => {
+          const dashboard = prev[eventId];
+          if (!dashboard) return prev;
+          if (type === 'find') {
+            const find = data as LiveFind;
+            return {
+              ...prev,
+              [eventId]: {
+                ...dashboard,
+                caches: dashboard.caches.map((cache) =>
+                  cache.id === find.cacheId ? { ...cache, found: true, foundAt: find.foundAt } : cache
+                ),
+                recentFinds: [find, ...dashboard.recentFinds].slice(0, RECENT_FINDS_LIMIT)
+              }
+            };
+          }
+          if (type === 'stats') {
+            return { ...prev, [eventId]: { ...dashboard, ...(data as DashboardStats) } };
+          }
+          return prev;
+        });
+      })
+    );
+    return () => closers.forEach((close) => close());
+  }, [liveDashboardIds, authHeaders]);
+
   const exportEventData = async (eventId: string) => {
     const res = await fetch(`/api/admin/events/${eventId}/export`, { headers: authHeaders });
     if (!res.ok) {
@@ -427,14 +2057,68 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
       ? `/api/admin/events/${eventId}/caches/${cache.id}`
       : `/api/admin/events/${eventId}/caches`;
     const method = isUpdate ? 'PUT' : 'POST';
-    await fetch(url, {
+    const res = await fetch(url, {
       method,
       headers: { 'Content-Type': 'application/json', ...authHeaders },
-      body: JSON.stringify(cache)
+      body: JSON.stringify({
+        ...cache,
+        verificationAnswers: cache.verificationAnswers.map((answer) => answer.trim()).filter(Boolean),
+        answerOptions: cache.answerOptions.map((option) => option.trim()).filter(Boolean)
+      })
     });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Cache konnte nicht gespeichert werden.');
+      return;
+    }
     await loadEvents();
     setTargetEventId(null);
-    setCacheDraft({ latitude: 0, longitude: 0, clue: '', solution: '' });
+    setCacheDraft(emptyCacheDraft);
+  };
+
+  const downloadAdminFile = async (url: string, filename: string) => {
+    const res = await fetch(url, { headers: authHeaders });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Download fehlgeschlagen.');
+      return;
+    }
+    const objectUrl = URL.createObjectURL(await res.blob());
+    const anchor = document.createElement('a');
+    anchor.href = objectUrl;
+    anchor.download = filename;
+    anchor.click();
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  const moveCache = async (eventId: string, cacheId: string, latitude: number, longitude: number) => {
+    const res = await fetch(`/api/admin/events/${eventId}/caches/${cacheId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ latitude, longitude })
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Cache konnte nicht verschoben werden.');
+    } else {
+      setMessage('Cache verschoben.');
+    }
+    await loadEvents();
+  };
+
+  const regenerateCacheQrToken = async (eventId: string, cacheId: string) => {
+    const res = await fetch(`/api/admin/events/${eventId}/caches/${cacheId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ regenerateQrToken: true })
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'QR-Code konnte nicht erneuert werden.');
+      return;
+    }
+    setMessage('Neuer QR-Code erstellt. Bisherige Ausdrucke sind ungültig.');
+    await loadEvents();
   };
 
   const deleteCache = async (eventId: string, cacheId: string) => {
@@ -469,16 +2153,67 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
     const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
       message?: string;
       link?: string;
+      emailStatus?: string;
     };
     if (!res.ok) {
       setMessage(data.message || 'Einladung konnte nicht erstellt werden.');
       return;
     }
-    setMessage(data.link ? `Einladungslink: ${data.link}` : 'Einladung erstellt.');
+    if (data.emailStatus === 'suppressed') {
+      setMessage(
+        `Einladung erstellt, aber keine E-Mail gesendet: Die Adresse ist gesperrt (abgemeldet oder unzustellbar). Link: ${data.link}`
+      );
+    } else {
+      setMessage(data.link ? `Einladungslink: ${data.link}` : 'Einladung erstellt.');
+    }
     setInvitationDrafts((prev) => ({ ...prev, [eventId]: { deliveryMethod: 'LINK', email: '' } }));
     await loadEvents();
   };
 
+  const updateBulkDraft = (
+    eventId: string,
+    updates: Partial<{ deliveryMethod: 'LINK' | 'EMAIL'; csv: string }>
+  ) => {
+    setBulkDrafts((prev) => ({
+      ...prev,
+      [eventId]: { ...(prev[eventId] ?? { deliveryMethod: 'LINK', csv: '' }), ...updates }
+    }));
+  };
+
+  const loadBulkFile = async (eventId: string, file: File | undefined) => {
+    if (!file) return;
+    updateBulkDraft(eventId, { csv: await file.text() });
+  };
+
+  const createBulkInvitations = async (eventId: string) => {
+    const draft = bulkDrafts[eventId] ?? { deliveryMethod: 'LINK', csv: '' };
+    if (!draft.csv.trim()) {
+      setMessage('Bitte Empfängerliste einfügen oder CSV-Datei wählen.');
+      return;
+    }
+    setMessage('');
+    const res = await fetch(`/api/admin/events/${eventId}/invitations/bulk`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({ deliveryMethod: draft.deliveryMethod, csv: draft.csv })
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      message?: string;
+      results?: BulkInvitationResult[];
+      summary?: { created: number; duplicates: number; invalid: number };
+    };
+    if (!res.ok || !data.results || !data.summary) {
+      setMessage(data.message || 'Import fehlgeschlagen.');
+      return;
+    }
+    setBulkResults((prev) => ({ ...prev, [eventId]: data.results! }));
+    setMessage(
+      `Import abgeschlossen: ${data.summary.created} angelegt, ${data.summary.duplicates} übersprungen, ${data.summary.invalid} ungültig.`
+    );
+    updateBulkDraft(eventId, { csv: '' });
+    await loadEvents();
+  };
+
   const toggleInvitation = async (eventId: string, invitationId: string, isActive: boolean) => {
     setMessage('');
     const res = await fetch(`/api/admin/events/${eventId}/invitations/${invitationId}`, {
@@ -502,6 +2237,120 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
     }
   };
 
+  const loadEmailJobs = async (eventId: string) => {
+    const res = await fetch(`/api/admin/events/${eventId}/email-jobs`, { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { jobs: EmailJob[] };
+      setEmailJobs((prev) => ({ ...prev, [eventId]: data.jobs }));
+    }
+  };
+
+  const updateEmailJobDraft = (eventId: string, updates: Partial<EmailJobDraft>) => {
+    setEmailJobDrafts((prev) => ({
+      ...prev,
+      [eventId]: { ...(prev[eventId] ?? emptyEmailJobDraft), ...updates }
+    }));
+  };
+
+  const createEmailJob = async (eventId: string) => {
+    const draft = emailJobDrafts[eventId] ?? emptyEmailJobDraft;
+    setMessage('');
+    const res = await fetch(`/api/admin/events/${eventId}/email-jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify({
+        kind: draft.kind,
+        offsetMinutes: Math.round(Number(draft.offsetHours) * 60),
+        subject: draft.subject || null,
+        htmlBody: draft.htmlBody || null,
+        textBody: draft.textBody || null
+      })
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Geplante E-Mail konnte nicht angelegt werden.');
+      return;
+    }
+    setMessage('E-Mail wurde eingeplant.');
+    setEmailJobDrafts((prev) => ({ ...prev, [eventId]: emptyEmailJobDraft }));
+    await loadEmailJobs(eventId);
+  };
+
+  const sendEmailJobNow = async (eventId: string, jobId: string) => {
+    const res = await fetch(`/api/admin/events/${eventId}/email-jobs/${jobId}/send-now`, {
+      method: 'POST',
+      headers: authHeaders
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+    setMessage(data.message || (res.ok ? 'Versand wird gestartet.' : 'Versand konnte nicht gestartet werden.'));
+    await loadEmailJobs(eventId);
+  };
+
+  const cancelEmailJob = async (eventId: string, jobId: string) => {
+    if (!window.confirm('Geplante E-Mail abbrechen?')) return;
+    const res = await fetch(`/api/admin/events/${eventId}/email-jobs/${jobId}`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Geplante E-Mail konnte nicht abgebrochen werden.');
+    }
+    await loadEmailJobs(eventId);
+  };
+
+  const loadTeams = async (eventId: string) => {
+    const res = await fetch(`/api/admin/events/${eventId}/teams`, { headers: authHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { teams: Team[]; unassignedPlayers: TeamMember[] };
+      setEventTeams((prev) => ({ ...prev, [eventId]: data }));
+    }
+  };
+
+  const sendTeamRequest = async (eventId: string, url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Team konnte nicht geändert werden.');
+      return false;
+    }
+    await loadTeams(eventId);
+    return true;
+  };
+
+  const createTeam = async (eventId: string) => {
+    const created = await sendTeamRequest(eventId, `/api/admin/events/${eventId}/teams`, 'POST', {
+      name: teamNameDrafts[eventId] ?? ''
+    });
+    if (created) setTeamNameDrafts((prev) => ({ ...prev, [eventId]: '' }));
+  };
+
+  const regenerateTeamCode = (eventId: string, teamId: string) =>
+    sendTeamRequest(eventId, `/api/admin/events/${eventId}/teams/${teamId}`, 'PUT', { regenerateCode: true });
+
+  const deleteTeam = async (eventId: string, teamId: string) => {
+    if (!window.confirm('Team löschen? Mitglieder bleiben als Spieler ohne Team erhalten.')) return;
+    await sendTeamRequest(eventId, `/api/admin/events/${eventId}/teams/${teamId}`, 'DELETE');
+  };
+
+  const assignPlayerTeam = (eventId: string, playerId: string, teamId: string | null) =>
+    sendTeamRequest(eventId, `/api/admin/events/${eventId}/players/${playerId}/team`, 'PUT', { teamId });
+
+  const retryEmail = async (eventId: string, logId: string) => {
+    setMessage('');
+    const res = await fetch(`/api/admin/events/${eventId}/email-logs/${logId}/retry`, {
+      method: 'POST',
+      headers: authHeaders
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+    setMessage(data.message || (res.ok ? 'E-Mail wird erneut versendet.' : 'Erneuter Versand fehlgeschlagen.'));
+    await loadEmailLogsForEvent(eventId);
+  };
+
   if (!token) {
     return (
       <div className="container">
@@ -511,7 +2360,60 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
             Öffentliche Ansicht
           </button>
         </header>
+        {loginChallenge ? (
+          <form onSubmit={submitSecondFactor} className="card">
+            <label>{useRecoveryCode ? 'Wiederherstellungscode' : 'Code aus der Authenticator-App'}</label>
+            <input
+              value={secondFactorCode}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              onChange={(e) => setSecondFactorCode(e.target.value)}
+              required
+            />
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="submit">Bestätigen</button>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setSecondFactorCode('');
+                }}
+              >
+                {useRecoveryCode ? 'Code aus der App verwenden' : 'Wiederherstellungscode verwenden'}
+              </button>
+              <button type="button" className="secondary" onClick={() => setLoginChallenge(null)}>
+                Abbrechen
+              </button>
+            </div>
+          </form>
+        ) : showResetForm ? (
+          <form onSubmit={requestPasswordReset} className="card">
+            <label>Admin-E-Mail</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="submit" disabled={resetRequested}>
+                Link zum Zurücksetzen senden
+              </button>
+              <button type="button" className="secondary" onClick={() => setShowResetForm(false)}>
+                Zurück zum Login
+              </button>
+            </div>
+          </form>
+        ) : (
         <form onSubmit={login} className="card">
+          <label>Admin-E-Mail</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
           <label>Admin-Passwort</label>
           <input
             type="password"
@@ -519,13 +2421,62 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
             onChange={(e) => setPassword(e.target.value)}
             required
           />
-          <button type="submit">Login</button>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="submit">Login</button>
+            <button type="button" className="secondary" onClick={() => setShowResetForm(true)}>
+              Passwort vergessen?
+            </button>
+          </div>
         </form>
+        )}
         {message && <p className="message">{message}</p>}
       </div>
     );
   }
 
+  if (currentAdmin?.mustChangePassword) {
+    return (
+      <div className="container">
+        <header className="header">
+          <h1>GeoCachingEngine Admin</h1>
+          <button className="secondary" onClick={() => void logout()}>
+            Logout
+          </button>
+        </header>
+        <section className="card">
+          <h2>Passwort ändern</h2>
+          <p className="muted">Bitte vergib vor der weiteren Nutzung ein eigenes Passwort.</p>
+          <PasswordChangeForm authHeaders={authHeaders} onChanged={handlePasswordChanged} />
+        </section>
+      </div>
+    );
+  }
+
+  if (currentAdmin?.totpEnrollmentRequired) {
+    return (
+      <div className="container">
+        <header className="header">
+          <h1>GeoCachingEngine Admin</h1>
+          <button className="secondary" onClick={() => void logout()}>
+            Logout
+          </button>
+        </header>
+        <section className="card">
+          <h2>Zwei-Faktor-Anmeldung einrichten</h2>
+          <p className="muted">Für alle Admin-Konten ist eine Zwei-Faktor-Anmeldung vorgeschrieben.</p>
+          <TwoFactorSettings
+            authHeaders={authHeaders}
+            onChanged={(enabled) =>
+              setCurrentAdmin((prev) =>
+                prev ? { ...prev, totpEnabled: enabled, totpEnrollmentRequired: !enabled } : prev
+              )
+            }
+          />
+        </section>
+      </div>
+    );
+  }
+
   return (
     <div className="container">
       <header className="header">
@@ -534,7 +2485,7 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
           <button className="secondary" onClick={() => navigate('/public')}>
             Öffentliche Ansicht
           </button>
-          <button className="secondary" onClick={() => setToken(null)}>
+          <button className="secondary" onClick={() => void logout()}>
             Logout
           </button>
         </div>
@@ -548,13 +2499,39 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
         >
           Events
         </button>
-        <button
-          className={activeAdminTab === 'settings' ? 'tab active' : 'tab'}
-          onClick={() => setActiveAdminTab('settings')}
-          aria-current={activeAdminTab === 'settings'}
-        >
-          Einstellungen
-        </button>
+        {isOwner && (
+          <button
+            className={activeAdminTab === 'settings' ? 'tab active' : 'tab'}
+            onClick={() => setActiveAdminTab('settings')}
+            aria-current={activeAdminTab === 'settings'}
+          >
+            Einstellungen
+          </button>
+        )}
+        {isOwner && (
+          <button
+            className={activeAdminTab === 'admins' ? 'tab active' : 'tab'}
+            onClick={() => {
+              setActiveAdminTab('admins');
+              void loadAdmins();
+            }}
+            aria-current={activeAdminTab === 'admins'}
+          >
+            Admins
+          </button>
+        )}
+        {isOwner && (
+          <button
+            className={activeAdminTab === 'audit' ? 'tab active' : 'tab'}
+            onClick={() => {
+              setActiveAdminTab('audit');
+              void loadAuditLog();
+            }}
+            aria-current={activeAdminTab === 'audit'}
+          >
+            Audit-Log
+          </button>
+        )}
         <button
           className={activeAdminTab === 'status' ? 'tab active' : 'tab'}
           onClick={() => setActiveAdminTab('status')}
@@ -562,11 +2539,21 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
         >
           Systemstatus
         </button>
+        <button
+          className={activeAdminTab === 'sessions' ? 'tab active' : 'tab'}
+          onClick={() => {
+            setActiveAdminTab('sessions');
+            void loadSessions();
+          }}
+          aria-current={activeAdminTab === 'sessions'}
+        >
+          Konto
+        </button>
       </nav>
 
       {message && <p className="message">{message}</p>}
 
-      {activeAdminTab === 'settings' && (
+      {activeAdminTab === 'settings' && isOwner && (
         <section className="card">
         <h2>Einstellungen</h2>
         {settings ? (
@@ -665,12 +2652,28 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
               />
             </label>
             <label className="field">
-              <span>SMTP Passwort</span>
+              <span>
+                SMTP Passwort{' '}
+                <span className="muted">
+                  ({settings.smtpPassword === null ? 'wird entfernt' : settings.smtpPasswordSet ? 'gesetzt' : 'nicht gesetzt'})
+                </span>
+              </span>
               <input
                 type="password"
+                autoComplete="new-password"
+                placeholder={settings.smtpPasswordSet ? 'Unverändert lassen' : ''}
                 value={settings.smtpPassword || ''}
                 onChange={(e) => setSettings({ ...settings, smtpPassword: e.target.value })}
               />
+              {settings.smtpPasswordSet && settings.smtpPassword !== null && (
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => setSettings({ ...settings, smtpPassword: null })}
+                >
+                  Passwort entfernen
+                </button>
+              )}
             </label>
             <label className="field">
               <span>SMTP TLS/STARTTLS</span>
@@ -680,6 +2683,14 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                 onChange={(e) => setSettings({ ...settings, smtpUseTls: e.target.checked })}
               />
             </label>
+            <label className="field">
+              <span>2FA für alle Admins vorschreiben</span>
+              <input
+                type="checkbox"
+                checked={Boolean(settings.requireAdminTotp)}
+                onChange={(e) => setSettings({ ...settings, requireAdminTotp: e.target.checked })}
+              />
+            </label>
             <label className="field">
               <span>Absender-Adresse</span>
               <input
@@ -698,6 +2709,65 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
             <p className="muted full-row">
               E-Mail-Versand aktiviert: {emailSendingEnabled ? 'ja' : 'nein'} (SMTP-Daten im Formular pflegen)
             </p>
+            <div className="field full-row">
+              <span>Verbindungstest (prüft die gespeicherten SMTP-Einstellungen)</span>
+              <label style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={sendSmtpTestEmail}
+                  onChange={(e) => setSendSmtpTestEmail(e.target.checked)}
+                />
+                Testmail an meine Adresse senden
+              </label>
+              <div>
+                <button
+                  type="button"
+                  className="secondary"
+                  disabled={smtpTestRunning}
+                  onClick={() => void runSmtpTest()}
+                >
+                  {smtpTestRunning ? 'Teste...' : 'SMTP testen'}
+                </button>
+              </div>
+              {settings.smtpLastTestResult && (
+                <div className="cache-list" style={{ marginTop: '0.5rem' }}>
+                  <p className="muted">
+                    Letzter Test: {new Date(settings.smtpLastTestResult.checkedAt).toLocaleString()} ·{' '}
+                    <strong className={settings.smtpLastTestResult.ok ? 'text-success' : 'text-danger'}>
+                      {settings.smtpLastTestResult.ok ? 'Erfolgreich' : 'Fehlgeschlagen'}
+                    </strong>
+                  </p>
+                  {(Object.keys(smtpCheckLabels) as (keyof typeof smtpCheckLabels)[]).map((key) => {
+                    const check = settings.smtpLastTestResult![key];
+                    return (
+                      <div key={key} className="cache-row">
+                        <strong>{smtpCheckLabels[key]}</strong>
+                        <span className={check.status === 'failed' ? 'text-danger' : 'muted'}>
+                          {smtpStatusLabels[check.status]}
+                          {check.status !== 'skipped' ? ` (${check.durationMs} ms)` : ''}
+                          {key === 'dns' && settings.smtpLastTestResult!.dns.addresses
+                            ? ` · ${settings.smtpLastTestResult!.dns.addresses.join(', ')}`
+                            : ''}
+                          {key === 'tls' && settings.smtpLastTestResult!.tls.protocol
+                            ? ` · ${settings.smtpLastTestResult!.tls.protocol} ${settings.smtpLastTestResult!.tls.cipher ?? ''}`
+                            : ''}
+                          {check.message ? ` · ${check.message}` : ''}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  {settings.smtpLastTestResult.error && (
+                    <p className="muted">
+                      Serverantwort: {settings.smtpLastTestResult.error.code ?? '–'}
+                      {settings.smtpLastTestResult.error.responseCode
+                        ? ` / ${settings.smtpLastTestResult.error.responseCode}`
+                        : ''}
+                      {settings.smtpLastTestResult.error.response ? ` – ${settings.smtpLastTestResult.error.response}` : ''}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
             <button type="submit" className="primary">
               Speichern
             </button>
@@ -708,8 +2778,52 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
         </section>
       )}
 
+      {activeAdminTab === 'settings' && isOwner && (
+        <section className="card">
+          <h2>E-Mail-Sperrliste</h2>
+          <p className="muted">
+            Abgemeldete, unzustellbare oder per Spam-Beschwerde gemeldete Adressen erhalten keine Einladungen mehr.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <input
+              placeholder="Adresse suchen"
+              value={suppressionSearch}
+              onChange={(e) => setSuppressionSearch(e.target.value)}
+            />
+            <button type="button" className="secondary" onClick={() => void loadSuppressions()}>
+              Sperrliste laden
+            </button>
+          </div>
+          {suppressions && suppressions.length === 0 && (
+            <p className="muted" style={{ marginTop: '0.5rem' }}>
+              Keine gesperrten Adressen.
+            </p>
+          )}
+          {suppressions && suppressions.length > 0 && (
+            <div className="cache-list" style={{ marginTop: '0.5rem' }}>
+              {suppressions.map((suppression) => (
+                <div key={suppression.id} className="cache-row" style={{ alignItems: 'flex-start' }}>
+                  <div style={{ display: 'flex', flexDirection: 'column' }}>
+                    <strong>{suppression.email}</strong>
+                    <span className="muted">
+                      {suppressionReasonLabels[suppression.reason]} ·{' '}
+                      {new Date(suppression.createdAt).toLocaleString()}
+                    </span>
+                    {suppression.detail && <span className="muted">{suppression.detail}</span>}
+                  </div>
+                  <button className="secondary" onClick={() => void removeSuppression(suppression)}>
+                    Freigeben
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
       {activeAdminTab === 'events' && (
         <>
+      {canManage && (
       <section className="card">
         <h2>{editingEventId ? 'Event bearbeiten' : 'Event anlegen'}</h2>
         <form onSubmit={saveEvent} className="grid">
@@ -767,17 +2881,159 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
             />
           </label>
           <label className="field">
-            <span>Startpunkt</span>
+            <span>Zugang</span>
+            <select
+              value={eventForm.accessMode}
+              onChange={(e) => setEventForm({ ...eventForm, accessMode: e.target.value as EventAccessMode })}
+            >
+              <option value="PUBLIC">Öffentlich</option>
+              <option value="INVITE_ONLY">Nur mit Einladung</option>
+            </select>
+          </label>
+          <label className="field">
+            <span>Öffentliche Bestenliste</span>
+            <input
+              type="checkbox"
+              checked={eventForm.leaderboardEnabled}
+              onChange={(e) => setEventForm({ ...eventForm, leaderboardEnabled: e.target.checked })}
+            />
+          </label>
+          <label className="field">
+            <span>Team-Modus</span>
+            <input
+              type="checkbox"
+              checked={eventForm.teamsEnabled}
+              onChange={(e) => setEventForm({ ...eventForm, teamsEnabled: e.target.checked })}
+            />
+          </label>
+          {eventForm.teamsEnabled && (
+            <label className="field">
+              <span>Nur ein Fund pro Team und Cache</span>
+              <input
+                type="checkbox"
+                checked={eventForm.oneFindPerTeam}
+                onChange={(e) => setEventForm({ ...eventForm, oneFindPerTeam: e.target.checked })}
+              />
+            </label>
+          )}
+          <label className="field">
+            <span>Basispunkte pro Cache</span>
+            <input
+              type="number"
+              min={0}
+              value={eventForm.basePoints}
+              onChange={(e) => setEventForm({ ...eventForm, basePoints: Number(e.target.value) })}
+            />
+          </label>
+          <label className="field">
+            <span>Bonus 1. / 2. / 3. Finder</span>
+            <div style={{ display: 'flex', gap: '0.35rem' }}>
+              {(['firstFinderBonus', 'secondFinderBonus', 'thirdFinderBonus'] as const).map((field) => (
+                <input
+                  key={field}
+                  type="number"
+                  min={0}
+                  value={eventForm[field]}
+                  onChange={(e) => setEventForm({ ...eventForm, [field]: Number(e.target.value) })}
+                />
+              ))}
+            </div>
+          </label>
+          <label className="field">
+            <span>Zeitbonus (Punkte, sinkt linear ab Eventstart)</span>
+            <input
+              type="number"
+              min={0}
+              value={eventForm.timeBonusPoints}
+              onChange={(e) => setEventForm({ ...eventForm, timeBonusPoints: Number(e.target.value) })}
+            />
+          </label>
+          <label className="field">
+            <span>Zeitbonus-Dauer in Minuten (leer = gesamte Eventdauer)</span>
+            <input
+              type="number"
+              min={1}
+              value={eventForm.timeBonusMinutes ?? ''}
+              onChange={(e) =>
+                setEventForm({
+                  ...eventForm,
+                  timeBonusMinutes: e.target.value === '' ? null : Number(e.target.value)
+                })
+              }
+            />
+          </label>
+          <label className="field">
+            <span>Startpunkt (Bezeichnung)</span>
+            <input
+              value={eventForm.startLabel}
+              onChange={(e) => setEventForm({ ...eventForm, startLabel: e.target.value })}
+              placeholder="z. B. Parkplatz am Waldrand"
+            />
+          </label>
+          <label className="field">
+            <span>Startpunkt Breite</span>
+            <input
+              type="number"
+              step="any"
+              value={eventForm.startLatitude ?? ''}
+              onChange={(e) =>
+                setEventForm({
+                  ...eventForm,
+                  startLatitude: e.target.value === '' ? null : Number(e.target.value)
+                })
+              }
+            />
+          </label>
+          <label className="field">
+            <span>Startpunkt Länge</span>
+            <input
+              type="number"
+              step="any"
+              value={eventForm.startLongitude ?? ''}
+              onChange={(e) =>
+                setEventForm({
+                  ...eventForm,
+                  startLongitude: e.target.value === '' ? null : Number(e.target.value)
+                })
+              }
+            />
+          </label>
+          <label className="field">
+            <span>Zielpunkt (Bezeichnung)</span>
+            <input
+              value={eventForm.endLabel}
+              onChange={(e) => setEventForm({ ...eventForm, endLabel: e.target.value })}
+            />
+          </label>
+          <label className="field">
+            <span>Zielpunkt Breite</span>
             <input
-              value={eventForm.startPoint}
-              onChange={(e) => setEventForm({ ...eventForm, startPoint: e.target.value })}
+              type="number"
+              step="any"
+              value={eventForm.endLatitude ?? ''}
+              onChange={(e) =>
+                setEventForm({ ...eventForm, endLatitude: e.target.value === '' ? null : Number(e.target.value) })
+              }
             />
           </label>
           <label className="field">
-            <span>Endpunkt</span>
+            <span>Zielpunkt Länge</span>
             <input
-              value={eventForm.endPoint}
-              onChange={(e) => setEventForm({ ...eventForm, endPoint: e.target.value })}
+              type="number"
+              step="any"
+              value={eventForm.endLongitude ?? ''}
+              onChange={(e) =>
+                setEventForm({ ...eventForm, endLongitude: e.target.value === '' ? null : Number(e.target.value) })
+              }
+            />
+          </label>
+          <label className="field">
+            <span>Spielfeld (optional, ein Eckpunkt „Breite, Länge“ pro Zeile, mind. 3)</span>
+            <textarea
+              rows={4}
+              value={eventForm.playArea}
+              onChange={(e) => setEventForm({ ...eventForm, playArea: e.target.value })}
+              placeholder={'52.5200, 13.4000\n52.5200, 13.4200\n52.5100, 13.4100'}
             />
           </label>
           <label className="field">
@@ -804,6 +3060,22 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
               }
             />
           </label>
+          <label className="field">
+            <span>Sprache der Vorlage</span>
+            <input
+              value={eventForm.emailLocale}
+              onChange={(e) => setEventForm({ ...eventForm, emailLocale: e.target.value })}
+              placeholder="de"
+            />
+          </label>
+          <label className="field full-row">
+            <span>HTML (E-Mail-Einladung, optional)</span>
+            <textarea
+              value={eventForm.invitationEmailHtml}
+              onChange={(e) => setEventForm({ ...eventForm, invitationEmailHtml: e.target.value })}
+              rows={4}
+            />
+          </label>
           <label className="field full-row">
             <span>Text (E-Mail-Einladung)</span>
             <textarea
@@ -812,10 +3084,12 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
               rows={4}
             />
             <div className="muted" style={{ fontSize: '0.85rem' }}>
-              Platzhalter: {{'{{'}}eventName{{'}}'}}, {{'{{'}}eventDescription{{'}}'}}, {{'{{'}}eventStart{{'}}'}},
-              {{'{{'}}eventEnd{{'}}'}}, {{'{{'}}inviteLink{{'}}'}}. Der Link-Platzhalter sollte enthalten sein.
+              Platzhalter: {'{{eventName}}'}, {'{{eventDescription}}'}, {'{{eventStart}}'},{' '}
+              {'{{eventEnd}}'}, {'{{inviteLink}}'}, {'{{recipientName}}'}, {'{{supportEmail}}'},{' '}
+              {'{{impressumUrl}}'}, {'{{privacyUrl}}'}. Der Link-Platzhalter sollte enthalten sein. Ohne
+              Text wird die Textfassung aus dem HTML erzeugt, ohne HTML umgekehrt.
             </div>
-            <div style={{ marginTop: '0.5rem' }}>
+            <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem' }}>
               <button
                 type="button"
                 className="secondary"
@@ -823,14 +3097,147 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                   setEventForm({
                     ...eventForm,
                     invitationEmailSubject: defaultInvitationSubject,
-                    invitationEmailBody: defaultInvitationBody
+                    invitationEmailBody: defaultInvitationBody,
+                    invitationEmailHtml: ''
                   })
                 }
               >
                 Standardvorlage verwenden
               </button>
+              {editingEventId && (
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() =>
+                    void previewEmail(
+                      {
+                        subject: eventForm.invitationEmailSubject,
+                        htmlBody: eventForm.invitationEmailHtml,
+                        textBody: eventForm.invitationEmailBody
+                      },
+                      eventForm.emailLocale
+                    )
+                  }
+                >
+                  Vorschau
+                </button>
+              )}
             </div>
           </label>
+          <div className="field full-row">
+            <span>Sprachvarianten</span>
+            <p className="muted" style={{ fontSize: '0.85rem' }}>
+              Einladungen mit passender Sprache (z. B. „en“ oder „de-at“) erhalten die jeweilige Variante, sonst die
+              Vorlage oben.
+            </p>
+            {eventForm.emailTemplates.map((template, index) => (
+              <div key={index} className="invitation-block">
+                <div className="grid">
+                  <label className="field">
+                    <span>Sprache</span>
+                    <input
+                      value={template.locale}
+                      onChange={(e) => updateEmailTemplate(index, { locale: e.target.value })}
+                      placeholder="en"
+                      required
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Betreff</span>
+                    <input
+                      value={template.subject}
+                      onChange={(e) => updateEmailTemplate(index, { subject: e.target.value })}
+                      required
+                    />
+                  </label>
+                  <label className="field full-row">
+                    <span>HTML</span>
+                    <textarea
+                      value={template.htmlBody}
+                      onChange={(e) => updateEmailTemplate(index, { htmlBody: e.target.value })}
+                      rows={4}
+                    />
+                  </label>
+                  <label className="field full-row">
+                    <span>Text (optional)</span>
+                    <textarea
+                      value={template.textBody}
+                      onChange={(e) => updateEmailTemplate(index, { textBody: e.target.value })}
+                      rows={3}
+                    />
+                  </label>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  {editingEventId && (
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => void previewEmail(template, template.locale)}
+                    >
+                      Vorschau
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() =>
+                      setEventForm({
+                        ...eventForm,
+                        emailTemplates: eventForm.emailTemplates.filter((_, position) => position !== index)
+                      })
+                    }
+                  >
+                    Entfernen
+                  </button>
+                </div>
+              </div>
+            ))}
+            <div>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() =>
+                  setEventForm({
+                    ...eventForm,
+                    emailTemplates: [
+                      ...eventForm.emailTemplates,
+                      { locale: '', subject: defaultInvitationSubject, htmlBody: '', textBody: '' }
+                    ]
+                  })
+                }
+              >
+                Sprachvariante hinzufügen
+              </button>
+            </div>
+            {!editingEventId && (
+              <p className="muted" style={{ fontSize: '0.85rem' }}>
+                Die Vorschau ist nach dem ersten Speichern verfügbar.
+              </p>
+            )}
+          </div>
+          {emailPreview && (
+            <div className="field full-row">
+              <span>
+                Vorschau ({emailPreview.locale}){emailPreview.from ? ` · Von: ${emailPreview.from}` : ''}
+              </span>
+              <strong>{emailPreview.subject}</strong>
+              <iframe
+                title="E-Mail-Vorschau"
+                sandbox=""
+                srcDoc={emailPreview.html}
+                style={{ width: '100%', minHeight: '240px', border: '1px solid #ddd', background: '#fff' }}
+              />
+              <details>
+                <summary className="muted">Textfassung</summary>
+                <pre style={{ whiteSpace: 'pre-wrap' }}>{emailPreview.text}</pre>
+              </details>
+              <div>
+                <button type="button" className="secondary" onClick={() => setEmailPreview(null)}>
+                  Vorschau schließen
+                </button>
+              </div>
+            </div>
+          )}
           <div className="field full-row" style={{ display: 'flex', gap: '0.5rem' }}>
             <button type="submit" className="primary">
               Speichern
@@ -843,6 +3250,7 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
           </div>
         </form>
       </section>
+      )}
 
       <section className="card">
         <h2>Events</h2>
@@ -855,6 +3263,7 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                   <div className="event-title-row">
                     <strong>{event.name}</strong>
                     {event.archived && <span className="chip muted">Archiviert</span>}
+                    {event.accessMode === 'INVITE_ONLY' && <span className="chip muted">Nur mit Einladung</span>}
                   </div>
                   <p className="muted">
                     {new Date(event.startsAt).toLocaleString()} → {new Date(event.endsAt).toLocaleString()}
@@ -866,18 +3275,27 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                 </div>
                 <div className="event-actions">
                   <span className="cache-summary">Caches: {event.caches?.length ?? 0}</span>
-                  <button className="secondary" onClick={() => editEvent(event)}>
-                    Bearbeiten
-                  </button>
-                  <button className="secondary" onClick={() => archiveEvent(event.id)}>
-                    Archivieren
-                  </button>
-                  <button className="secondary" onClick={() => exportEventData(event.id)}>
-                    Exportieren
-                  </button>
-                  <button className="secondary" onClick={() => deleteEvent(event.id)}>
-                    Löschen
-                  </button>
+                  {canManage && (
+                    <>
+                      <button className="secondary" onClick={() => editEvent(event)}>
+                        Bearbeiten
+                      </button>
+                      <button className="secondary" onClick={() => archiveEvent(event.id)}>
+                        Archivieren
+                      </button>
+                      <button className="secondary" onClick={() => exportEventData(event.id)}>
+                        Exportieren
+                      </button>
+                      <button className="secondary" onClick={() => deleteEvent(event.id)}>
+                        Löschen
+                      </button>
+                    </>
+                  )}
+                  {isOwner && (
+                    <button className="secondary" onClick={() => void loadEventAccess(event.id)}>
+                      Zugriff
+                    </button>
+                  )}
                   <button className="secondary" onClick={() => void loadDashboard(event.id)}>
                     Live-Status
                   </button>
@@ -889,8 +3307,8 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                   <div className="status-header">
                     <h4>Live-Status</h4>
                     <span className="muted">
-                      Fortschritt: {dashboards[event.id].completionPercent}% · Aktive Spieler:{' '}
-                      {dashboards[event.id].activePlayerCount}
+                      Fortschritt: {dashboards[event.id].completionPercent}% · Aktive Spieler (letzte{' '}
+                      {dashboards[event.id].activePlayerWindowMinutes} Min.): {dashboards[event.id].activePlayerCount}
                     </span>
                   </div>
                   <div className="progress" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={dashboards[event.id].completionPercent}>
@@ -912,6 +3330,10 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                       <span className="muted">Spieler</span>
                       <strong>{dashboards[event.id].playerCount}</strong>
                     </div>
+                    <div className="metric">
+                      <span className="muted">Vergebene Punkte</span>
+                      <strong>{dashboards[event.id].totalPointsAwarded}</strong>
+                    </div>
                   </div>
                   <div className="cache-list" aria-label="Cache Status">
                     {dashboards[event.id].caches.map((cache) => (
@@ -922,15 +3344,134 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                             {cache.latitude}, {cache.longitude}
                           </p>
                         </div>
-                        <div className="muted">
-                          {cache.found ? 'Gefunden' : 'Offen'}{' '}
-                          {cache.foundAt ? `seit ${new Date(cache.foundAt).toLocaleString()}` : ''}
+                        <div className="muted">
+                          {cache.found ? 'Gefunden' : 'Offen'}{' '}
+                          {cache.foundAt ? `seit ${new Date(cache.foundAt).toLocaleString()}` : ''}
+                          <br />
+                          {cache.points} × {cache.difficulty} Punkte · {cache.finderCount} Finder ·{' '}
+                          {cache.pointsAwarded} vergeben
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {dashboards[event.id].teams && (
+                    <>
+                      <h4>Fortschritt pro Team</h4>
+                      {dashboards[event.id].teams!.length === 0 && <p className="muted">Noch keine Teams.</p>}
+                      {dashboards[event.id].teams!.map((team) => (
+                        <div key={team.teamId} style={{ marginBottom: '0.5rem' }}>
+                          <div className="status-header">
+                            <span>
+                              {team.name} <span className="muted">({team.memberCount} Mitglieder)</span>
+                            </span>
+                            <span className="muted">
+                              {team.foundCount}/{dashboards[event.id].caches.length} · {team.points} Punkte
+                            </span>
+                          </div>
+                          <div
+                            className="progress"
+                            role="progressbar"
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={team.completionPercent}
+                          >
+                            <div className="progress-bar" style={{ width: `${team.completionPercent}%` }} />
+                          </div>
+                        </div>
+                      ))}
+                    </>
+                  )}
+                  {leaderboards[event.id] && (
+                    <>
+                      <div className="status-header">
+                        <h4>Bestenliste</h4>
+                        <span className="muted">
+                          {leaderboards[event.id].enabled ? 'Öffentlich sichtbar' : 'Ausgeblendet'}
+                          {leaderboards[event.id].frozenAt &&
+                            ` · eingefroren seit ${new Date(leaderboards[event.id].frozenAt!).toLocaleString()}`}
+                        </span>
+                      </div>
+                      {canManage && (
+                        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                          <button
+                            className="secondary"
+                            onClick={() =>
+                              void updateLeaderboardSettings(event.id, { frozen: !leaderboards[event.id].frozenAt })
+                            }
+                          >
+                            {leaderboards[event.id].frozenAt ? 'Wieder aktualisieren' : 'Einfrieren'}
+                          </button>
+                          <button
+                            className="secondary"
+                            onClick={() =>
+                              void updateLeaderboardSettings(event.id, { enabled: !leaderboards[event.id].enabled })
+                            }
+                          >
+                            {leaderboards[event.id].enabled ? 'Ausblenden' : 'Einblenden'}
+                          </button>
+                          <button className="secondary" onClick={() => void loadAdminLeaderboard(event.id)}>
+                            Neu laden
+                          </button>
+                        </div>
+                      )}
+                      {leaderboards[event.id].teams && leaderboards[event.id].teams!.length > 0 && (
+                        <TeamStandingsTable teams={leaderboards[event.id].teams!} />
+                      )}
+                      {leaderboards[event.id].entries.length === 0 ? (
+                        <p className="muted">Noch keine Funde.</p>
+                      ) : (
+                        <LeaderboardTable entries={leaderboards[event.id].entries} />
+                      )}
+                    </>
+                  )}
+                  <h4>Letzte Funde</h4>
+                  {dashboards[event.id].recentFinds.length === 0 && <p className="muted">Noch keine Funde.</p>}
+                  <div className="cache-list" aria-label="Letzte Funde">
+                    {dashboards[event.id].recentFinds.map((find) => (
+                      <div key={find.id} className="cache-row">
+                        <div>
+                          <strong>{find.nickname || 'Anonym'}</strong> hat „{find.clue}“ gefunden
+                          {find.firstFind && <span className="text-success"> · Erstfund</span>}
                         </div>
+                        <div className="muted">{new Date(find.foundAt).toLocaleTimeString()}</div>
                       </div>
                     ))}
                   </div>
                 </div>
               )}
+              {isOwner && eventAccess[event.id] && (
+                <div className="invitation-block">
+                  <h4>Zugriff für Organisatoren</h4>
+                  {admins.filter((admin) => admin.role === 'ORGANIZER').length === 0 && (
+                    <p className="muted">Keine Organisatoren angelegt.</p>
+                  )}
+                  {admins
+                    .filter((admin) => admin.role === 'ORGANIZER')
+                    .map((admin) => (
+                      <label key={admin.id} style={{ display: 'block' }}>
+                        <input
+                          type="checkbox"
+                          checked={
+                            event.createdByAdminId === admin.id ||
+                            eventAccess[event.id].includes(admin.id)
+                          }
+                          disabled={event.createdByAdminId === admin.id}
+                          onChange={(e) =>
+                            void saveEventAccess(
+                              event.id,
+                              e.target.checked
+                                ? [...eventAccess[event.id], admin.id]
+                                : eventAccess[event.id].filter((id) => id !== admin.id)
+                            )
+                          }
+                        />{' '}
+                        {admin.name || admin.email}
+                        {event.createdByAdminId === admin.id ? ' (Ersteller)' : ''}
+                      </label>
+                    ))}
+                </div>
+              )}
+              {canManage && (
               <div className="invitation-block">
                 <h4>Einladungen</h4>
                 <div className="field" style={{ alignItems: 'flex-start', gap: '0.5rem' }}>
@@ -969,10 +3510,278 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                       required
                     />
                   )}
-                  <button className="secondary" onClick={() => void createInvitation(event.id)}>
-                    Einladung erstellen
-                  </button>
+                  <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                    <button className="secondary" onClick={() => void createInvitation(event.id)}>
+                      Einladung erstellen
+                    </button>
+                    <button
+                      className="secondary"
+                      onClick={() =>
+                        void downloadAdminFile(
+                          `/api/admin/events/${event.id}/print/invitations.pdf`,
+                          `einladungen-${event.id}.pdf`
+                        )
+                      }
+                    >
+                      Einladungs-Handout (PDF)
+                    </button>
+                  </div>
                 </div>
+                <details style={{ marginTop: '0.5rem' }}>
+                  <summary>Sammeleinladung (CSV)</summary>
+                  <div className="field" style={{ alignItems: 'flex-start', gap: '0.5rem' }}>
+                    <span className="muted">
+                      Eine Zeile pro Empfänger: <code>email,name,locale</code> (Kopfzeile optional, Trennzeichen
+                      Komma oder Semikolon). Bereits eingeladene Adressen werden übersprungen.
+                    </span>
+                    <select
+                      value={bulkDrafts[event.id]?.deliveryMethod || 'LINK'}
+                      onChange={(e) =>
+                        updateBulkDraft(event.id, { deliveryMethod: e.target.value as 'LINK' | 'EMAIL' })
+                      }
+                    >
+                      <option value="LINK">Nur Links erzeugen</option>
+                      <option value="EMAIL" disabled={!emailSendingEnabled}>
+                        Per E-Mail versenden
+                      </option>
+                    </select>
+                    <textarea
+                      rows={5}
+                      placeholder={'email,name,locale\nanna@example.com,Anna,de'}
+                      value={bulkDrafts[event.id]?.csv || ''}
+                      onChange={(e) => updateBulkDraft(event.id, { csv: e.target.value })}
+                    />
+                    <input
+                      type="file"
+                      accept=".csv,text/csv,text/plain"
+                      onChange={(e) => void loadBulkFile(event.id, e.target.files?.[0])}
+                    />
+                    <button className="secondary" onClick={() => void createBulkInvitations(event.id)}>
+                      Einladungen importieren
+                    </button>
+                    {bulkResults[event.id] && (
+                      <div className="cache-list">
+                        {bulkResults[event.id].map((result) => (
+                          <div key={result.row} className="cache-row">
+                            <span>
+                              {result.row}. {result.email || '–'}
+                              {result.name ? ` (${result.name})` : ''}
+                            </span>
+                            <span className={result.status === 'created' ? 'text-success' : 'muted'}>
+                              {bulkStatusLabels[result.status]}
+                              {result.emailStatus ? ` · E-Mail: ${result.emailStatus}` : ''}
+                              {result.message ? ` · ${result.message}` : ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </details>
+                <details
+                  style={{ marginTop: '0.5rem' }}
+                  onToggle={(e) => {
+                    if ((e.target as HTMLDetailsElement).open) void loadEmailJobs(event.id);
+                  }}
+                >
+                  <summary>Geplante E-Mails</summary>
+                  {(() => {
+                    const draft = emailJobDrafts[event.id] ?? emptyEmailJobDraft;
+                    const jobs = emailJobs[event.id] ?? [];
+                    const upcoming = jobs.filter((job) => job.status === 'SCHEDULED' || job.status === 'RUNNING');
+                    const finished = jobs.filter((job) => job.status === 'COMPLETED' || job.status === 'CANCELLED');
+                    const renderJob = (job: EmailJob) => (
+                      <div key={job.id} className="cache-row" style={{ alignItems: 'flex-start' }}>
+                        <div style={{ display: 'flex', flexDirection: 'column' }}>
+                          <strong>{emailJobKindLabels[job.kind]}</strong>
+                          <span className="muted">
+                            {emailJobStatusLabels[job.status]} · {new Date(job.scheduledAt).toLocaleString()}
+                          </span>
+                          {job.subject && <span className="muted">Betreff: {job.subject}</span>}
+                          {job.errorMessage && <span className="muted">{job.errorMessage}</span>}
+                        </div>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                          <span className="muted">
+                            {job.status === 'SCHEDULED'
+                              ? `${job.pendingCount ?? 0} Empfänger`
+                              : `${job.sentCount} versendet, ${job.skippedCount} übersprungen${
+                                  job.pendingCount ? `, ${job.pendingCount} ausstehend` : ''
+                                }`}
+                          </span>
+                          {job.completedAt && (
+                            <span className="muted">Abgeschlossen: {new Date(job.completedAt).toLocaleString()}</span>
+                          )}
+                          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                            {job.status === 'SCHEDULED' && (
+                              <button className="secondary" onClick={() => void sendEmailJobNow(event.id, job.id)}>
+                                Jetzt senden
+                              </button>
+                            )}
+                            {(job.status === 'SCHEDULED' || job.status === 'RUNNING') && (
+                              <button className="secondary" onClick={() => void cancelEmailJob(event.id, job.id)}>
+                                Abbrechen
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                    return (
+                      <div className="field" style={{ alignItems: 'flex-start', gap: '0.5rem' }}>
+                        <span className="muted">
+                          Erinnerungen gehen an alle, die noch nicht beigetreten sind; der Hinweis vor dem Start an alle
+                          per E-Mail Eingeladenen; Ergebnisse an alle Teilnehmenden. Abgemeldete und unzustellbare
+                          Adressen werden übersprungen, das Versandlimit gilt auch hier.
+                        </span>
+                        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                          <select
+                            value={draft.kind}
+                            onChange={(e) =>
+                              updateEmailJobDraft(event.id, { kind: e.target.value as EmailJob['kind'] })
+                            }
+                          >
+                            {(Object.keys(emailJobKindLabels) as EmailJob['kind'][]).map((kind) => (
+                              <option key={kind} value={kind}>
+                                {emailJobKindLabels[kind]}
+                              </option>
+                            ))}
+                          </select>
+                          <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                            <input
+                              type="number"
+                              min={0}
+                              step={0.25}
+                              style={{ width: '6rem' }}
+                              value={draft.offsetHours}
+                              onChange={(e) => updateEmailJobDraft(event.id, { offsetHours: e.target.value })}
+                            />
+                            <span className="muted">
+                              {draft.kind === 'RESULTS' ? 'Std. nach Eventende' : 'Std. vor Eventstart'}
+                            </span>
+                          </label>
+                        </div>
+                        <details>
+                          <summary className="muted">Eigene Vorlage (optional)</summary>
+                          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                            <input
+                              placeholder="Betreff"
+                              value={draft.subject}
+                              onChange={(e) => updateEmailJobDraft(event.id, { subject: e.target.value })}
+                            />
+                            <textarea
+                              rows={4}
+                              placeholder="HTML"
+                              value={draft.htmlBody}
+                              onChange={(e) => updateEmailJobDraft(event.id, { htmlBody: e.target.value })}
+                            />
+                            <textarea
+                              rows={3}
+                              placeholder="Text"
+                              value={draft.textBody}
+                              onChange={(e) => updateEmailJobDraft(event.id, { textBody: e.target.value })}
+                            />
+                            <span className="muted">
+                              Platzhalter wie bei Einladungen; für Ergebnisse zusätzlich {'{{foundCount}}'} und{' '}
+                              {'{{cacheCount}}'}.
+                            </span>
+                          </div>
+                        </details>
+                        <button className="secondary" onClick={() => void createEmailJob(event.id)}>
+                          Einplanen
+                        </button>
+                        <strong>Anstehend</strong>
+                        {upcoming.length === 0 && <p className="muted">Keine geplanten E-Mails.</p>}
+                        {upcoming.length > 0 && <div className="cache-list">{upcoming.map(renderJob)}</div>}
+                        <strong>Versendet / abgebrochen</strong>
+                        {finished.length === 0 && <p className="muted">Noch nichts versendet.</p>}
+                        {finished.length > 0 && <div className="cache-list">{finished.map(renderJob)}</div>}
+                      </div>
+                    );
+                  })()}
+                </details>
+                {event.teamsEnabled && (
+                  <details
+                    style={{ marginTop: '0.5rem' }}
+                    onToggle={(e) => {
+                      if ((e.target as HTMLDetailsElement).open) void loadTeams(event.id);
+                    }}
+                  >
+                    <summary>Teams</summary>
+                    <div className="field" style={{ alignItems: 'flex-start', gap: '0.5rem' }}>
+                      <span className="muted">
+                        Spieler treten mit dem Team-Code auf der Eventseite bei oder werden hier zugeordnet.
+                      </span>
+                      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                        <input
+                          placeholder="Teamname"
+                          value={teamNameDrafts[event.id] ?? ''}
+                          onChange={(e) => setTeamNameDrafts((prev) => ({ ...prev, [event.id]: e.target.value }))}
+                        />
+                        <button className="secondary" onClick={() => void createTeam(event.id)}>
+                          Team anlegen
+                        </button>
+                      </div>
+                      {(eventTeams[event.id]?.teams ?? []).length === 0 && (
+                        <p className="muted">Noch keine Teams.</p>
+                      )}
+                      <div className="cache-list">
+                        {(eventTeams[event.id]?.teams ?? []).map((team) => (
+                          <div key={team.id} className="cache-row" style={{ alignItems: 'flex-start' }}>
+                            <div style={{ display: 'flex', flexDirection: 'column' }}>
+                              <strong>{team.name}</strong>
+                              <span className="muted">Code: {team.joinCode}</span>
+                              {team.members.length === 0 && <span className="muted">Keine Mitglieder</span>}
+                              {team.members.map((member) => (
+                                <span key={member.id}>
+                                  {member.displayName}{' '}
+                                  <button
+                                    className="secondary"
+                                    onClick={() => void assignPlayerTeam(event.id, member.id, null)}
+                                  >
+                                    Entfernen
+                                  </button>
+                                </span>
+                              ))}
+                            </div>
+                            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                              <button className="secondary" onClick={() => void regenerateTeamCode(event.id, team.id)}>
+                                Neuer Code
+                              </button>
+                              <button className="secondary" onClick={() => void deleteTeam(event.id, team.id)}>
+                                Löschen
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      {(eventTeams[event.id]?.unassignedPlayers ?? []).length > 0 && (
+                        <>
+                          <strong>Spieler ohne Team</strong>
+                          <div className="cache-list">
+                            {eventTeams[event.id].unassignedPlayers.map((player) => (
+                              <div key={player.id} className="cache-row">
+                                <span>{player.displayName}</span>
+                                <select
+                                  value=""
+                                  onChange={(e) =>
+                                    e.target.value && void assignPlayerTeam(event.id, player.id, e.target.value)
+                                  }
+                                >
+                                  <option value="">Team zuweisen</option>
+                                  {eventTeams[event.id].teams.map((team) => (
+                                    <option key={team.id} value={team.id}>
+                                      {team.name}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </details>
+                )}
                 <div className="cache-list" style={{ marginTop: '0.5rem' }}>
                   {event.invitations.length === 0 && <p className="muted">Keine Einladungen.</p>}
                   {event.invitations.map((invitation) => {
@@ -982,7 +3791,12 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                       <div key={invitation.id} className="cache-row" style={{ alignItems: 'flex-start' }}>
                         <div style={{ display: 'flex', flexDirection: 'column' }}>
                           <span>{invitation.deliveryMethod === 'EMAIL' ? 'E-Mail' : 'Link'}</span>
-                          {invitation.email && <span className="muted">{invitation.email}</span>}
+                          {invitation.email && (
+                            <span className="muted">
+                              {invitation.name ? `${invitation.name} · ` : ''}
+                              {invitation.email}
+                            </span>
+                          )}
                           <span className="muted">{new Date(invitation.createdAt).toLocaleString()}</span>
                           <span className="muted">
                             Status: {invitation.isActive ? 'aktiv' : 'deaktiviert'}
@@ -990,13 +3804,24 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                               ? ` seit ${new Date(invitation.deactivatedAt).toLocaleString()}`
                               : ''}
                           </span>
+                          {invitation.bouncedAt && (
+                            <span className="text-danger">
+                              Unzustellbar seit {new Date(invitation.bouncedAt).toLocaleString()}
+                              {invitation.bounceReason ? ` – ${invitation.bounceReason}` : ''}
+                            </span>
+                          )}
+                          {invitation.unsubscribedAt && (
+                            <span className="muted">
+                              Abgemeldet: {new Date(invitation.unsubscribedAt).toLocaleString()}
+                            </span>
+                          )}
                         </div>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
                           <span className="muted" style={{ wordBreak: 'break-all' }}>
                             {link}
                           </span>
                           {invitation.usedAt && (
-                            <span className="muted">Benutzt: {new Date(invitation.usedAt).toLocaleString()}</span>
+                            <span className="muted">Eingelöst: {new Date(invitation.usedAt).toLocaleString()}</span>
                           )}
                           <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
                             <button
@@ -1005,6 +3830,20 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                             >
                               {invitation.isActive ? 'Deaktivieren' : 'Aktivieren'}
                             </button>
+                            {(['png', 'svg'] as const).map((format) => (
+                              <button
+                                key={format}
+                                className="secondary"
+                                onClick={() =>
+                                  void downloadAdminFile(
+                                    `/api/admin/events/${event.id}/invitations/${invitation.id}/qr.${format}`,
+                                    `einladung-${invitation.id}.${format}`
+                                  )
+                                }
+                              >
+                                QR ({format.toUpperCase()})
+                              </button>
+                            ))}
                           </div>
                         </div>
                       </div>
@@ -1032,6 +3871,34 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
                             <span>{log.subject}</span>
                             {log.errorMessage && <span className="muted">{log.errorMessage}</span>}
+                            {log.status === 'FAILED' && log.nextAttemptAt && (
+                              <span className="muted">
+                                Nächster Versuch: {new Date(log.nextAttemptAt).toLocaleString()}
+                              </span>
+                            )}
+                            {log.attempts.length > 0 && (
+                              <details>
+                                <summary className="muted">Versuche ({log.attempts.length})</summary>
+                                <ul style={{ margin: '0.25rem 0', paddingLeft: '1.25rem' }}>
+                                  {log.attempts.map((attempt) => (
+                                    <li key={attempt.id} className="muted">
+                                      {new Date(attempt.attemptedAt).toLocaleString()} ·{' '}
+                                      {attempt.succeeded ? 'Erfolgreich' : attempt.errorMessage || 'Fehlgeschlagen'} (
+                                      {attempt.durationMs} ms)
+                                    </li>
+                                  ))}
+                                </ul>
+                              </details>
+                            )}
+                            {log.invitationId && RETRYABLE_EMAIL_STATUSES.includes(log.status) && (
+                              <button
+                                className="secondary"
+                                style={{ alignSelf: 'flex-start' }}
+                                onClick={() => void retryEmail(event.id, log.id)}
+                              >
+                                Erneut senden
+                              </button>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -1039,11 +3906,13 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                   )}
                 </div>
               </div>
+              )}
             </div>
           ))}
         </div>
       </section>
 
+      {canManage && (
       <section className="card">
         <h2>Caches</h2>
         <p className="muted">Caches sind immer einem Event zugeordnet.</p>
@@ -1059,7 +3928,10 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
             <span>Event</span>
             <select
               value={targetEventId ?? ''}
-              onChange={(e) => setTargetEventId(e.target.value || null)}
+              onChange={(e) => {
+                setTargetEventId(e.target.value || null);
+                setCacheDraft({ ...cacheDraft, prerequisiteIds: [] });
+              }}
             >
               <option value="">Event auswählen</option>
               {events.map((event) => (
@@ -1101,19 +3973,178 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
               onChange={(e) => setCacheDraft({ ...cacheDraft, solution: e.target.value })}
             />
           </label>
+          <label className="field">
+            <span>Punkte (leer = Basispunkte des Events)</span>
+            <input
+              type="number"
+              min={0}
+              value={cacheDraft.points ?? ''}
+              onChange={(e) =>
+                setCacheDraft({ ...cacheDraft, points: e.target.value === '' ? null : Number(e.target.value) })
+              }
+            />
+          </label>
+          <label className="field">
+            <span>Schwierigkeit (Multiplikator)</span>
+            <input
+              type="number"
+              min={0.1}
+              max={10}
+              step={0.1}
+              value={cacheDraft.difficulty}
+              onChange={(e) => setCacheDraft({ ...cacheDraft, difficulty: Number(e.target.value) })}
+            />
+          </label>
+          <label className="field">
+            <span>Stufe (leer = keine Kette)</span>
+            <input
+              type="number"
+              min={1}
+              value={cacheDraft.stage ?? ''}
+              onChange={(e) =>
+                setCacheDraft({ ...cacheDraft, stage: e.target.value === '' ? null : Number(e.target.value) })
+              }
+            />
+          </label>
+          <label className="field">
+            <span>Finale (Koordinaten erst nach Freischaltung sichtbar)</span>
+            <input
+              type="checkbox"
+              checked={cacheDraft.isFinal}
+              onChange={(e) => setCacheDraft({ ...cacheDraft, isFinal: e.target.checked })}
+            />
+          </label>
+          <label className="field">
+            <span>Freischaltung</span>
+            <select
+              value={cacheDraft.unlockMode}
+              onChange={(e) => setCacheDraft({ ...cacheDraft, unlockMode: e.target.value as CacheUnlockMode })}
+            >
+              {(Object.keys(cacheUnlockModeLabels) as CacheUnlockMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {cacheUnlockModeLabels[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>Fund-Nachweis</span>
+            <select
+              value={cacheDraft.verificationMode}
+              onChange={(e) =>
+                setCacheDraft({ ...cacheDraft, verificationMode: e.target.value as CacheVerificationMode })
+              }
+            >
+              {(Object.keys(cacheVerificationModeLabels) as CacheVerificationMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {cacheVerificationModeLabels[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {(cacheDraft.verificationMode === 'CODE' || cacheDraft.verificationMode === 'ANSWER') && (
+            <label className="field">
+              <span>
+                {cacheDraft.verificationMode === 'CODE' ? 'Gültige Codes' : 'Richtige Antworten'} (eine pro Zeile,
+                Groß-/Kleinschreibung und Leerzeichen egal)
+              </span>
+              <textarea
+                rows={3}
+                value={cacheDraft.verificationAnswers.join('\n')}
+                onChange={(e) => setCacheDraft({ ...cacheDraft, verificationAnswers: splitLines(e.target.value) })}
+              />
+            </label>
+          )}
+          {cacheDraft.verificationMode === 'ANSWER' && (
+            <label className="field">
+              <span>Antwortoptionen für Multiple Choice (eine pro Zeile, leer = Freitext)</span>
+              <textarea
+                rows={3}
+                value={cacheDraft.answerOptions.join('\n')}
+                onChange={(e) => setCacheDraft({ ...cacheDraft, answerOptions: splitLines(e.target.value) })}
+              />
+            </label>
+          )}
+          {cacheDraft.verificationMode === 'QR' && (
+            <p className="muted">Der QR-Code-Link wird nach dem Speichern in der Cache-Liste angezeigt.</p>
+          )}
+          <div className="field full-row">
+            <span>Voraussetzungen</span>
+            {prerequisiteOptions.length === 0 && (
+              <span className="muted">Event auswählen, um andere Caches als Voraussetzung zu wählen.</span>
+            )}
+            {prerequisiteOptions.map((cache) => (
+              <label key={cache.id} style={{ display: 'flex', gap: '0.35rem', alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={cacheDraft.prerequisiteIds.includes(cache.id)}
+                  onChange={(e) =>
+                    setCacheDraft({
+                      ...cacheDraft,
+                      prerequisiteIds: e.target.checked
+                        ? [...cacheDraft.prerequisiteIds, cache.id]
+                        : cacheDraft.prerequisiteIds.filter((id) => id !== cache.id)
+                    })
+                  }
+                />
+                {cache.stage !== null && `Stufe ${cache.stage}: `}
+                {cache.clue || `${cache.latitude}, ${cache.longitude}`}
+              </label>
+            ))}
+          </div>
           <button type="submit" className="primary">
             Cache speichern
           </button>
         </form>
 
+        {mapEvent ? (
+          <div style={{ marginTop: '0.75rem' }}>
+            <p className="muted">
+              Klick in die Karte setzt die Position des Cache-Formulars (rot); vorhandene Caches (orange, grau =
+              bereits gefunden) lassen sich verschieben. Kreise zeigen Sichtbarkeits- und Fundradius, Quadrate
+              Start- (türkis) und Zielpunkt (schwarz), die gestrichelte Fläche das Spielfeld.
+            </p>
+            <EventMap
+              markers={adminMapMarkers}
+              circles={adminMapCircles}
+              playArea={mapEvent.playArea}
+              fitKey={`${mapEvent.id}:${mapEvent.caches.length}`}
+              onMapClick={(latitude, longitude) => setCacheDraft((draft) => ({ ...draft, latitude, longitude }))}
+              onMarkerDrag={(markerId, latitude, longitude) => {
+                if (markerId === 'draft') {
+                  setCacheDraft((draft) => ({ ...draft, latitude, longitude }));
+                } else {
+                  void moveCache(mapEvent.id, markerId, latitude, longitude);
+                }
+              }}
+            />
+          </div>
+        ) : (
+          <p className="muted">Event auswählen, um die Karte zu sehen.</p>
+        )}
+
         <div className="cache-list full-row">
           {events.map((event) => (
             <div key={event.id} className="card" style={{ padding: '0.75rem', marginBottom: '0.5rem' }}>
               <div className="field-header">
                 <strong>{event.name}</strong>
-                <button className="secondary" onClick={() => setTargetEventId(event.id)}>
-                  Cache zuweisen
-                </button>
+                <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                  <button className="secondary" onClick={() => setTargetEventId(event.id)}>
+                    Cache zuweisen
+                  </button>
+                  <button
+                    className="secondary"
+                    disabled={event.caches.length === 0}
+                    onClick={() =>
+                      void downloadAdminFile(
+                        `/api/admin/events/${event.id}/print/cache-tags.pdf`,
+                        `cache-etiketten-${event.id}.pdf`
+                      )
+                    }
+                  >
+                    Cache-Etiketten (PDF)
+                  </button>
+                </div>
               </div>
               {event.caches.length === 0 && <p className="muted">Keine Caches</p>}
               {event.caches.map((cache) => (
@@ -1122,6 +4153,31 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                   <span>Lon: {cache.longitude}</span>
                   <span>Hinweis: {cache.clue}</span>
                   <span>Lösung: {cache.solution}</span>
+                  <span>
+                    Punkte: {cache.points ?? event.basePoints ?? defaultScoringRules.basePoints} ×{' '}
+                    {cache.difficulty}
+                  </span>
+                  {(cache.stage !== null || cache.isFinal) && (
+                    <span>
+                      {cache.stage !== null && `Stufe ${cache.stage}`}
+                      {cache.stage !== null && cache.isFinal && ' · '}
+                      {cache.isFinal && 'Finale'}
+                    </span>
+                  )}
+                  <span>Nachweis: {cacheVerificationModeLabels[cache.verificationMode]}</span>
+                  {cache.verificationMode === 'QR' && cache.qrToken && (
+                    <span className="muted" style={{ wordBreak: 'break-all' }}>
+                      {cacheVerificationUrl(event.id, cache)}
+                    </span>
+                  )}
+                  {cache.prerequisiteIds.length > 0 && (
+                    <span>
+                      {cache.unlockMode === 'ANY' ? 'Eine von' : 'Benötigt'}:{' '}
+                      {cache.prerequisiteIds
+                        .map((id) => event.caches.find((other) => other.id === id)?.clue || id)
+                        .join(', ')}
+                    </span>
+                  )}
                   <button
                     className="secondary"
                     onClick={() => {
@@ -1131,12 +4187,42 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                         latitude: cache.latitude,
                         longitude: cache.longitude,
                         clue: cache.clue,
-                        solution: cache.solution
+                        solution: cache.solution,
+                        points: cache.points,
+                        difficulty: cache.difficulty,
+                        stage: cache.stage,
+                        isFinal: cache.isFinal,
+                        unlockMode: cache.unlockMode,
+                        prerequisiteIds: cache.prerequisiteIds,
+                        verificationMode: cache.verificationMode,
+                        verificationAnswers: cache.verificationAnswers,
+                        answerOptions: cache.answerOptions
                       });
                     }}
                   >
                     Bearbeiten
                   </button>
+                  {cache.verificationMode === 'QR' && (
+                    <>
+                      {(['png', 'svg'] as const).map((format) => (
+                        <button
+                          key={format}
+                          className="secondary"
+                          onClick={() =>
+                            void downloadAdminFile(
+                              `/api/admin/events/${event.id}/caches/${cache.id}/qr.${format}`,
+                              `cache-${cache.id}.${format}`
+                            )
+                          }
+                        >
+                          QR ({format.toUpperCase()})
+                        </button>
+                      ))}
+                      <button className="secondary" onClick={() => void regenerateCacheQrToken(event.id, cache.id)}>
+                        Neuer QR-Code
+                      </button>
+                    </>
+                  )}
                   <button className="secondary" onClick={() => deleteCache(event.id, cache.id)}>
                     Löschen
                   </button>
@@ -1146,9 +4232,100 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
           ))}
         </div>
       </section>
+      )}
         </>
       )}
 
+      {activeAdminTab === 'admins' && isOwner && (
+        <section className="card">
+          <h2>Admins</h2>
+          <div className="cache-list">
+            {admins.map((admin) => (
+              <div key={admin.id} className="cache-row">
+                <div style={{ display: 'flex', flexDirection: 'column' }}>
+                  <strong>{admin.name || admin.email}</strong>
+                  {admin.name && <span className="muted">{admin.email}</span>}
+                  <span className="muted">2FA: {admin.totpEnabled ? 'aktiv' : 'nicht eingerichtet'}</span>
+                </div>
+                <select
+                  value={admin.role}
+                  onChange={(e) => void updateAdminRole(admin.id, e.target.value as AdminRole)}
+                >
+                  {(Object.keys(adminRoleLabels) as AdminRole[]).map((role) => (
+                    <option key={role} value={role}>
+                      {adminRoleLabels[role]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="secondary"
+                  disabled={admin.id === currentAdmin?.id}
+                  onClick={() => void deleteAdmin(admin.id)}
+                >
+                  Löschen
+                </button>
+                {admin.totpEnabled && admin.id !== currentAdmin?.id && (
+                  <button className="secondary" onClick={() => void resetAdminTotp(admin.id)}>
+                    2FA zurücksetzen
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <h3>Admin einladen</h3>
+          <form onSubmit={inviteAdmin} className="grid">
+            <label className="field">
+              <span>E-Mail</span>
+              <input
+                type="email"
+                value={adminInviteDraft.email}
+                onChange={(e) => setAdminInviteDraft({ ...adminInviteDraft, email: e.target.value })}
+                required
+              />
+            </label>
+            <label className="field">
+              <span>Rolle</span>
+              <select
+                value={adminInviteDraft.role}
+                onChange={(e) =>
+                  setAdminInviteDraft({ ...adminInviteDraft, role: e.target.value as AdminRole })
+                }
+              >
+                {(Object.keys(adminRoleLabels) as AdminRole[]).map((role) => (
+                  <option key={role} value={role}>
+                    {adminRoleLabels[role]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="submit" className="primary">
+              Einladen
+            </button>
+          </form>
+
+          {adminInvites.length > 0 && (
+            <>
+              <h3>Offene Einladungen</h3>
+              <div className="cache-list">
+                {adminInvites.map((invite) => (
+                  <div key={invite.id} className="cache-row">
+                    <span>{invite.email}</span>
+                    <span className="muted">{adminRoleLabels[invite.role]}</span>
+                    <span className="muted">
+                      gültig bis {new Date(invite.expiresAt).toLocaleString()}
+                    </span>
+                    <button className="secondary" onClick={() => void revokeAdminInvite(invite.id)}>
+                      Zurückziehen
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </section>
+      )}
+
       {activeAdminTab === 'status' && (
         <section className="card">
           <h2>Systemstatus</h2>
@@ -1172,6 +4349,25 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
                   {systemStatus.emailSendingEnabled ? 'Aktiv' : 'Deaktiviert'}
                 </strong>
               </div>
+              <div className="metric">
+                <span className="muted">SMTP-Test</span>
+                <strong
+                  className={
+                    systemStatus.smtpTest ? (systemStatus.smtpTest.ok ? 'text-success' : 'text-danger') : undefined
+                  }
+                >
+                  {systemStatus.smtpTest
+                    ? systemStatus.smtpTest.ok
+                      ? 'Erfolgreich'
+                      : `Fehler (${systemStatus.smtpTest.failedStage ?? '?'}${
+                          systemStatus.smtpTest.errorCode ? `, ${systemStatus.smtpTest.errorCode}` : ''
+                        }${systemStatus.smtpTest.responseCode ? ` ${systemStatus.smtpTest.responseCode}` : ''})`
+                    : 'Nicht getestet'}
+                </strong>
+                {systemStatus.smtpTest && (
+                  <span className="muted">{new Date(systemStatus.smtpTest.testedAt).toLocaleString()}</span>
+                )}
+              </div>
               <div className="metric">
                 <span className="muted">Version</span>
                 <strong>{systemStatus.version}</strong>
@@ -1185,18 +4381,300 @@ const AdminApp = ({ navigate }: { navigate: (path: string) => void }) => {
           </button>
         </section>
       )}
+
+      {activeAdminTab === 'audit' && isOwner && (
+        <section className="card">
+          <h2>Audit-Log</h2>
+          <div className="grid">
+            <label className="field">
+              Bereich
+              <select
+                value={auditFilter.entityType}
+                onChange={(e) => setAuditFilter({ ...auditFilter, entityType: e.target.value })}
+              >
+                <option value="">Alle</option>
+                {Object.entries(auditEntityLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              Aktion
+              <input
+                value={auditFilter.action}
+                placeholder="z. B. event.updated"
+                onChange={(e) => setAuditFilter({ ...auditFilter, action: e.target.value })}
+              />
+            </label>
+            <label className="field">
+              Event
+              <select
+                value={auditFilter.eventId}
+                onChange={(e) => setAuditFilter({ ...auditFilter, eventId: e.target.value })}
+              >
+                <option value="">Alle</option>
+                {events.map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <button className="secondary" onClick={() => void loadAuditLog()}>
+            Filtern
+          </button>
+          {auditEntries.length === 0 && <p className="muted">Keine Einträge.</p>}
+          <div className="cache-list">
+            {auditEntries.map((entry) => (
+              <div key={entry.id} className="cache-row" style={{ alignItems: 'flex-start' }}>
+                <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+                  <strong>{entry.action}</strong>
+                  <span className="muted">
+                    {new Date(entry.createdAt).toLocaleString()} ·{' '}
+                    {entry.adminEmail ?? 'System/unbekannt'}
+                    {entry.ipAddress ? ` · IP: ${entry.ipAddress}` : ''}
+                  </span>
+                  <span className="muted">
+                    {auditEntityLabels[entry.entityType] ?? entry.entityType}
+                    {entry.entityId ? ` ${entry.entityId}` : ''}
+                  </span>
+                  {(entry.before != null || entry.after != null) && (
+                    <details>
+                      <summary>Änderungen</summary>
+                      <div className="grid">
+                        <div>
+                          <span className="muted">Vorher</span>
+                          <pre style={{ whiteSpace: 'pre-wrap', fontSize: '0.8rem' }}>
+                            {entry.before != null ? JSON.stringify(entry.before, null, 2) : '–'}
+                          </pre>
+                        </div>
+                        <div>
+                          <span className="muted">Nachher</span>
+                          <pre style={{ whiteSpace: 'pre-wrap', fontSize: '0.8rem' }}>
+                            {entry.after != null ? JSON.stringify(entry.after, null, 2) : '–'}
+                          </pre>
+                        </div>
+                      </div>
+                    </details>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          {auditEntries.length < auditTotal && (
+            <button className="secondary" onClick={() => void loadAuditLog(auditEntries.length)}>
+              Weitere laden ({auditEntries.length} von {auditTotal})
+            </button>
+          )}
+        </section>
+      )}
+
+      {activeAdminTab === 'sessions' && (
+        <section className="card">
+          <h2>Passwort ändern</h2>
+          <PasswordChangeForm
+            authHeaders={authHeaders}
+            onChanged={(newToken, idleExpiresAt) => {
+              handlePasswordChanged(newToken, idleExpiresAt);
+              void loadSessions();
+            }}
+          />
+        </section>
+      )}
+
+      {activeAdminTab === 'sessions' && (
+        <section className="card">
+          <h2>Zwei-Faktor-Anmeldung</h2>
+          <TwoFactorSettings authHeaders={authHeaders} />
+        </section>
+      )}
+
+      {activeAdminTab === 'sessions' && (
+        <section className="card">
+          <h2>Sitzungen</h2>
+          {sessions.length === 0 && <p className="muted">Keine aktiven Sitzungen.</p>}
+          <div className="cache-list">
+            {sessions.map((session) => (
+              <div key={session.id} className="cache-row" style={{ alignItems: 'flex-start' }}>
+                <div style={{ display: 'flex', flexDirection: 'column' }}>
+                  <strong>{session.current ? 'Diese Sitzung' : session.userAgent || 'Unbekanntes Gerät'}</strong>
+                  {session.ipAddress && <span className="muted">IP: {session.ipAddress}</span>}
+                  <span className="muted">Angemeldet: {new Date(session.createdAt).toLocaleString()}</span>
+                  <span className="muted">Zuletzt aktiv: {new Date(session.lastUsedAt).toLocaleString()}</span>
+                  <span className="muted">Läuft ab: {new Date(session.idleExpiresAt).toLocaleString()}</span>
+                </div>
+                <button
+                  className="secondary"
+                  onClick={() => (session.current ? void logout() : void revokeAdminSession(session.id))}
+                >
+                  {session.current ? 'Abmelden' : 'Beenden'}
+                </button>
+              </div>
+            ))}
+          </div>
+          <button className="secondary" onClick={() => void loadSessions()}>
+            Sitzungen neu laden
+          </button>
+        </section>
+      )}
+    </div>
+  );
+};
+
+const AdminPasswordReset = ({
+  token: resetToken,
+  navigate
+}: {
+  token: string;
+  navigate: (path: string) => void;
+}) => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [message, setMessage] = useState('');
+  const [done, setDone] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    if (password !== confirmation) {
+      setMessage('Die Passwörter stimmen nicht überein.');
+      return;
+    }
+    const res = await fetch('/api/admin/password-reset/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: resetToken, newPassword: password })
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as { message?: string };
+      setMessage(data.message || 'Passwort konnte nicht gesetzt werden.');
+      return;
+    }
+    setDone(true);
+  };
+
+  return (
+    <div className="container">
+      <header className="header">
+        <h1>GeoCachingEngine Admin</h1>
+      </header>
+      {done ? (
+        <section className="card">
+          <p>Passwort gesetzt. Bitte neu anmelden.</p>
+          <button onClick={() => navigate('/admin')}>Zum Login</button>
+        </section>
+      ) : (
+        <form onSubmit={submit} className="card">
+          <label>Neues Passwort (mind. 12 Zeichen)</label>
+          <input
+            type="password"
+            value={password}
+            minLength={12}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          <label>Neues Passwort wiederholen</label>
+          <input
+            type="password"
+            value={confirmation}
+            minLength={12}
+            onChange={(e) => setConfirmation(e.target.value)}
+            required
+          />
+          <button type="submit">Passwort setzen</button>
+        </form>
+      )}
+      {message && <p className="message">{message}</p>}
+    </div>
+  );
+};
+
+const AdminInviteAccept = ({
+  token: inviteToken,
+  navigate
+}: {
+  token: string;
+  navigate: (path: string) => void;
+}) => {
+  const { setToken } = useToken();
+  const [invite, setInvite] = useState<{ email: string; role: AdminRole } | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const res = await fetch(`/api/admin/admin-invites/${inviteToken}`);
+      if (res.ok) {
+        const data = (await res.json()) as { invite: { email: string; role: AdminRole } };
+        setInvite(data.invite);
+      } else {
+        setMessage('Einladung ungültig oder abgelaufen.');
+      }
+    };
+    void load();
+  }, [inviteToken]);
+
+  const accept = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage('');
+    const res = await fetch(`/api/admin/admin-invites/${inviteToken}/accept`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: name || undefined, password })
+    });
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      message?: string;
+      token?: string;
+      idleExpiresAt?: string;
+    };
+    if (!res.ok || !data.token) {
+      setMessage(data.message || 'Konto konnte nicht angelegt werden.');
+      return;
+    }
+    setToken(data.token, data.idleExpiresAt);
+    navigate('/admin');
+  };
+
+  return (
+    <div className="container">
+      <header className="header">
+        <h1>GeoCachingEngine Admin</h1>
+      </header>
+      {invite && (
+        <form onSubmit={accept} className="card">
+          <p className="muted">
+            Konto für {invite.email} ({adminRoleLabels[invite.role]}) einrichten.
+          </p>
+          <label>Name (optional)</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} />
+          <label>Passwort (mind. 12 Zeichen)</label>
+          <input
+            type="password"
+            value={password}
+            minLength={12}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          <button type="submit">Konto anlegen</button>
+        </form>
+      )}
+      {message && <p className="message">{message}</p>}
     </div>
   );
 };
 
 const PublicIndex = ({ navigate }: { navigate: (path: string) => void }) => {
-  const [events, setEvents] = useState<Event[]>([]);
+  const [events, setEvents] = useState<PublicEvent[]>([]);
 
   useEffect(() => {
     const load = async () => {
       const res = await fetch('/api/public/events');
       if (res.ok) {
-        const data = (await res.json()) as { events: Event[] };
+        const data = (await res.json()) as { events: PublicEvent[] };
         setEvents(data.events);
       }
     };
@@ -1233,40 +4711,94 @@ const PublicIndex = ({ navigate }: { navigate: (path: string) => void }) => {
   );
 };
 
-const useFoundState = (eventId: string) => {
-  const key = `found:${eventId}`;
-  const [found, setFound] = useState<string[]>(() => {
-    const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) : [];
+const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (path: string) => void }) => {
+  const [event, setEvent] = useState<PublicEvent | null>(null);
+  const [coords, setCoords] = useState<{
+    lat: number;
+    lon: number;
+    accuracy?: number;
+    timestamp?: number;
+  } | null>(null);
+  const [error, setError] = useState('');
+  const [nickname, setNickname] = useState('');
+  const [registering, setRegistering] = useState(false);
+  const { playerId, playerToken, playerHeaders, remember: rememberPlayer } = usePlayerIdentity(eventId);
+  const [inviteRequired, setInviteRequired] = useState(false);
+  const [transferCode, setTransferCode] = useState<{ code: string; expiresAt: string } | null>(null);
+  const [transferInput, setTransferInput] = useState('');
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [teamCodeInput, setTeamCodeInput] = useState('');
+  const [refreshCounter, setRefreshCounter] = useState(0);
+  const [answerDrafts, setAnswerDrafts] = useState<Record<string, string>>({});
+  const [qrClaim, setQrClaim] = useState<{ cacheId: string; code: string } | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    const cacheId = params.get('cache');
+    const code = params.get('code');
+    return cacheId && code ? { cacheId, code } : null;
   });
 
-  const update = (ids: string[]) => {
-    setFound(ids);
-    localStorage.setItem(key, JSON.stringify(ids));
+  const loadEvent = async () => {
+    const params = new URLSearchParams();
+    if (coords) {
+      params.set('lat', String(coords.lat));
+      params.set('lon', String(coords.lon));
+    }
+    const query = params.toString();
+    const res = await fetch(`/api/public/events/${eventId}${query ? `?${query}` : ''}`, {
+      headers: playerHeaders
+    });
+    if (res.ok) {
+      const data = (await res.json()) as { event: PublicEvent };
+      setEvent(data.event);
+      setInviteRequired(false);
+    } else if (res.status === 403) {
+      setInviteRequired(true);
+    }
   };
 
-  return { found, update } as const;
-};
+  useEffect(() => {
+    void loadEvent();
+  }, [eventId, coords?.lat, coords?.lon, playerHeaders, refreshCounter]);
 
-const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (path: string) => void }) => {
-  const [event, setEvent] = useState<Event | null>(null);
-  const [coords, setCoords] = useState<{ lat: number; lon: number } | null>(null);
-  const [error, setError] = useState('');
-  const [nickname, setNickname] = useState('');
-  const [registering, setRegistering] = useState(false);
-  const { found, update } = useFoundState(eventId);
-  const { playerId, remember: rememberPlayer } = usePlayerIdentity(eventId);
+  const hasEvent = Boolean(event);
+  const leaderboardEnabled = Boolean(event?.leaderboardEnabled);
+  const teamId = event?.team?.id ?? null;
+
+  const loadLeaderboard = async () => {
+    const res = await fetch(`/api/public/events/${eventId}/leaderboard`, { headers: playerHeaders });
+    if (res.ok) {
+      const data = (await res.json()) as { leaderboard: Leaderboard };
+      setLeaderboard(data.leaderboard);
+    } else {
+      setLeaderboard(null);
+    }
+  };
 
   useEffect(() => {
-    const load = async () => {
-      const res = await fetch(`/api/public/events/${eventId}`);
-      if (res.ok) {
-        const data = (await res.json()) as { event: Event };
-        setEvent(data.event);
-      }
-    };
-    void load();
-  }, [eventId]);
+    if (leaderboardEnabled) void loadLeaderboard();
+  }, [eventId, playerHeaders, leaderboardEnabled]);
+
+  useEffect(() => {
+    if (!hasEvent) return;
+    return subscribeToEventStream(`/api/public/events/${eventId}/stream`, playerHeaders, (type, data) => {
+      if (type !== 'find') return;
+      if (leaderboardEnabled) void loadLeaderboard();
+      const { cacheId, foundAt, teamId: finderTeamId } = data as {
+        cacheId: string;
+        foundAt: string | null;
+        teamId: string | null;
+      };
+      if (teamId && finderTeamId === teamId) setRefreshCounter((value) => value + 1);
+      setEvent((prev) =>
+        prev && {
+          ...prev,
+          caches: prev.caches?.map((cache) =>
+            cache.id === cacheId ? { ...cache, foundByAny: true, foundAt } : cache
+          )
+        }
+      );
+    });
+  }, [eventId, playerHeaders, hasEvent, leaderboardEnabled, teamId]);
 
   const requestPosition = () => {
     if (!navigator.geolocation) {
@@ -1275,7 +4807,12 @@ const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (pa
     }
     navigator.geolocation.getCurrentPosition(
       (pos) => {
-        setCoords({ lat: pos.coords.latitude, lon: pos.coords.longitude });
+        setCoords({
+          lat: pos.coords.latitude,
+          lon: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp
+        });
         setError('');
       },
       () => setError('Position konnte nicht ermittelt werden.'),
@@ -1287,59 +4824,216 @@ const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (pa
     setRegistering(true);
     const res = await fetch(`/api/public/events/${eventId}/players`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...playerHeaders },
       body: JSON.stringify({ nickname: nickname || undefined, playerId: playerId || undefined })
     });
     setRegistering(false);
     if (res.ok) {
-      const data = (await res.json()) as { playerId: string };
-      rememberPlayer(data.playerId);
-      return data.playerId;
+      const data = (await res.json()) as { playerId: string; playerToken?: string };
+      rememberPlayer(data.playerId, data.playerToken);
+      return data.playerToken ?? playerToken;
     }
     return null;
   };
 
   useEffect(() => {
-    if (event && !playerId) {
+    if (!playerToken && (event || playerId)) {
       void registerPlayer();
     }
-  }, [event, playerId]);
+  }, [event, playerId, playerToken]);
+
+  const requestTransferCode = async () => {
+    setError('');
+    const res = await fetch(`/api/public/events/${eventId}/players/transfer-code`, {
+      method: 'POST',
+      headers: playerHeaders
+    });
+    const data = (await res.json().catch(() => ({}))) as { code?: string; expiresAt?: string; message?: string };
+    if (!res.ok || !data.code || !data.expiresAt) {
+      setError(data.message || 'Code konnte nicht erzeugt werden.');
+      return;
+    }
+    setTransferCode({ code: data.code, expiresAt: data.expiresAt });
+  };
 
-  const markFound = async (cacheId: string) => {
-    let id = playerId;
-    if (!id) {
-      id = await registerPlayer();
+  const redeemTransferCode = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const res = await fetch(`/api/public/events/${eventId}/players/transfer`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: transferInput })
+    });
+    const data = (await res.json().catch(() => ({}))) as {
+      playerId?: string;
+      playerToken?: string;
+      message?: string;
+    };
+    if (!res.ok || !data.playerId || !data.playerToken) {
+      setError(data.message || 'Code konnte nicht eingelöst werden.');
+      return;
     }
-    if (!id) {
+    setTransferInput('');
+    rememberPlayer(data.playerId, data.playerToken);
+  };
+
+  const joinTeam = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const token = playerToken ?? (await registerPlayer());
+    if (!token) {
       setError('Spieler konnte nicht registriert werden.');
       return;
     }
-    const res = await fetch(`/api/events/${eventId}/caches/${cacheId}/found`, {
+    const res = await fetch(`/api/public/events/${eventId}/team`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ playerId: id, nickname: nickname || undefined })
+      headers: { 'Content-Type': 'application/json', 'X-Player-Token': token },
+      body: JSON.stringify({ code: teamCodeInput })
     });
     if (!res.ok) {
-      setError('Fund konnte nicht gespeichert werden.');
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(data.message || 'Team konnte nicht beigetreten werden.');
       return;
     }
-    const data = (await res.json()) as { playerId: string };
-    rememberPlayer(data.playerId);
-    if (!found.includes(cacheId)) {
-      update([...found, cacheId]);
+    setTeamCodeInput('');
+    await loadEvent();
+  };
+
+  const leaveTeam = async () => {
+    setError('');
+    const res = await fetch(`/api/public/events/${eventId}/team`, { method: 'DELETE', headers: playerHeaders });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(data.message || 'Team konnte nicht verlassen werden.');
+      return;
     }
+    await loadEvent();
   };
 
-  const visibleCaches = useMemo(() => {
-    if (!event) return [] as Array<{ cache: Cache; distance: number; canFind: boolean }>;
-    if (!coords) return event.caches.map((cache) => ({ cache, distance: Infinity, canFind: false }));
-    return event.caches.map((cache) => {
-      const distance = haversineDistanceMeters(coords.lat, coords.lon, cache.latitude, cache.longitude);
-      const visible = distance <= event.visibleRadiusMeters;
-      const canFind = distance <= event.foundRadiusMeters;
-      return { cache, distance: visible ? distance : Infinity, canFind };
+  const markFound = async (cacheId: string, proof?: { answer?: string; qrToken?: string }) => {
+    const hasGpsFix = coords && coords.accuracy !== undefined && coords.timestamp !== undefined;
+    if ((!proof || event?.playArea) && !hasGpsFix) {
+      setError('Bitte zuerst die aktuelle Position per GPS ermitteln.');
+      return false;
+    }
+    const token = playerToken ?? (await registerPlayer());
+    if (!token) {
+      setError('Spieler konnte nicht registriert werden.');
+      return false;
+    }
+    const res = await fetch(`/api/events/${eventId}/caches/${cacheId}/found`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Player-Token': token },
+      body: JSON.stringify({
+        nickname: nickname || undefined,
+        ...proof,
+        position: hasGpsFix
+          ? {
+              latitude: coords.lat,
+              longitude: coords.lon,
+              accuracy: coords.accuracy,
+              timestamp: coords.timestamp
+            }
+          : undefined
+      })
     });
-  }, [coords, event]);
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { message?: string };
+      setError(data.message || 'Fund konnte nicht gespeichert werden.');
+      return false;
+    }
+    setError('');
+    await loadEvent();
+    return true;
+  };
+
+  const submitAnswer = async (cacheId: string) => {
+    if (await markFound(cacheId, { answer: answerDrafts[cacheId] ?? '' })) {
+      setAnswerDrafts((current) => ({ ...current, [cacheId]: '' }));
+    }
+  };
+
+  const confirmQrClaim = async () => {
+    if (!qrClaim) return;
+    if (await markFound(qrClaim.cacheId, { qrToken: qrClaim.code })) {
+      setQrClaim(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  };
+
+  const nearbyCaches = useMemo(() => {
+    if (!event?.caches) return [] as PublicCache[];
+    return [...event.caches].sort(
+      (a, b) => (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity)
+    );
+  }, [event]);
+
+  const mapMarkers = useMemo(
+    (): MapMarker[] => [
+      ...(coords
+        ? [{ id: 'player', latitude: coords.lat, longitude: coords.lon, label: 'Deine Position', tone: 'player' as const }]
+        : []),
+      ...(event ? eventPointMarkers(event) : []),
+      ...nearbyCaches.flatMap((cache): MapMarker[] =>
+        cache.latitude === null || cache.longitude === null
+          ? []
+          : [
+              {
+                id: cache.id,
+                latitude: cache.latitude,
+                longitude: cache.longitude,
+                label: cache.clue || 'Cache',
+                tone: cache.foundByPlayer ? 'found' : cache.foundByTeam ? 'team' : cache.foundByAny ? 'taken' : 'open'
+              }
+            ]
+      )
+    ],
+    [coords, event, nearbyCaches]
+  );
+
+  const mapCircles = useMemo(
+    (): MapCircle[] =>
+      coords && event
+        ? [
+            {
+              id: 'visible',
+              latitude: coords.lat,
+              longitude: coords.lon,
+              radiusMeters: event.visibleRadiusMeters,
+              tone: 'visible'
+            },
+            ...(coords.accuracy
+              ? [
+                  {
+                    id: 'accuracy',
+                    latitude: coords.lat,
+                    longitude: coords.lon,
+                    radiusMeters: coords.accuracy,
+                    tone: 'accuracy' as const
+                  }
+                ]
+              : [])
+          ]
+        : [],
+    [coords, event?.visibleRadiusMeters]
+  );
+
+  const transferRedeemForm = (
+    <form onSubmit={redeemTransferCode} className="field" style={{ gap: '0.35rem' }}>
+      <span>Spielstand von einem anderen Gerät übernehmen</span>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <input
+          value={transferInput}
+          onChange={(e) => setTransferInput(e.target.value)}
+          placeholder="Code, z. B. ABCD-EFGH"
+          required
+        />
+        <button type="submit" className="secondary">
+          Übernehmen
+        </button>
+      </div>
+    </form>
+  );
 
   if (!event) {
     return (
@@ -1350,7 +5044,17 @@ const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (pa
             Zurück
           </button>
         </header>
-        <p className="muted">Event wird geladen...</p>
+        {inviteRequired ? (
+          <section className="card">
+            <p className="message">
+              Dieses Event ist nur mit Einladung zugänglich. Bitte den persönlichen Einladungslink öffnen.
+            </p>
+            {transferRedeemForm}
+            {error && <p className="message">{error}</p>}
+          </section>
+        ) : (
+          <p className="muted">Event wird geladen...</p>
+        )}
       </div>
     );
   }
@@ -1385,6 +5089,55 @@ const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (pa
             {playerId && <span className="muted">Spieler-ID: {playerId}</span>}
           </div>
         </div>
+        {event.teamsEnabled && (
+          <div className="field" style={{ gap: '0.35rem', marginBottom: '0.5rem' }}>
+            {event.team ? (
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                <span>
+                  Team <strong>{event.team.name}</strong> · {event.team.memberCount} Mitglieder · Code{' '}
+                  {event.team.joinCode}
+                </span>
+                <button className="secondary" onClick={() => void leaveTeam()}>
+                  Team verlassen
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={joinTeam} className="field" style={{ gap: '0.35rem' }}>
+                <span>Team beitreten (erforderlich, um Funde zu melden)</span>
+                <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                  <input
+                    value={teamCodeInput}
+                    onChange={(e) => setTeamCodeInput(e.target.value)}
+                    placeholder="Team-Code"
+                    required
+                  />
+                  <button type="submit" className="secondary">
+                    Beitreten
+                  </button>
+                </div>
+              </form>
+            )}
+            {event.oneFindPerTeam && (
+              <span className="muted">Jeder Cache zählt pro Team nur einmal.</span>
+            )}
+          </div>
+        )}
+        <details style={{ marginBottom: '0.5rem' }}>
+          <summary>Gerät wechseln</summary>
+          <div className="field" style={{ gap: '0.35rem' }}>
+            <button className="secondary" onClick={() => void requestTransferCode()} disabled={!playerToken}>
+              Code für anderes Gerät erzeugen
+            </button>
+            {transferCode && (
+              <p className="muted">
+                Code <strong>{transferCode.code}</strong> gültig bis{' '}
+                {new Date(transferCode.expiresAt).toLocaleTimeString()}. Nach dem Einlösen wird dieses Gerät
+                abgemeldet.
+              </p>
+            )}
+            {transferRedeemForm}
+          </div>
+        </details>
         <div className="field" style={{ gap: '0.5rem' }}>
           <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
             <button onClick={requestPosition}>Aktuelle Position verwenden</button>
@@ -1418,6 +5171,67 @@ const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (pa
         </div>
       </section>
 
+      {event.startPoint && new Date(event.startsAt) > new Date() && (
+        <section className="card">
+          <h2>Treffpunkt</h2>
+          <p>
+            {event.startPoint.label || 'Startpunkt'}
+            {hasCoordinates(event.startPoint) &&
+              ` · ${event.startPoint.latitude.toFixed(5)}, ${event.startPoint.longitude.toFixed(5)}`}
+          </p>
+          {event.startPointGuidance ? (
+            <p>
+              Noch {formatDistance(event.startPointGuidance.distanceMeters)} Richtung{' '}
+              {compassDirection(event.startPointGuidance.bearingDegrees)}.
+            </p>
+          ) : (
+            hasCoordinates(event.startPoint) && (
+              <p className="muted">Position setzen, um den Weg zum Startpunkt zu sehen.</p>
+            )
+          )}
+          <p className="muted">Das Event beginnt am {new Date(event.startsAt).toLocaleString()}.</p>
+        </section>
+      )}
+
+      <section className="card">
+        <h2>Karte</h2>
+        <EventMap
+          markers={mapMarkers}
+          circles={mapCircles}
+          playArea={event.playArea}
+          fitKey={`${eventId}:${mapMarkers.length}`}
+        />
+        <p className="muted">
+          Blau: deine Position und Sichtweite · Grün: von dir gefunden · Violett: von deinem Team gefunden · Grau:
+          bereits von anderen gefunden · Orange: offen · Türkis/Schwarz: Start- und Zielpunkt · gestrichelt:
+          Spielfeld
+        </p>
+        {event.insidePlayArea === false && (
+          <p className="message">
+            Du befindest dich außerhalb des Spielfelds. Funde sind nur innerhalb möglich.
+          </p>
+        )}
+      </section>
+
+      {qrClaim && (
+        <section className="card">
+          <h2>QR-Code erkannt</h2>
+          <p className="muted">Bestätige den Fund des gescannten Caches.</p>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button onClick={() => void confirmQrClaim()}>Fund bestätigen</button>
+            <button
+              className="secondary"
+              onClick={() => {
+                setQrClaim(null);
+                window.history.replaceState(null, '', window.location.pathname);
+              }}
+            >
+              Verwerfen
+            </button>
+          </div>
+        </section>
+      )}
+
       <section className="card">
         <h2>Caches</h2>
         {coords ? (
@@ -1426,33 +5240,275 @@ const PublicEventPage = ({ eventId, navigate }: { eventId: string; navigate: (pa
           <p className="muted">Position setzen, um Reichweiten zu sehen.</p>
         )}
         <div className="cache-list">
-          {visibleCaches
-            .filter(({ distance }) => distance !== Infinity)
-            .sort((a, b) => a.distance - b.distance)
-            .map(({ cache, distance, canFind }) => (
+          {nearbyCaches.map((cache) => {
+            if (cache.locked) {
+              return (
+                <div key={cache.id} className="event-row">
+                  <div>
+                    <strong>Finale{cache.stage !== null && ` (Stufe ${cache.stage})`}</strong>
+                    <p className="muted">Wird freigeschaltet, sobald die vorherigen Stufen gelöst sind.</p>
+                  </div>
+                </div>
+              );
+            }
+            const canFind =
+              cache.distanceMeters !== null && cache.distanceMeters <= event.foundRadiusMeters;
+            const alreadyFound = cache.foundByPlayer || (event.oneFindPerTeam && cache.foundByTeam);
+            return (
               <div key={cache.id} className="event-row">
                 <div>
+                  {(cache.stage !== null || cache.isFinal) && (
+                    <p className="muted">
+                      {cache.isFinal ? 'Finale' : `Stufe ${cache.stage}`}
+                      {cache.isFinal && cache.stage !== null && ` (Stufe ${cache.stage})`}
+                    </p>
+                  )}
                   <strong>Hinweis:</strong> {cache.clue}
-                  <p className="muted">Distanz: {distance}m</p>
-                  {found.includes(cache.id) && <p className="muted">Status: Gefunden</p>}
+                  {cache.isFinal && (
+                    <p className="muted">
+                      Koordinaten: {cache.latitude}, {cache.longitude}
+                    </p>
+                  )}
+                  {cache.distanceMeters !== null && (
+                    <p className="muted">Distanz: {cache.distanceMeters}m</p>
+                  )}
+                  {cache.foundByPlayer ? (
+                    <p className="muted">Status: Gefunden</p>
+                  ) : cache.foundByTeam ? (
+                    <p className="muted">Status: Von deinem Team gefunden</p>
+                  ) : (
+                    cache.foundByAny && <p className="muted">Status: Bereits von jemandem gefunden</p>
+                  )}
                 </div>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
-                  <button
-                    className="secondary"
-                    disabled={!canFind || found.includes(cache.id)}
-                    onClick={() => markFound(cache.id)}
-                  >
-                    {found.includes(cache.id) ? 'Bereits gefunden' : 'Als gefunden markieren'}
-                  </button>
-                  {found.includes(cache.id) && <span className="muted">Lösung: {cache.solution}</span>}
+                  {alreadyFound ? (
+                    <button className="secondary" disabled>
+                      Bereits gefunden
+                    </button>
+                  ) : cache.verificationMode === 'GPS' ? (
+                    <button className="secondary" disabled={!canFind} onClick={() => markFound(cache.id)}>
+                      Als gefunden markieren
+                    </button>
+                  ) : cache.verificationMode === 'QR' ? (
+                    <span className="muted">Zum Bestätigen den QR-Code am Cache scannen.</span>
+                  ) : (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        void submitAnswer(cache.id);
+                      }}
+                      style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}
+                    >
+                      {cache.answerOptions.length > 0 ? (
+                        <select
+                          value={answerDrafts[cache.id] ?? ''}
+                          onChange={(e) => setAnswerDrafts({ ...answerDrafts, [cache.id]: e.target.value })}
+                        >
+                          <option value="">Antwort wählen</option>
+                          {cache.answerOptions.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          value={answerDrafts[cache.id] ?? ''}
+                          onChange={(e) => setAnswerDrafts({ ...answerDrafts, [cache.id]: e.target.value })}
+                          placeholder={cache.verificationMode === 'CODE' ? 'Code aus dem Cache' : 'Deine Antwort'}
+                        />
+                      )}
+                      <button type="submit" className="secondary" disabled={!answerDrafts[cache.id]?.trim()}>
+                        {cache.verificationMode === 'CODE' ? 'Code prüfen' : 'Antwort prüfen'}
+                      </button>
+                    </form>
+                  )}
+                  {cache.solution && <span className="muted">Lösung: {cache.solution}</span>}
                 </div>
               </div>
-            ))}
-          {visibleCaches.filter(({ distance }) => distance !== Infinity).length === 0 && (
-            <p className="muted">Keine Caches in Reichweite.</p>
-          )}
+            );
+          })}
+          {nearbyCaches.length === 0 && <p className="muted">Keine Caches in Reichweite.</p>}
         </div>
       </section>
+
+      {leaderboard && (
+        <section className="card">
+          <h2>Bestenliste</h2>
+          {leaderboard.frozenAt && (
+            <p className="muted">Eingefroren seit {new Date(leaderboard.frozenAt).toLocaleString()}.</p>
+          )}
+          {leaderboard.viewer && (
+            <p className="muted">
+              Deine Statistik: Platz {leaderboard.viewer.rank} · {leaderboard.viewer.points} Punkte ·{' '}
+              {leaderboard.viewer.finds} von{' '}
+              {leaderboard.cacheCount} Caches · {leaderboard.viewer.firstFinds} Erstfunde · Strecke{' '}
+              {formatDistance(leaderboard.viewer.distanceMeters)}
+              {leaderboard.viewer.completionMs !== null &&
+                ` · komplett in ${formatDuration(leaderboard.viewer.completionMs)}`}
+            </p>
+          )}
+          {leaderboard.teams && leaderboard.teams.length > 0 && (
+            <>
+              <h3>Teams</h3>
+              <TeamStandingsTable teams={leaderboard.teams} />
+              <h3>Spieler</h3>
+            </>
+          )}
+          {leaderboard.entries.length === 0 ? (
+            <p className="muted">Noch keine Funde.</p>
+          ) : (
+            <LeaderboardTable entries={leaderboard.entries} />
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+const JoinEventPage = ({
+  token: invitationToken,
+  navigate
+}: {
+  token: string;
+  navigate: (path: string) => void;
+}) => {
+  const [event, setEvent] = useState<PublicEvent | null>(null);
+  const [nickname, setNickname] = useState('');
+  const [message, setMessage] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const res = await fetch(`/api/public/join/${invitationToken}`);
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+        event?: PublicEvent;
+        message?: string;
+      };
+      if (res.ok && data.event) {
+        setEvent(data.event);
+      } else {
+        setMessage(data.message || 'Einladung ungültig.');
+      }
+    };
+    void load();
+  }, [invitationToken]);
+
+  const join = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!event) return;
+    setJoining(true);
+    setMessage('');
+    const playerToken = localStorage.getItem(`playerToken:${event.id}`);
+    const res = await fetch(`/api/public/events/${event.id}/players`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(playerToken ? { 'X-Player-Token': playerToken } : {})
+      },
+      body: JSON.stringify({ nickname: nickname || undefined, invitationToken })
+    });
+    setJoining(false);
+    const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+      playerId?: string;
+      playerToken?: string;
+      message?: string;
+    };
+    if (!res.ok || !data.playerId) {
+      setMessage(data.message || 'Beitritt fehlgeschlagen.');
+      return;
+    }
+    localStorage.setItem(`player:${event.id}`, data.playerId);
+    if (data.playerToken) localStorage.setItem(`playerToken:${event.id}`, data.playerToken);
+    navigate(`/public/event/${event.id}`);
+  };
+
+  return (
+    <div className="container">
+      <header className="header">
+        <h1>{event ? event.name : 'Einladung'}</h1>
+        <button className="secondary" onClick={() => navigate('/public')}>
+          Zur Übersicht
+        </button>
+      </header>
+      {event && (
+        <form onSubmit={join} className="card">
+          <p className="muted">
+            {new Date(event.startsAt).toLocaleString()} → {new Date(event.endsAt).toLocaleString()}
+          </p>
+          {event.description && <p>{event.description}</p>}
+          <label className="field">
+            <span>Pseudonym (optional)</span>
+            <input value={nickname} onChange={(e) => setNickname(e.target.value)} />
+          </label>
+          <button type="submit" className="primary" disabled={joining}>
+            {joining ? 'Trete bei...' : 'Event beitreten'}
+          </button>
+        </form>
+      )}
+      {message && <p className="message">{message}</p>}
+    </div>
+  );
+};
+
+const UnsubscribePage = ({ token: unsubscribeToken }: { token: string }) => {
+  const [eventName, setEventName] = useState<string | null>(null);
+  const [unsubscribed, setUnsubscribed] = useState(false);
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const res = await fetch(`/api/public/unsubscribe/${unsubscribeToken}`);
+      const data = (await res.json().catch(() => ({ message: 'Fehler' }))) as {
+        eventName?: string;
+        unsubscribed?: boolean;
+        message?: string;
+      };
+      if (res.ok && data.eventName) {
+        setEventName(data.eventName);
+        setUnsubscribed(Boolean(data.unsubscribed));
+      } else {
+        setMessage(data.message || 'Abmeldelink ungültig.');
+      }
+    };
+    void load();
+  }, [unsubscribeToken]);
+
+  const unsubscribe = async () => {
+    setSubmitting(true);
+    const res = await fetch(`/api/public/unsubscribe/${unsubscribeToken}`, { method: 'POST' });
+    setSubmitting(false);
+    if (res.ok) {
+      setUnsubscribed(true);
+    } else {
+      setMessage('Abmeldung fehlgeschlagen. Bitte später erneut versuchen.');
+    }
+  };
+
+  return (
+    <div className="container">
+      <header className="header">
+        <h1>E-Mail-Einladungen abbestellen</h1>
+      </header>
+      {eventName && (
+        <div className="card">
+          {unsubscribed ? (
+            <p>Du erhältst keine Einladungen mehr an diese Adresse.</p>
+          ) : (
+            <>
+              <p>
+                Du hast eine Einladung zu <strong>{eventName}</strong> erhalten. Möchtest du keine weiteren
+                Einladungen per E-Mail bekommen?
+              </p>
+              <button className="primary" disabled={submitting} onClick={() => void unsubscribe()}>
+                {submitting ? 'Melde ab...' : 'Abmelden'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {message && <p className="message">{message}</p>}
     </div>
   );
 };
@@ -1469,6 +5525,26 @@ const App = () => {
     return <PublicIndex navigate={navigate} />;
   }
 
+  if (path.startsWith('/join/')) {
+    const invitationToken = path.split('/join/')[1];
+    return <JoinEventPage token={invitationToken} navigate={navigate} />;
+  }
+
+  if (path.startsWith('/unsubscribe/')) {
+    const unsubscribeToken = path.split('/unsubscribe/')[1];
+    return <UnsubscribePage token={unsubscribeToken} />;
+  }
+
+  if (path.startsWith('/admin/reset/')) {
+    const resetToken = path.split('/admin/reset/')[1];
+    return <AdminPasswordReset token={resetToken} navigate={navigate} />;
+  }
+
+  if (path.startsWith('/admin/invite/')) {
+    const inviteToken = path.split('/admin/invite/')[1];
+    return <AdminInviteAccept token={inviteToken} navigate={navigate} />;
+  }
+
   return <AdminApp navigate={navigate} />;
 };
 
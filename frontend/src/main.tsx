@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import 'leaflet/dist/leaflet.css';
 import './styles.css';
 
 const Root = () => {
@@ -0,0 +1,13 @@
+DO $$
+BEGIN
+  IF to_regclass('"CacheFind"') IS NOT NULL THEN
+    DELETE FROM "CacheFind" AS duplicate
+    USING "CacheFind" AS earlier
+    WHERE duplicate."cacheId" = earlier."cacheId"
+      AND duplicate."playerId" = earlier."playerId"
+      AND (
+        duplicate."foundAt" > earlier."foundAt"
+        OR (duplicate."foundAt" = earlier."foundAt" AND duplicate."id" > earlier."id")
+      );
+  END IF;
+END $$;
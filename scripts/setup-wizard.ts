@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
@@ -21,7 +22,11 @@ const CONFIG_FIELDS = [
 ] as const;
 
 type ConfigKey = (typeof CONFIG_FIELDS)[number];
-type EnvRecord = Partial<Record<ConfigKey | 'ADMIN_PASSWORD', string>>;
+type EnvRecord = Partial<
+  Record<ConfigKey | 'ADMIN_PASSWORD' | 'SECRETS_ENCRYPTION_KEY' | 'PLAYER_TOKEN_SECRET', string>
+>;
+
+const PLACEHOLDER_PLAYER_TOKEN_SECRET = 'change-me-to-a-long-random-string';
 
 const readExistingEnv = (): EnvRecord => {
   if (!fs.existsSync(ENV_PATH)) return {};
@@ -55,6 +60,8 @@ const persistEnv = (values: EnvRecord) => {
     lines.push(`${key}=${values[key] ?? ''}`);
   });
   lines.push(`ADMIN_PASSWORD=${values.ADMIN_PASSWORD ?? defaults.ADMIN_PASSWORD}`);
+  lines.push(`SECRETS_ENCRYPTION_KEY=${values.SECRETS_ENCRYPTION_KEY ?? ''}`);
+  lines.push(`PLAYER_TOKEN_SECRET=${values.PLAYER_TOKEN_SECRET ?? ''}`);
   fs.writeFileSync(ENV_PATH, lines.join('\n'));
 };
 
@@ -104,7 +111,12 @@ const runWizard = async () => {
   const envValues: EnvRecord = {
     ...responses,
     SUPPORT_EMAIL: responses.SUPPORT_EMAIL,
-    ADMIN_PASSWORD: adminPassword ?? existing.ADMIN_PASSWORD ?? defaults.ADMIN_PASSWORD
+    ADMIN_PASSWORD: adminPassword ?? existing.ADMIN_PASSWORD ?? defaults.ADMIN_PASSWORD,
+    SECRETS_ENCRYPTION_KEY: existing.SECRETS_ENCRYPTION_KEY || crypto.randomBytes(32).toString('base64'),
+    PLAYER_TOKEN_SECRET:
+      existing.PLAYER_TOKEN_SECRET && existing.PLAYER_TOKEN_SECRET !== PLACEHOLDER_PLAYER_TOKEN_SECRET
+        ? existing.PLAYER_TOKEN_SECRET
+        : crypto.randomBytes(32).toString('base64')
   };
   persistEnv(envValues);
 
@@ -114,6 +126,7 @@ const runWizard = async () => {
   if (runMigrations) {
     try {
       console.log('Starte Prisma Migrationen...');
+      execSync('npm run migrate:prepare', { stdio: 'inherit' });
       execSync('npx prisma migrate dev --name init', { stdio: 'inherit' });
       execSync('npx prisma generate', { stdio: 'inherit' });
       console.log('Migrationen abgeschlossen.');